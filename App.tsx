@@ -1,77 +1,216 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { User, Resident, Visit } from './types';
-import { MOCK_USERS, MOCK_TENANTS } from './constants';
+import { User, Resident, Unit, Visit, Invitation, Tenant, PublicTenant, UserCredential, Session, AuditEntry } from './types';
+import { MOCK_USERS, MOCK_UNITS, MOCK_TENANTS, MOCK_CREDENTIALS, MOCK_RESIDENTS, MOCK_VISITS } from './constants';
 import Sidebar from './components/Sidebar';
 import Dashboard from './components/Dashboard';
 import UserManagement from './components/UserManagement';
 import { QRGenerator, QRValidator } from './components/QRTools';
 import ChatAssistant from './components/ChatAssistant';
 import UserProfile from './components/UserProfile';
-import { PanelLeftClose, PanelLeft, Sparkles } from 'lucide-react';
-import { useLocalStorage } from './hooks';
+import OccupancyPanel from './components/OccupancyPanel';
+import LoginScreen from './components/LoginScreen';
+import AuditLog from './components/AuditLog';
+import NotificationCenter from './components/NotificationCenter';
+import TenantAdmin from './components/TenantAdmin';
+import PermissionsAdmin from './components/PermissionsAdmin';
+import UnitsAdmin from './components/UnitsAdmin';
+import SiteAdmin from './components/SiteAdmin';
+import InvitationList from './components/InvitationList';
+import { WalkInRegistration, WalkInApprovals } from './components/WalkInTools';
+import { PanelLeftClose, PanelLeft, Sparkles, Loader2, AlertTriangle, X } from 'lucide-react';
+import { useLocalStorage, useCollection } from './hooks';
+import { createDataStore, DATA_BACKEND, API_BASE_URL, logoutFromServer, logoutAllSessionsOnServer, fetchResolvedTenant } from './data';
+import { evaluateAlertRules } from './alerts';
+import { createSession, isSessionActive } from './auth';
+import { withAudit, AuditEvent, AuditRecorder } from './audit';
+import { runRetention } from './retention';
+import { isTenantActive, resolveTenant, TENANT_OVERRIDE_PARAM } from './tenants';
+import { generateQrKeyPair } from './qrSecurity';
+import { isUserActive } from './users';
+import { getGateName, resolveGateId } from './site';
+import { applyBranding, getBrandName } from './branding';
+import { createPermissionCheck, ANY_RESOURCE, ROLE_LABELS } from './permissions';
+import { evaluateExpiryWarnings, isNotificationStale, isNotificationForUser } from './notifications';
 
-// --- Global Mock Database (Initial Data) ---
-const INITIAL_RESIDENTS: Resident[] = [
-  { id: '1', tenantId: 't1', name: 'Juan Perez', unit: '101', type: 'Resident', status: 'Active', licensePlate: 'GH-45-22' },
-  { id: '2', tenantId: 't1', name: 'Maria Lopez', unit: '202', type: 'Resident', status: 'Active' },
-  { id: '3', tenantId: 't1', name: 'Hijo de Beto', unit: '101', type: 'Family', status: 'Active' }, // Family of User B
-  { id: '4', tenantId: 't1', name: 'Pedro Repartidor', unit: '101', type: 'Delivery', status: 'Active', licensePlate: 'DL-99-00' }, 
-];
+// --- Persistence (backend selected by DATA_BACKEND) ---
+const dataStore = createDataStore(DATA_BACKEND, {
+  residents: MOCK_RESIDENTS,
+  visits: MOCK_VISITS,
+  users: MOCK_USERS,
+  units: MOCK_UNITS,
+  invitations: [],
+  alerts: [],
+  blacklist: [],
+  notifications: [],
+  tenants: MOCK_TENANTS,
+  audit: [],
+});
 
-const INITIAL_VISITS: Visit[] = [
-  { id: 'v1', tenantId: 't1', residentId: '1', visitorName: 'Pedro Delivery', date: new Date().toISOString().split('T')[0], status: 'Completed', code: '123' }
-];
+// `?tenant=<id|domain>` picks the tenant on hosts that aren't a tenant domain (local development)
+const TENANT_OVERRIDE = new URLSearchParams(window.location.search).get(TENANT_OVERRIDE_PARAM);
 
 const App: React.FC = () => {
-  // --- Data State (Optimized with Custom Hook) ---
-  const [residents, setResidents] = useLocalStorage<Resident[]>('condoguard_residents', INITIAL_RESIDENTS);
-  const [visits, setVisits] = useLocalStorage<Visit[]>('condoguard_visits', INITIAL_VISITS);
-  const [systemUsers, setSystemUsers] = useLocalStorage<User[]>('condoguard_users', MOCK_USERS);
-
   // --- Auth State ---
-  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [credentials, setCredentials] = useLocalStorage<UserCredential[]>('condoguard_credentials', MOCK_CREDENTIALS);
+  const [sessions, setSessions] = useLocalStorage<Session[]>('condoguard_sessions', []);
+  const [activeSessionId, setActiveSessionId] = useLocalStorage<string | null>('condoguard_active_session', null);
+  // Ticks so expired sessions are dropped without user interaction
+  const [sessionClock, setSessionClock] = useState(() => Date.now());
+
+  // --- Data State (repositories) ---
+  // The API only answers for a logged-in session, so the http backend reloads on every login/logout
+  const reloadKey = DATA_BACKEND === 'http' ? activeSessionId : undefined;
+  // Last write the store rejected; the collection already rolled it back, this tells the user why
+  const [writeError, setWriteError] = useState<string | null>(null);
+  const handleWriteError = useCallback((error: unknown) => {
+    setWriteError(error instanceof Error ? error.message : String(error));
+  }, []);
+  const [residents, residentActions, residentsLoaded] = useCollection(dataStore.residents, reloadKey, handleWriteError);
+  const [visits, visitActions, visitsLoaded] = useCollection(dataStore.visits, reloadKey, handleWriteError);
+  const [systemUsers, userActions, usersLoaded] = useCollection(dataStore.users, reloadKey, handleWriteError);
+  const [units, unitActions, unitsLoaded] = useCollection(dataStore.units, reloadKey, handleWriteError);
+  const [invitations, invitationActions, invitationsLoaded] = useCollection(dataStore.invitations, reloadKey, handleWriteError);
+  const [alerts, alertActions, alertsLoaded] = useCollection(dataStore.alerts, reloadKey, handleWriteError);
+  const [plateBlacklist, blacklistActions, blacklistLoaded] = useCollection(dataStore.blacklist, reloadKey, handleWriteError);
+  const [notifications, notificationActions, notificationsLoaded] = useCollection(dataStore.notifications, reloadKey, handleWriteError);
+  const [tenants, tenantActions, tenantsLoaded] = useCollection(dataStore.tenants, reloadKey, handleWriteError);
+  const [auditLog, auditActions, auditLoaded] = useCollection(dataStore.audit, reloadKey, handleWriteError);
+  const isDataLoaded = residentsLoaded && visitsLoaded && usersLoaded && unitsLoaded && invitationsLoaded && alertsLoaded && blacklistLoaded && notificationsLoaded && tenantsLoaded && auditLoaded;
+
+  // --- Local-only State ---
 
   // --- App State ---
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
   const [isChatOpen, setIsChatOpen] = useState(true);
   const [activeTab, setActiveTab] = useState('dashboard');
+  // Resident whose extension form UserManagement should open (set from a notification's "Aplazar")
+  const [pendingExtensionId, setPendingExtensionId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const intervalId = setInterval(() => setSessionClock(Date.now()), 30000);
+    return () => clearInterval(intervalId);
+  }, []);
 
-  // --- Sync Current User ---
-  // If the currently logged-in user is updated (e.g., name change in profile), update the session state
+  // --- Tenant of this hostname ---
+  // The API doesn't expose tenants before login, so the http backend asks the server to resolve it
+  const [serverTenant, setServerTenant] = useState<PublicTenant | undefined>();
   useEffect(() => {
-    if (currentUser) {
-      const updatedUser = systemUsers.find(u => u.id === currentUser.id);
-      if (updatedUser && (updatedUser.name !== currentUser.name || updatedUser.avatar !== currentUser.avatar || updatedUser.role !== currentUser.role)) {
-        setCurrentUser(updatedUser);
-      }
-    }
-  }, [systemUsers, currentUser]);
+    if (DATA_BACKEND !== 'http') return;
+    fetchResolvedTenant(API_BASE_URL, TENANT_OVERRIDE)
+      .then(setServerTenant)
+      .catch(error => console.warn('Error resolving tenant:', error));
+  }, []);
+
+  const resolvedTenant = React.useMemo<PublicTenant | undefined>(() =>
+    DATA_BACKEND === 'http' ? serverTenant : resolveTenant(tenants, window.location.hostname, TENANT_OVERRIDE),
+    [serverTenant, tenants]
+  );
+
+  // --- Current User (derived from the persisted session) ---
+  // Deriving from systemUsers keeps profile edits (name, avatar, role) in sync automatically
+  const activeSession = React.useMemo(() => 
+    sessions.find(s => s.id === activeSessionId && isSessionActive(s, new Date(sessionClock))),
+    [sessions, activeSessionId, sessionClock]
+  );
+
+  // Deactivating a tenant also ends its users' sessions (super-admins keep access to re-activate it), as does
+  // deactivating the user.
+  // Sessions of another tenant than the one this hostname serves are refused as well.
+  const currentUser = React.useMemo(() => {
+    const user = activeSession ? systemUsers.find(u => u.id === activeSession.userId) : undefined;
+    if (!user || (!user.superAdmin && !isTenantActive(tenants.find(t => t.id === user.tenantId)))) return null;
+    if (!isUserActive(user)) return null;
+    if (resolvedTenant && user.tenantId !== resolvedTenant.id) return null;
+    return user;
+  }, [activeSession, systemUsers, tenants, resolvedTenant]);
+
+  // --- Audit Trail (append-only: entries are only ever added) ---
+  const appendAudit = useCallback((actor: AuditEntry['actor'], tenantId: string, { tenantId: eventTenantId, ...event }: AuditEvent) => {
+    auditActions.save({ id: crypto.randomUUID(), tenantId: eventTenantId || tenantId, at: new Date().toISOString(), actor, ...event });
+  }, [auditActions]);
+
+  const recordAudit = useCallback<AuditRecorder>(event => {
+    if (!currentUser) return;
+    appendAudit({ id: currentUser.id, name: currentUser.name, role: currentUser.role }, currentUser.tenantId, event);
+  }, [currentUser, appendAudit]);
+
+  // Mutations handed to components go through these, so every change leaves a trace
+  const auditedResidentActions = React.useMemo(() =>
+    withAudit<Resident>(residentActions, residents, 'resident', r => `${r.name} (Unidad ${r.unit})`, recordAudit),
+    [residentActions, residents, recordAudit]
+  );
+  const auditedVisitActions = React.useMemo(() =>
+    withAudit<Visit>(visitActions, visits, 'visit', v => v.visitorName, recordAudit),
+    [visitActions, visits, recordAudit]
+  );
+  // The QR signing key must never end up in the (exportable) audit trail
+  const recordTenantAudit = useCallback<AuditRecorder>(({ before, after, ...event }) => {
+    const redact = (tenant: unknown) => tenant && { ...(tenant as Tenant), qrSigningKey: '***' };
+    recordAudit({ ...event, before: redact(before), after: redact(after) });
+  }, [recordAudit]);
+  const auditedTenantActions = React.useMemo(() =>
+    withAudit<Tenant>(tenantActions, tenants, 'tenant', t => t.name, recordTenantAudit),
+    [tenantActions, tenants, recordTenantAudit]
+  );
+  const auditedUserActions = React.useMemo(() =>
+    withAudit<User>(userActions, systemUsers, 'user', u => `${u.name} (${u.email})`, recordAudit),
+    [userActions, systemUsers, recordAudit]
+  );
+  const auditedUnitActions = React.useMemo(() =>
+    withAudit<Unit>(unitActions, units, 'unit', u => `Unidad ${u.number}`, recordAudit),
+    [unitActions, units, recordAudit]
+  );
+  // The signed QR is a working gate pass: whoever can read the audit trail must not be able to copy it
+  const recordInvitationAudit = useCallback<AuditRecorder>(({ before, after, ...event }) => {
+    const redact = (invitation: unknown) => invitation && { ...(invitation as Invitation), qrValue: '***' };
+    recordAudit({ ...event, before: redact(before), after: redact(after) });
+  }, [recordAudit]);
+  const auditedInvitationActions = React.useMemo(() =>
+    withAudit<Invitation>(invitationActions, invitations, 'invitation', i => `${i.payload.visitorName} (Unidad ${i.payload.residentUnit})`, recordInvitationAudit),
+    [invitationActions, invitations, recordInvitationAudit]
+  );
   
-  // --- Automatic Cleanup Effect (Check Expiration) ---
-  // Runs immediately on mount (for "offline" expiry) and then every 10s
+  // --- QR Keys (browser backends) ---
+  // Without the API server the browser signs invitations itself, so tenants get their key pair on first run
   useEffect(() => {
+    if (DATA_BACKEND === 'http' || !tenantsLoaded) return;
+    tenants.filter(t => !t.qrPublicKey).forEach(async t => {
+      const keys = await generateQrKeyPair();
+      // Another run may have generated them meanwhile; the first pair wins
+      tenantActions.update(t.id, current => current.qrPublicKey ? current : { ...current, ...keys });
+    });
+  }, [tenants, tenantsLoaded, tenantActions]);
+
+  // --- Automatic Cleanup Effect (browser backends; the API server runs it for the http backend) ---
+  // Only one tab runs it, or each would archive (and audit) the same residents: the others queue behind its
+  // lock and take over when it closes. Without the Web Locks API every tab runs it.
+  const [isCleanupLeader, setIsCleanupLeader] = useState(!('locks' in navigator));
+  useEffect(() => {
+    if (DATA_BACKEND === 'http' || !('locks' in navigator)) return;
+    const controller = new AbortController();
+    let release = () => {};
+    navigator.locks
+      .request('mivilla-retention', { signal: controller.signal }, () => {
+        setIsCleanupLeader(true);
+        return new Promise<void>(resolve => { release = resolve; });
+      })
+      .catch(() => {}); // Aborted while still queued
+    return () => {
+      controller.abort();
+      release();
+      setIsCleanupLeader(false);
+    };
+  }, []);
+
+  // Runs immediately on mount (for "offline" expiry) and then every 10s.
+  // Expired residents are archived (status 'Inactive'), and only purged once the tenant's retention period lapses.
+  useEffect(() => {
+    if (DATA_BACKEND === 'http' || !isDataLoaded || !isCleanupLeader) return;
     const checkExpiration = () => {
-      setResidents(currentResidents => {
-        const now = new Date();
-        let hasChanges = false;
-        
-        const validResidents = currentResidents.filter(r => {
-          if (!r.expirationDate) return true; // Keep if no expiration date
-          const expDate = new Date(r.expirationDate);
-          const isExpired = expDate <= now;
-          if (isExpired) {
-             hasChanges = true;
-          }
-          return !isExpired; // Keep if expiration is in the future
-        });
-
-        // Only update state if something actually changed to avoid re-renders
-        if (hasChanges) {
-          console.log('Sistema: Se han eliminado registros vencidos automáticamente.');
-          return validResidents;
-        }
-        return currentResidents;
-      });
+      const { archived, purged, entries } = runRetention(residents, tenants, new Date());
+      archived.forEach(residentActions.save);
+      if (purged.length > 0) residentActions.removeMany(purged.map(r => r.id));
+      entries.forEach(auditActions.save);
     };
 
     // Run once on mount to clear expired while offline
@@ -81,7 +220,37 @@ const App: React.FC = () => {
     const intervalId = setInterval(checkExpiration, 10000); 
 
     return () => clearInterval(intervalId);
-  }, [setResidents]);
+  }, [residents, tenants, residentActions, auditActions, isDataLoaded, isCleanupLeader]);
+
+  // --- Alerts Engine (browser backends; the API server runs it for the http backend) ---
+  // Re-evaluates the rules whenever the visit log or blacklist changes, and every 10s for time-based rules (overstays)
+  useEffect(() => {
+    if (DATA_BACKEND === 'http' || !isDataLoaded) return;
+    const runAlertRules = () => {
+      evaluateAlertRules(visits, plateBlacklist, alerts, new Date()).forEach(alertActions.save);
+    };
+
+    runAlertRules();
+    const intervalId = setInterval(runAlertRules, 10000);
+
+    return () => clearInterval(intervalId);
+  }, [visits, plateBlacklist, alerts, alertActions, isDataLoaded]);
+
+  // --- Expiry Warnings (browser backends; the API server runs them for the http backend) ---
+  // Same cadence as the alerts engine; stale warnings (extended, archived or removed residents) are dropped
+  useEffect(() => {
+    if (DATA_BACKEND === 'http' || !isDataLoaded) return;
+    const runExpiryWarnings = () => {
+      const stale = notifications.filter(n => isNotificationStale(n, residents));
+      const fresh = notifications.filter(n => !stale.includes(n));
+      notificationActions.removeMany(stale.map(n => n.id));
+      evaluateExpiryWarnings(residents, tenants, fresh, new Date()).forEach(notificationActions.save);
+    };
+
+    runExpiryWarnings();
+    const intervalId = setInterval(runExpiryWarnings, 10000);
+    return () => clearInterval(intervalId);
+  }, [residents, tenants, notifications, notificationActions, isDataLoaded]);
 
   // Memoized tenant data to avoid recalculation on every render
   const tenantResidents = React.useMemo(() => 
@@ -94,67 +263,129 @@ const App: React.FC = () => {
     [visits, currentUser]
   );
 
-  const handleLogin = (userId: string) => {
-    // Look in the persisted systemUsers list instead of the constant MOCK_USERS
-    const user = systemUsers.find(u => u.id === userId);
-    if (user) {
-      setCurrentUser(user);
-      setIsSidebarOpen(true);
-      setIsChatOpen(true);
-      setActiveTab('dashboard');
-    }
+  const tenantUnits = React.useMemo(() => 
+    currentUser ? units.filter(u => u.tenantId === currentUser.tenantId) : [],
+    [units, currentUser]
+  );
+
+  const tenantInvitations = React.useMemo(() => 
+    currentUser ? invitations.filter(i => i.tenantId === currentUser.tenantId) : [],
+    [invitations, currentUser]
+  );
+
+  const tenantUsers = React.useMemo(() => 
+    currentUser ? systemUsers.filter(u => u.tenantId === currentUser.tenantId) : [],
+    [systemUsers, currentUser]
+  );
+
+  const currentTenant = React.useMemo(() => 
+    currentUser ? tenants.find(t => t.id === currentUser.tenantId) : undefined,
+    [tenants, currentUser]
+  );
+
+  const sessionGateId = resolveGateId(currentTenant, activeSession?.gateId);
+
+  // White-label: the logged-in tenant's branding, or the hostname's on the login screen
+  const brandTenant = currentTenant || resolvedTenant;
+  useEffect(() => {
+    applyBranding(brandTenant);
+  }, [brandTenant]);
+
+  // Every component checks capabilities through this, bound to the tenant's permission matrix
+  const can = React.useMemo(() => createPermissionCheck(currentTenant), [currentTenant]);
+
+  const tenantAlerts = React.useMemo(() => 
+    currentUser ? alerts.filter(a => a.tenantId === currentUser.tenantId) : [],
+    [alerts, currentUser]
+  );
+
+  const userNotifications = React.useMemo(() => 
+    currentUser ? notifications.filter(n => isNotificationForUser(n, currentUser, can)) : [],
+    [notifications, currentUser, can]
+  );
+
+  const handlePostpone = (residentId: string) => {
+    setPendingExtensionId(residentId);
+    setActiveTab('users');
+  };
+
+  const tenantAudit = React.useMemo(() => 
+    currentUser ? auditLog.filter(e => e.tenantId === currentUser.tenantId) : [],
+    [auditLog, currentUser]
+  );
+
+  const tenantBlacklist = React.useMemo(() => 
+    currentUser ? plateBlacklist.filter(b => b.tenantId === currentUser.tenantId) : [],
+    [plateBlacklist, currentUser]
+  );
+
+  const handleLogin = (user: User, method: Session['method']) => {
+    const session = createSession(user.id, method);
+    appendAudit({ id: user.id, name: user.name, role: user.role }, user.tenantId, {
+      action: 'login',
+      entity: 'session',
+      entityId: session.id,
+      summary: `Inicio de sesión (${method === 'pin' ? 'PIN' : method === 'password' ? 'contraseña' : 'perfil simulado'}): ${user.name}`,
+    });
+    // Prune expired sessions while we're at it
+    setSessions(prev => [...prev.filter(s => isSessionActive(s)), session]);
+    setActiveSessionId(session.id);
+    setIsSidebarOpen(true);
+    setIsChatOpen(true);
+    setActiveTab('dashboard');
   };
 
   const handleLogout = () => {
-    setCurrentUser(null);
+    recordAudit({ action: 'logout', entity: 'session', entityId: activeSessionId || undefined, summary: `Cierre de sesión: ${currentUser?.name}` });
+    if (DATA_BACKEND === 'http') logoutFromServer(API_BASE_URL).catch(error => console.warn('Error closing server session:', error));
+    setSessions(prev => prev.filter(s => s.id !== activeSessionId));
+    setActiveSessionId(null);
   };
 
-  if (!currentUser) {
+  // Revokes every session of the current user (other tabs and devices included)
+  const handleLogoutAllSessions = () => {
+    if (!currentUser) return;
+    recordAudit({ action: 'logout', entity: 'session', summary: `Cierre de todas las sesiones: ${currentUser.name}` });
+    if (DATA_BACKEND === 'http') logoutAllSessionsOnServer(API_BASE_URL).catch(error => console.warn('Error closing server sessions:', error));
+    setSessions(prev => prev.filter(s => s.userId !== currentUser.id));
+    setActiveSessionId(null);
+  };
+
+  // Portería: the access point the guard works at for the rest of the session
+  const handleBindGate = (gateId: string) => {
+    recordAudit({ action: 'update', entity: 'session', entityId: activeSessionId || undefined, summary: `Acceso asignado a la sesión: ${getGateName(currentTenant, gateId)}` });
+    setSessions(prev => prev.map(s => s.id === activeSessionId ? { ...s, gateId } : s));
+  };
+
+  if (!isDataLoaded) {
     return (
-      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
-        <div className="max-w-md w-full bg-white rounded-2xl shadow-xl p-8 space-y-6 animate-in fade-in duration-500">
-          <div className="text-center">
-            <h1 className="text-3xl font-bold text-blue-900">MiVilla</h1>
-            <p className="text-gray-500 mt-2">Selecciona un perfil para simular el acceso</p>
-          </div>
-          <div className="space-y-3">
-            {systemUsers.map(u => (
-              <button 
-                key={u.id}
-                onClick={() => handleLogin(u.id)}
-                className="w-full flex items-center gap-4 p-4 border border-gray-200 rounded-xl hover:bg-blue-50 hover:border-blue-300 transition-all group text-left transform active:scale-98 duration-200"
-              >
-                <img src={u.avatar} alt={u.name} className="w-10 h-10 rounded-full bg-gray-200 shadow-sm object-cover" />
-                <div className="flex-1">
-                  <div className="flex justify-between items-center">
-                    <h3 className="font-semibold text-gray-800 group-hover:text-blue-700">{u.name}</h3>
-                    {u.unit && <span className="text-xs bg-blue-100 text-blue-800 px-2 py-0.5 rounded">U: {u.unit}</span>}
-                  </div>
-                  <p className="text-xs text-gray-500">
-                    {u.role === 'X' && 'Admin'}
-                    {u.role === 'A' && 'Portería'}
-                    {u.role === 'B' && 'Residente'} 
-                    {' '}| Tenant: {MOCK_TENANTS.find(t => t.id === u.tenantId)?.name}
-                  </p>
-                </div>
-              </button>
-            ))}
-          </div>
-          <div className="bg-yellow-50 p-4 rounded-lg text-xs text-yellow-700 border border-yellow-100">
-            <p className="font-bold mb-1">Simulación de Base de Datos:</p>
-            Los datos ahora se guardan en el navegador (LocalStorage). Si eliminas a un residente, permanecerá eliminado aunque recargues la página.
-          </div>
-        </div>
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center text-gray-500 gap-2">
+        <Loader2 className="animate-spin" size={20} /> Cargando datos...
       </div>
     );
   }
 
+  if (!currentUser) {
+    return (
+      <LoginScreen 
+        systemUsers={systemUsers} 
+        tenants={tenants} 
+        tenant={resolvedTenant}
+        credentials={credentials} 
+        setCredentials={setCredentials} 
+        onLogin={handleLogin} 
+      />
+    );
+  }
+
   return (
     <div className="flex h-screen bg-gray-100 overflow-hidden font-sans text-gray-900">
       
       {/* Sidebar */}
       <Sidebar 
         user={currentUser} 
+        tenant={currentTenant}
+        can={can}
         isOpen={isSidebarOpen} 
         activeTab={activeTab} 
         onTabChange={setActiveTab}
@@ -166,28 +397,49 @@ const App: React.FC = () => {
       <main className="flex-1 flex flex-col h-full relative transition-all duration-300">
         
         {/* Header / Topbar */}
-        <header className="bg-white h-16 border-b border-gray-200 flex items-center justify-between px-4 lg:px-6 shadow-sm z-10 shrink-0">
+        <header className="bg-white h-16 border-b border-gray-200 border-t-4 border-t-brand-600 flex items-center justify-between px-4 lg:px-6 shadow-sm z-10 shrink-0">
           <div className="flex items-center gap-4">
             <button 
               onClick={() => setIsSidebarOpen(!isSidebarOpen)}
-              className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-blue-100"
+              className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-brand-100"
               title={isSidebarOpen ? "Cerrar menú lateral" : "Abrir menú lateral"}
             >
               {isSidebarOpen ? <PanelLeftClose size={24} /> : <PanelLeft size={24} />}
             </button>
+            {/* The sidebar carries the tenant's brand; with it closed, the header shows it instead */}
+            {!isSidebarOpen && (
+              <div className="flex items-center gap-2 pr-4 border-r border-gray-200">
+                {currentTenant?.logo && <img src={currentTenant.logo} alt={currentTenant.name} className="w-7 h-7 object-contain" />}
+                <span className="font-bold text-brand-700">{getBrandName(currentTenant)}</span>
+              </div>
+            )}
             <h2 className="text-xl font-bold text-gray-800 hidden sm:block">
               {activeTab === 'dashboard' && 'Inicio'}
-              {activeTab === 'users' && (currentUser.role === 'B' ? 'Mi Familia' : 'Residentes')}
+              {activeTab === 'users' && (can(currentUser, 'resident.view', ANY_RESOURCE) ? 'Residentes' : 'Mi Familia')}
               {activeTab === 'generate-qr' && 'Generar Invitación'}
               {activeTab === 'validate-qr' && 'Portería'}
-              {activeTab === 'profile' && (currentUser.role === 'X' ? 'Gestión de Usuarios' : 'Mi Perfil')}
+              {activeTab === 'units' && (can(currentUser, 'unit.view', ANY_RESOURCE) ? 'Unidades' : 'Mi Unidad')}
+              {activeTab === 'audit' && 'Auditoría'}
+              {activeTab === 'tenants' && 'Condominios'}
+              {activeTab === 'site' && 'Torres y Accesos'}
+              {activeTab === 'permissions' && 'Permisos'}
+              {activeTab === 'profile' && (can(currentUser, 'user.edit', ANY_RESOURCE) ? 'Gestión de Usuarios' : 'Mi Perfil')}
             </h2>
           </div>
           <div className="flex items-center gap-3">
+            <NotificationCenter
+              user={currentUser}
+              can={can}
+              notifications={userNotifications}
+              notificationActions={notificationActions}
+              tenant={currentTenant}
+              tenantActions={auditedTenantActions}
+              onPostpone={handlePostpone}
+            />
             <div className="text-sm text-gray-500 hidden md:block text-right">
-              <span className="font-medium text-blue-600 block">{currentUser.name}</span>
+              <span className="font-medium text-brand-600 block">{currentUser.name}</span>
               <span className="text-xs">
-                 {currentUser.role === 'A' ? 'Portería' : currentUser.role === 'B' ? `Residente ${currentUser.unit}` : 'Admin'}
+                 {ROLE_LABELS[currentUser.role]}{currentUser.unit ? ` ${currentUser.unit}` : ''}
               </span>
             </div>
             {!isChatOpen && (
@@ -209,11 +461,84 @@ const App: React.FC = () => {
           {/* Main View */}
           <div className="flex-1 overflow-y-auto p-4 lg:p-8 scroll-smooth">
             <div className="max-w-7xl mx-auto h-full">
-              {activeTab === 'dashboard' && <Dashboard user={currentUser} residents={tenantResidents} visits={tenantVisits} />}
-              {activeTab === 'users' && <UserManagement user={currentUser} residents={residents} setResidents={setResidents} />}
-              {activeTab === 'generate-qr' && <QRGenerator user={currentUser} residents={tenantResidents} />}
-              {activeTab === 'validate-qr' && <QRValidator user={currentUser} />}
-              {activeTab === 'profile' && <UserProfile currentUser={currentUser} systemUsers={systemUsers} setSystemUsers={setSystemUsers} />}
+              {writeError && (
+                <div className="mb-4 p-3 rounded-lg bg-red-50 border border-red-100 text-sm text-red-700 flex items-start justify-between gap-3">
+                  <span className="flex items-center gap-2"><AlertTriangle size={16} className="shrink-0" /> No se pudo guardar el cambio: {writeError}</span>
+                  <button onClick={() => setWriteError(null)} className="text-red-400 hover:text-red-600" title="Cerrar">
+                    <X size={16} />
+                  </button>
+                </div>
+              )}
+              {activeTab === 'dashboard' && (
+                <div className="space-y-6">
+                  <WalkInApprovals user={currentUser} can={can} residents={tenantResidents} visits={tenantVisits} visitActions={auditedVisitActions} />
+                  <Dashboard
+                    user={currentUser}
+                    can={can}
+                    tenant={currentTenant}
+                    residents={tenantResidents}
+                    visits={tenantVisits}
+                    alerts={tenantAlerts}
+                    alertActions={alertActions}
+                    blacklist={tenantBlacklist}
+                    blacklistActions={blacklistActions}
+                    onAudit={recordAudit}
+                  />
+                </div>
+              )}
+              {activeTab === 'users' && <UserManagement user={currentUser} can={can} residents={tenantResidents} residentActions={auditedResidentActions} units={tenantUnits} tenant={currentTenant} tenantActions={auditedTenantActions} pendingExtensionId={pendingExtensionId} onPendingExtensionHandled={() => setPendingExtensionId(null)} />}
+              {activeTab === 'generate-qr' && currentTenant && (
+                <>
+                  <QRGenerator user={currentUser} can={can} tenant={currentTenant} residents={tenantResidents} invitationActions={auditedInvitationActions} onAudit={recordAudit} />
+                  <InvitationList user={currentUser} can={can} tenant={currentTenant} invitations={tenantInvitations} invitationActions={auditedInvitationActions} visits={tenantVisits} />
+                </>
+              )}
+              {activeTab === 'validate-qr' && currentTenant && (
+                <div className="space-y-6">
+                  <QRValidator user={currentUser} can={can} tenant={currentTenant} residents={tenantResidents} visits={tenantVisits} invitations={tenantInvitations} visitActions={visitActions} onAudit={recordAudit} gateId={sessionGateId} onBindGate={handleBindGate} />
+                  <WalkInRegistration user={currentUser} can={can} residents={tenantResidents} visits={tenantVisits} visitActions={auditedVisitActions} gateId={sessionGateId} />
+                  <OccupancyPanel visits={tenantVisits} residents={tenantResidents} visitActions={auditedVisitActions} />
+                </div>
+              )}
+              {activeTab === 'units' && (
+                <UnitsAdmin user={currentUser} can={can} tenant={currentTenant} units={tenantUnits} unitActions={auditedUnitActions} tenantUsers={tenantUsers} residents={tenantResidents} visits={tenantVisits} />
+              )}
+              {activeTab === 'audit' && <AuditLog user={currentUser} can={can} entries={tenantAudit} />}
+              {activeTab === 'site' && currentTenant && (
+                <SiteAdmin user={currentUser} can={can} tenant={currentTenant} tenantActions={auditedTenantActions} units={tenantUnits} />
+              )}
+              {activeTab === 'permissions' && currentTenant && (
+                <PermissionsAdmin user={currentUser} can={can} tenant={currentTenant} tenantActions={auditedTenantActions} />
+              )}
+              {activeTab === 'tenants' && (
+                <TenantAdmin
+                  user={currentUser}
+                  tenants={tenants}
+                  tenantActions={auditedTenantActions}
+                  systemUsers={systemUsers}
+                  userActions={auditedUserActions}
+                  setCredentials={setCredentials}
+                  onAudit={recordAudit}
+                />
+              )}
+              {activeTab === 'profile' && (
+                <UserProfile 
+                  currentUser={currentUser} 
+                  tenant={currentTenant}
+                  can={can}
+                  systemUsers={systemUsers} 
+                  userActions={auditedUserActions} 
+                  residents={tenantResidents}
+                  residentActions={auditedResidentActions}
+                  units={tenantUnits}
+                  unitActions={auditedUnitActions}
+                  credentials={credentials}
+                  setCredentials={setCredentials}
+                  activeSessionCount={sessions.filter(s => s.userId === currentUser.id && isSessionActive(s)).length}
+                  onLogoutAllSessions={handleLogoutAllSessions}
+                  onAudit={recordAudit}
+                />
+              )}
             </div>
           </div>
 
@@ -222,6 +547,7 @@ const App: React.FC = () => {
             <div className="w-full lg:w-80 border-l border-gray-200 bg-white shadow-xl lg:shadow-none flex flex-col h-1/3 lg:h-full z-10 transition-all duration-300">
               <ChatAssistant 
                 user={currentUser} 
+                tenant={currentTenant}
                 mockResidents={tenantResidents} 
                 onClose={() => setIsChatOpen(false)} 
               />
@@ -0,0 +1,104 @@
+import { Alert, AlertRule, AlertSeverity, BlacklistedPlate, Visit } from './types';
+import { normalizePlate } from './validation';
+
+// --- Rule configuration ---
+const REPEATED_REJECTIONS_THRESHOLD = 3; // Rejected scans...
+const REPEATED_REJECTIONS_WINDOW_MS = 10 * 60 * 1000; // ...within 10 minutes
+const EVENT_LOOKBACK_MS = 24 * 60 * 60 * 1000; // Only raise alerts for recent events
+
+const RULE_SEVERITY: Record<AlertRule, AlertSeverity> = {
+  repeated_rejections: 'high',
+  expired_code: 'low',
+  cross_tenant: 'medium',
+  forged_code: 'high',
+  overstay: 'medium',
+  blacklisted_plate: 'high',
+};
+
+export const RULE_LABELS: Record<AlertRule, string> = {
+  repeated_rejections: 'Rechazos repetidos',
+  expired_code: 'Código vencido',
+  cross_tenant: 'Código de otro condominio',
+  forged_code: 'Código falsificado',
+  overstay: 'Permanencia excedida',
+  blacklisted_plate: 'Patente en lista negra',
+};
+
+// The id is the deduplication key, so engines running at the same time (several tabs) write the same alert
+const buildAlert = (visit: Visit, rule: AlertRule, key: string, message: string, now: Date): Alert => ({
+  id: key,
+  tenantId: visit.tenantId,
+  key,
+  rule,
+  severity: RULE_SEVERITY[rule],
+  message,
+  createdAt: now.toISOString(),
+  status: 'Open',
+  visitId: visit.id,
+  residentId: visit.residentId || undefined,
+});
+
+// Evaluates every rule against the visit log and returns only the NEW alerts to add.
+// Pure function: deduplication relies on Alert.key, so it is safe to run repeatedly (e.g. on an interval).
+export function evaluateAlertRules(visits: Visit[], blacklist: BlacklistedPlate[], existing: Alert[], now: Date): Alert[] {
+  const knownKeys = new Set(existing.map(a => a.key));
+  const raised: Alert[] = [];
+
+  const raise = (visit: Visit, rule: AlertRule, key: string, message: string) => {
+    if (knownKeys.has(key)) return;
+    knownKeys.add(key);
+    raised.push(buildAlert(visit, rule, key, message, now));
+  };
+
+  const recentVisits = visits.filter(v => now.getTime() - new Date(v.date).getTime() <= EVENT_LOOKBACK_MS);
+
+  // 1. Single-event rules
+  recentVisits.forEach(v => {
+    if (v.rejectionCode === 'expired') {
+      raise(v, 'expired_code', `expired_code:${v.id}`, `Intento de ingreso con código vencido (${v.visitorName}).`);
+    }
+    if (v.rejectionCode === 'tenant') {
+      raise(v, 'cross_tenant', `cross_tenant:${v.id}`, `Se escaneó un código emitido por otro condominio (${v.visitorName}).`);
+    }
+    if (v.rejectionCode === 'signature') {
+      raise(v, 'forged_code', `forged_code:${v.id}`, `Código con firma inválida: posible falsificación (${v.visitorName}).`);
+    }
+    if (v.licensePlate) {
+      const plate = normalizePlate(v.licensePlate);
+      const match = blacklist.find(b => b.tenantId === v.tenantId && normalizePlate(b.plate) === plate);
+      if (match) {
+        raise(v, 'blacklisted_plate', `blacklisted_plate:${v.id}`, `Patente ${v.licensePlate} en lista negra: ${match.reason}`);
+      }
+    }
+  });
+
+  // 2. Repeated rejections: fire once per burst, keyed by the scan that crossed the threshold
+  const rejectedByTenant = new Map<string, Visit[]>();
+  recentVisits
+    .filter(v => v.status === 'Rejected' && v.source === 'QR')
+    .forEach(v => rejectedByTenant.set(v.tenantId, [...(rejectedByTenant.get(v.tenantId) || []), v]));
+
+  rejectedByTenant.forEach(rejected => {
+    const sorted = [...rejected].sort((a, b) => a.date.localeCompare(b.date));
+    let burstStart = 0;
+    let lastTrigger = -Infinity;
+    sorted.forEach((v, i) => {
+      const time = new Date(v.date).getTime();
+      while (time - new Date(sorted[burstStart].date).getTime() > REPEATED_REJECTIONS_WINDOW_MS) burstStart++;
+      const count = i - burstStart + 1;
+      if (count >= REPEATED_REJECTIONS_THRESHOLD && time - lastTrigger > REPEATED_REJECTIONS_WINDOW_MS) {
+        lastTrigger = time;
+        raise(v, 'repeated_rejections', `repeated_rejections:${v.id}`, `${count} escaneos rechazados en menos de ${REPEATED_REJECTIONS_WINDOW_MS / 60000} minutos en Portería.`);
+      }
+    });
+  });
+
+  // 3. Overstays: still inside after the invitation expired
+  visits.forEach(v => {
+    if (v.checkInAt && !v.checkOutAt && v.expiresAt && new Date(v.expiresAt) < now) {
+      raise(v, 'overstay', `overstay:${v.id}`, `${v.visitorName} sigue dentro del recinto con la invitación vencida.`);
+    }
+  });
+
+  return raised;
+}
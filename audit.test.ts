@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { AuditEntry } from './types';
+import { auditToCsv } from './audit';
+
+const entry = (summary: string): AuditEntry => ({
+  id: 'a1',
+  tenantId: 't1',
+  at: '2026-10-19T12:00:00.000Z',
+  actor: { id: 'u2', name: 'Ana Portería', role: 'A' },
+  action: 'qr_rejected',
+  entity: 'visit',
+  entityId: 'v1',
+  summary,
+});
+
+const summaryCell = (csv: string) => csv.split('\n')[1].split(',').slice(6).join(',');
+
+describe('auditToCsv', () => {
+  it('quotes cells with separators or quotes', () => {
+    expect(summaryCell(auditToCsv([entry('Rechazado: "Juan", Unidad 101')]))).toBe('"Rechazado: ""Juan"", Unidad 101",,');
+  });
+
+  it('neutralizes values a spreadsheet would run as formulas', () => {
+    for (const value of ['=HYPERLINK("http://x")', '+56912345678', '-1+1', '@SUM(A1)']) {
+      expect(summaryCell(auditToCsv([entry(value)]))).toMatch(/^"?'/);
+    }
+    expect(summaryCell(auditToCsv([entry('Juan Pérez')]))).toBe('Juan Pérez,,');
+  });
+});
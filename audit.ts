@@ -0,0 +1,111 @@
+import { AuditEntry, AuditAction, AuditEntity } from './types';
+import { CollectionActions } from './hooks';
+
+// What callers describe; id, timestamp, tenant and actor are filled in by the app
+export type AuditEvent = Pick<AuditEntry, 'action' | 'entity' | 'entityId' | 'summary' | 'before' | 'after'> & {
+  tenantId?: string; // Defaults to the actor's tenant
+};
+
+export type AuditRecorder = (event: AuditEvent) => void;
+
+// Actor for automatic jobs (e.g. expiry cleanup)
+export const SYSTEM_ACTOR: AuditEntry['actor'] = { id: 'system', name: 'Sistema' };
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Creación',
+  update: 'Modificación',
+  delete: 'Eliminación',
+  qr_accepted: 'QR aceptado',
+  qr_rejected: 'QR rechazado',
+  qr_checkout: 'QR salida',
+  login: 'Inicio de sesión',
+  logout: 'Cierre de sesión',
+};
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntity, string> = {
+  resident: 'Residente',
+  visit: 'Visita',
+  user: 'Usuario',
+  unit: 'Unidad',
+  tenant: 'Condominio',
+  alert: 'Alerta',
+  blacklist: 'Lista negra',
+  credential: 'Credenciales',
+  session: 'Sesión',
+  invitation: 'Invitación',
+};
+
+// Wraps collection actions so every create/update/delete is recorded with its before/after values.
+// `items` is the current collection, used to tell creates from updates and to capture deleted rows.
+export function withAudit<T extends { id: string }>(
+  actions: CollectionActions<T>,
+  items: T[],
+  entity: AuditEntity,
+  describe: (item: T) => string,
+  record: AuditRecorder
+): CollectionActions<T> {
+  // e.g. "Modificación de residente: Juan Perez (Unidad 101)"
+  const summary = (action: AuditAction, item: T) =>
+    `${AUDIT_ACTION_LABELS[action]} de ${AUDIT_ENTITY_LABELS[entity].toLowerCase()}: ${describe(item)}`;
+
+  return {
+    save: item => {
+      const before = items.find(i => i.id === item.id);
+      actions.save(item);
+      record({
+        action: before ? 'update' : 'create',
+        entity,
+        entityId: item.id,
+        summary: summary(before ? 'update' : 'create', item),
+        before,
+        after: item,
+      });
+    },
+    update: (id, changes) => {
+      // The updater runs synchronously against the latest item, so it sees exactly what is stored
+      actions.update(id, current => {
+        const next = typeof changes === 'function' ? changes(current) : { ...current, ...changes };
+        if (next !== current) {
+          record({ action: 'update', entity, entityId: id, summary: summary('update', next), before: current, after: next });
+        }
+        return next;
+      });
+    },
+    remove: id => {
+      const before = items.find(i => i.id === id);
+      actions.remove(id);
+      if (before) {
+        record({ action: 'delete', entity, entityId: id, summary: summary('delete', before), before });
+      }
+    },
+    removeMany: ids => {
+      actions.removeMany(ids);
+      items.filter(i => ids.includes(i.id)).forEach(before => {
+        record({ action: 'delete', entity, entityId: before.id, summary: summary('delete', before), before });
+      });
+    },
+  };
+}
+
+// Text starting like a formula (e.g. a visitor named "=HYPERLINK(...)") gets a leading ' so spreadsheets show it as text
+const csvCell = (value: unknown) => {
+  const raw = value === undefined ? '' : typeof value === 'string' ? value : JSON.stringify(value);
+  const text = /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\n;]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function auditToCsv(entries: AuditEntry[]): string {
+  const header = ['Fecha', 'Actor', 'Rol', 'Acción', 'Entidad', 'ID', 'Descripción', 'Antes', 'Después'];
+  const rows = entries.map(e => [
+    e.at,
+    e.actor.name,
+    e.actor.role || '',
+    AUDIT_ACTION_LABELS[e.action],
+    AUDIT_ENTITY_LABELS[e.entity],
+    e.entityId,
+    e.summary,
+    e.before,
+    e.after,
+  ].map(csvCell).join(','));
+  return [header.join(','), ...rows].join('\n');
+}
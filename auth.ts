@@ -0,0 +1,111 @@
+import { User, UserCredential, Session } from './types';
+
+export const SESSION_TTL_MS = 12 * 60 * 60 * 1000; // 12 hours
+export const MAX_FAILED_ATTEMPTS = 5;
+export const LOCKOUT_MS = 15 * 60 * 1000; // 15 minutes
+export const MIN_PASSWORD_LENGTH = 8;
+
+const PBKDF2_ITERATIONS = 100000;
+
+// Dev-only profile picker (set ENABLE_PROFILE_SIMULATION=true in .env.local; never enabled in production builds)
+export const PROFILE_SIMULATION_ENABLED = process.env.ENABLE_PROFILE_SIMULATION === 'true';
+
+const encoder = new TextEncoder();
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+export function generateSalt(): string {
+  return toBase64(crypto.getRandomValues(new Uint8Array(16)));
+}
+
+// PBKDF2-SHA256 of a password or PIN with the given base64 salt
+export async function hashSecret(secret: string, salt: string): Promise<string> {
+  const baseKey = await crypto.subtle.importKey('raw', encoder.encode(secret), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: fromBase64(salt), iterations: PBKDF2_ITERATIONS },
+    baseKey,
+    256
+  );
+  return toBase64(new Uint8Array(bits));
+}
+
+// Constant-time comparison of the derived hash against the stored one
+export async function verifySecret(secret: string, salt: string, expectedHash: string): Promise<boolean> {
+  const actual = await hashSecret(secret, salt);
+  if (actual.length !== expectedHash.length) return false;
+  let diff = 0;
+  for (let i = 0; i < actual.length; i++) {
+    diff |= actual.charCodeAt(i) ^ expectedHash.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+export const isValidPin = (pin: string) => /^\d{4,6}$/.test(pin);
+
+export function createSession(userId: string, method: Session['method']): Session {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    userId,
+    method,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + SESSION_TTL_MS).toISOString(),
+  };
+}
+
+export const isSessionActive = (session: Session, now: Date = new Date()) => new Date(session.expiresAt) > now;
+
+export type AuthResult =
+  | { ok: true; user: User; credential: UserCredential }
+  | { ok: false; error: string; credential?: UserCredential };
+
+// Checks an email + password/PIN pair. Returns the credential with updated attempt/lockout counters,
+// which the caller must persist whether or not the login succeeded.
+export async function authenticate(
+  users: User[],
+  credentials: UserCredential[],
+  email: string,
+  secret: string,
+  method: 'password' | 'pin'
+): Promise<AuthResult> {
+  const genericError = 'Credenciales inválidas.';
+  const user = users.find(u => u.email.toLowerCase() === email.trim().toLowerCase());
+  const credential = user && credentials.find(c => c.userId === user.id);
+  if (!user || !credential) return { ok: false, error: genericError };
+
+  const now = new Date();
+  if (credential.lockedUntil && new Date(credential.lockedUntil) > now) {
+    const minutes = Math.ceil((new Date(credential.lockedUntil).getTime() - now.getTime()) / 60000);
+    return { ok: false, error: `Cuenta bloqueada por intentos fallidos. Intenta nuevamente en ${minutes} min.` };
+  }
+
+  let valid = false;
+  if (method === 'pin') {
+    if (!credential.pinHash || !credential.pinSalt) {
+      return { ok: false, error: 'Este usuario no tiene un PIN configurado.' };
+    }
+    valid = await verifySecret(secret, credential.pinSalt, credential.pinHash);
+  } else {
+    valid = await verifySecret(secret, credential.passwordSalt, credential.passwordHash);
+  }
+
+  if (!valid) {
+    const failedAttempts = credential.failedAttempts + 1;
+    const locked = failedAttempts >= MAX_FAILED_ATTEMPTS;
+    const updated: UserCredential = {
+      ...credential,
+      failedAttempts: locked ? 0 : failedAttempts,
+      lockedUntil: locked ? new Date(now.getTime() + LOCKOUT_MS).toISOString() : credential.lockedUntil,
+    };
+    return {
+      ok: false,
+      credential: updated,
+      error: locked
+        ? `Demasiados intentos fallidos. Cuenta bloqueada por ${LOCKOUT_MS / 60000} minutos.`
+        : `${genericError} Intentos restantes: ${MAX_FAILED_ATTEMPTS - failedAttempts}.`,
+    };
+  }
+
+  return { ok: true, user, credential: { ...credential, failedAttempts: 0, lockedUntil: undefined } };
+}
@@ -0,0 +1,115 @@
+import { PublicTenant } from './types';
+
+export const DEFAULT_BRAND_NAME = 'MiVilla';
+export const DEFAULT_BRAND_COLOR = '#2563eb'; // Tailwind blue-600, the stock palette in index.html
+
+// Tailwind shades of the `brand` color (see tailwind.config in index.html), as white/black mix ratios
+// around the tenant's primary color, which becomes shade 600.
+const SHADE_MIX: Record<number, number> = {
+  50: 0.95, 100: 0.88, 200: 0.75, 300: 0.58, 400: 0.35, 500: 0.15, 600: 0, 700: -0.18, 800: -0.35, 900: -0.5,
+};
+
+export const isValidHexColor = (value: string) => /^#[0-9a-f]{6}$/i.test(value);
+
+export const getBrandName = (tenant?: PublicTenant) => tenant?.branding?.displayName || DEFAULT_BRAND_NAME;
+
+export const getBrandColor = (tenant?: PublicTenant) => {
+  const color = tenant?.branding?.primaryColor;
+  return color && isValidHexColor(color) ? color : DEFAULT_BRAND_COLOR;
+};
+
+// "r g b" triplets keyed by shade
+export function buildBrandPalette(hex: string): Record<number, string> {
+  const base = [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+  const palette: Record<number, string> = {};
+  Object.entries(SHADE_MIX).forEach(([shade, mix]) => {
+    const target = mix >= 0 ? 255 : 0;
+    palette[Number(shade)] = base.map(c => Math.round(c + (target - c) * Math.abs(mix))).join(' ');
+  });
+  return palette;
+}
+
+// Points the `brand-*` classes at the tenant's palette; without a custom color the stock blue applies
+export function applyBranding(tenant?: PublicTenant) {
+  const root = document.documentElement;
+  const color = tenant?.branding?.primaryColor;
+  const palette = color && isValidHexColor(color) ? buildBrandPalette(color) : null;
+  Object.keys(SHADE_MIX).forEach(shade => {
+    if (palette) root.style.setProperty(`--brand-${shade}`, palette[Number(shade)]);
+    else root.style.removeProperty(`--brand-${shade}`);
+  });
+  document.title = getBrandName(tenant);
+}
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const image = new Image();
+  image.crossOrigin = 'anonymous'; // Remote logos without CORS are skipped rather than tainting the canvas
+  image.onload = () => resolve(image);
+  image.onerror = reject;
+  image.src = src;
+});
+
+// Printable/shareable invitation card: tenant header (logo + name), the QR and the visitor's details
+export async function renderInvitationCard(
+  qrImage: string,
+  tenant: PublicTenant,
+  details: { visitorName: string; expiresAt: string; schedule?: string }
+): Promise<string> {
+  const width = 400;
+  const height = 560;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return qrImage;
+
+  const color = getBrandColor(tenant);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+
+  // 1. Header band
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, width, 96);
+  let textX = 24;
+  if (tenant.logo) {
+    try {
+      const logo = await loadImage(tenant.logo);
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(20, 20, 56, 56);
+      ctx.drawImage(logo, 24, 24, 48, 48);
+      textX = 92;
+    } catch {
+      // Unreachable logo: keep the text-only header
+    }
+  }
+  ctx.fillStyle = '#ffffff';
+  ctx.font = 'bold 22px sans-serif';
+  ctx.fillText(getBrandName(tenant), textX, 46, width - textX - 20);
+  ctx.font = '14px sans-serif';
+  ctx.fillText(tenant.name, textX, 70, width - textX - 20);
+
+  // 2. QR
+  const qr = await loadImage(qrImage);
+  ctx.drawImage(qr, 50, 116, 300, 300);
+
+  // 3. Visitor details
+  ctx.textAlign = 'center';
+  ctx.fillStyle = '#1f2937';
+  ctx.font = 'bold 18px sans-serif';
+  ctx.fillText(details.visitorName, width / 2, 450, width - 40);
+  ctx.fillStyle = '#6b7280';
+  ctx.font = '14px sans-serif';
+  const expires = new Date(details.expiresAt).toLocaleString('es-ES', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit', timeZone: tenant.timezone });
+  ctx.fillText(`Válido hasta ${expires}`, width / 2, 476);
+  if (details.schedule) ctx.fillText(details.schedule, width / 2, 496, width - 40);
+  if (tenant.branding?.welcomeText) {
+    ctx.fillStyle = color;
+    ctx.fillText(tenant.branding.welcomeText, width / 2, 516, width - 40);
+  }
+
+  try {
+    return canvas.toDataURL('image/png');
+  } catch {
+    return qrImage;
+  }
+}
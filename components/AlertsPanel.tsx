@@ -0,0 +1,201 @@
+import React, { useState, useMemo } from 'react';
+import { User, Alert, BlacklistedPlate } from '../types';
+import { ShieldCheck, ShieldAlert, Eye, CheckCircle, Car, Plus, Trash2 } from 'lucide-react';
+import { RULE_LABELS } from '../alerts';
+import { AuditRecorder } from '../audit';
+import { CollectionActions } from '../hooks';
+import { PermissionCheck } from '../permissions';
+
+interface AlertsPanelProps {
+  user: User;
+  can: PermissionCheck;
+  alerts: Alert[];
+  alertActions: CollectionActions<Alert>; // Not audited per mutation: each action is recorded via onAudit
+  blacklist: BlacklistedPlate[];
+  blacklistActions: CollectionActions<BlacklistedPlate>;
+  onAudit: AuditRecorder;
+}
+
+const SEVERITY_STYLES: Record<Alert['severity'], string> = {
+  high: 'bg-red-100 text-red-700 border-red-200',
+  medium: 'bg-orange-100 text-orange-700 border-orange-200',
+  low: 'bg-yellow-100 text-yellow-700 border-yellow-200',
+};
+
+const SEVERITY_LABELS: Record<Alert['severity'], string> = {
+  high: 'Alta',
+  medium: 'Media',
+  low: 'Baja',
+};
+
+const AlertsPanel: React.FC<AlertsPanelProps> = ({ user, can, alerts, alertActions, blacklist, blacklistActions, onAudit }) => {
+  const [showResolved, setShowResolved] = useState(false);
+  const [newPlate, setNewPlate] = useState({ plate: '', reason: '' });
+
+  // Only 'alert.manage' can act on alerts (Admin and Portería by default)
+  const canManage = can(user, 'alert.manage');
+
+  const visibleAlerts = useMemo(() =>
+    alerts
+      .filter(a => showResolved || a.status !== 'Resolved')
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  , [alerts, showResolved]);
+
+  const updateStatus = (id: string, status: 'Acknowledged' | 'Resolved') => {
+    const before = alerts.find(a => a.id === id);
+    if (!before) return;
+    const stamp = { id: user.id, name: user.name, at: new Date().toISOString() };
+    const after: Alert = status === 'Acknowledged'
+      ? { ...before, status, acknowledgedBy: stamp }
+      : { ...before, status, resolvedBy: stamp };
+    alertActions.save(after);
+    onAudit({
+      action: 'update',
+      entity: 'alert',
+      entityId: id,
+      summary: `Alerta ${status === 'Acknowledged' ? 'reconocida' : 'resuelta'}: ${before.message}`,
+      before,
+      after,
+    });
+  };
+
+  const handleAddPlate = () => {
+    if (!newPlate.plate.trim() || !newPlate.reason.trim()) return;
+    const entry: BlacklistedPlate = {
+      id: crypto.randomUUID(),
+      tenantId: user.tenantId,
+      plate: newPlate.plate.trim(),
+      reason: newPlate.reason.trim(),
+      createdAt: new Date().toISOString()
+    };
+    blacklistActions.save(entry);
+    onAudit({ action: 'create', entity: 'blacklist', entityId: entry.id, summary: `Patente bloqueada: ${entry.plate}`, after: entry });
+    setNewPlate({ plate: '', reason: '' });
+  };
+
+  const handleRemovePlate = (entry: BlacklistedPlate) => {
+    blacklistActions.remove(entry.id);
+    onAudit({ action: 'delete', entity: 'blacklist', entityId: entry.id, summary: `Patente desbloqueada: ${entry.plate}`, before: entry });
+  };
+
+  const formatDate = (iso: string) => {
+    return new Date(iso).toLocaleString('es-ES', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="p-5 border-b border-gray-100 flex justify-between items-center bg-red-50/30">
+          <div className="flex items-center gap-2">
+            <ShieldAlert className="text-red-500" size={20} />
+            <h3 className="text-lg font-bold text-gray-800">Alertas de Seguridad</h3>
+          </div>
+          <label className="text-xs text-gray-500 flex items-center gap-2 cursor-pointer">
+            <input type="checkbox" checked={showResolved} onChange={e => setShowResolved(e.target.checked)} />
+            Mostrar resueltas
+          </label>
+        </div>
+
+        {visibleAlerts.map(alert => (
+          <div key={alert.id} className={`flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 border-b border-gray-50 last:border-0 ${alert.status === 'Resolved' ? 'opacity-60' : ''}`}>
+            <div className="flex items-start gap-3">
+              <span className={`text-[10px] uppercase font-bold px-2 py-1 rounded border shrink-0 ${SEVERITY_STYLES[alert.severity]}`}>
+                {SEVERITY_LABELS[alert.severity]}
+              </span>
+              <div>
+                <p className="font-semibold text-gray-800 text-sm">{RULE_LABELS[alert.rule]}</p>
+                <p className="text-xs text-gray-600 mt-0.5">{alert.message}</p>
+                <p className="text-[10px] text-gray-400 mt-1">
+                  {formatDate(alert.createdAt)}
+                  {alert.acknowledgedBy && <> • Vista por {alert.acknowledgedBy.name}</>}
+                  {alert.resolvedBy && <> • Resuelta por {alert.resolvedBy.name}</>}
+                </p>
+              </div>
+            </div>
+            {canManage && alert.status !== 'Resolved' && (
+              <div className="flex gap-2 shrink-0">
+                {alert.status === 'Open' && (
+                  <button
+                    onClick={() => updateStatus(alert.id, 'Acknowledged')}
+                    className="flex items-center gap-1 text-blue-600 text-xs font-medium hover:bg-blue-50 px-3 py-1.5 rounded border border-blue-100 transition-colors"
+                  >
+                    <Eye size={14} /> Reconocer
+                  </button>
+                )}
+                <button
+                  onClick={() => updateStatus(alert.id, 'Resolved')}
+                  className="flex items-center gap-1 text-green-700 text-xs font-medium hover:bg-green-50 px-3 py-1.5 rounded border border-green-100 transition-colors"
+                >
+                  <CheckCircle size={14} /> Resolver
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+
+        {visibleAlerts.length === 0 && (
+          <div className="p-12 text-center">
+            <div className="w-16 h-16 bg-green-100 text-green-500 rounded-full flex items-center justify-center mx-auto mb-4">
+              <ShieldCheck size={32} />
+            </div>
+            <h3 className="text-xl font-bold text-gray-800">Sin Alertas Activas</h3>
+            <p className="text-gray-500 mt-2 max-w-md mx-auto">
+              No hay incidentes de seguridad ni anomalías pendientes de revisión.
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Plate Blacklist ('blacklist.manage', Admin by default) */}
+      {can(user, 'blacklist.manage') && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+          <div className="p-5 border-b border-gray-100 flex items-center gap-2">
+            <Car className="text-gray-500" size={20} />
+            <h3 className="text-lg font-bold text-gray-800">Lista Negra de Patentes</h3>
+          </div>
+          <div className="p-4 flex flex-col md:flex-row gap-3 border-b border-gray-100">
+            <input
+              placeholder="Patente"
+              className="w-full md:w-36 border p-2 rounded-lg text-sm outline-none focus:border-blue-500 uppercase"
+              value={newPlate.plate}
+              onChange={e => setNewPlate({ ...newPlate, plate: e.target.value.toUpperCase() })}
+            />
+            <input
+              placeholder="Motivo"
+              className="flex-1 border p-2 rounded-lg text-sm outline-none focus:border-blue-500"
+              value={newPlate.reason}
+              onChange={e => setNewPlate({ ...newPlate, reason: e.target.value })}
+            />
+            <button
+              onClick={handleAddPlate}
+              disabled={!newPlate.plate.trim() || !newPlate.reason.trim()}
+              className="bg-gray-800 text-white py-2 px-4 rounded-lg hover:bg-gray-700 transition-colors flex items-center justify-center gap-1 text-sm disabled:opacity-50"
+            >
+              <Plus size={16} /> Agregar
+            </button>
+          </div>
+          {blacklist.map(entry => (
+            <div key={entry.id} className="flex items-center justify-between p-4 border-b border-gray-50 last:border-0">
+              <div className="flex items-center gap-3">
+                <span className="bg-gray-100 px-2 py-1 rounded text-xs font-mono border border-gray-200 text-gray-700">{entry.plate}</span>
+                <span className="text-sm text-gray-600">{entry.reason}</span>
+              </div>
+              <button
+                onClick={() => handleRemovePlate(entry)}
+                className="text-red-400 hover:text-red-600 hover:bg-red-50 p-1.5 rounded transition-colors"
+                title="Quitar de la lista"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+          {blacklist.length === 0 && (
+            <p className="p-6 text-center text-gray-400 text-sm">No hay patentes bloqueadas.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlertsPanel;
@@ -0,0 +1,207 @@
+import React, { useState, useMemo } from 'react';
+import { User, AuditEntry, AuditAction, AuditEntity } from '../types';
+import { Search, Filter, Download, ChevronDown, ChevronUp, ClipboardList } from 'lucide-react';
+import { AUDIT_ACTION_LABELS, AUDIT_ENTITY_LABELS, auditToCsv } from '../audit';
+import { PermissionCheck } from '../permissions';
+
+interface AuditLogProps {
+  user: User;
+  can: PermissionCheck;
+  entries: AuditEntry[];
+}
+
+const ACTION_STYLES: Record<AuditAction, string> = {
+  create: 'bg-green-50 text-green-700 border-green-100',
+  update: 'bg-blue-50 text-blue-700 border-blue-100',
+  delete: 'bg-red-50 text-red-700 border-red-100',
+  qr_accepted: 'bg-green-50 text-green-700 border-green-100',
+  qr_rejected: 'bg-red-50 text-red-700 border-red-100',
+  qr_checkout: 'bg-gray-50 text-gray-700 border-gray-200',
+  login: 'bg-purple-50 text-purple-700 border-purple-100',
+  logout: 'bg-purple-50 text-purple-700 border-purple-100',
+};
+
+// Fields whose value differs between before and after (all fields for creates/deletes)
+const changedFields = (entry: AuditEntry) => {
+  const before = (entry.before || {}) as Record<string, unknown>;
+  const after = (entry.after || {}) as Record<string, unknown>;
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+  return keys.filter(key => JSON.stringify(before[key]) !== JSON.stringify(after[key]));
+};
+
+const formatValue = (value: unknown) => value === undefined ? '—' : typeof value === 'string' ? value : JSON.stringify(value);
+
+// Read-only, searchable view of the tenant's audit trail ('audit.view')
+const AuditLog: React.FC<AuditLogProps> = ({ user, can, entries }) => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [actionFilter, setActionFilter] = useState<AuditAction | 'ALL'>('ALL');
+  const [entityFilter, setEntityFilter] = useState<AuditEntity | 'ALL'>('ALL');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const filtered = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    // Date inputs are local dates; compare against local day boundaries
+    const from = fromDate ? new Date(`${fromDate}T00:00:00`) : null;
+    const to = toDate ? new Date(`${toDate}T23:59:59.999`) : null;
+
+    return entries
+      .filter(e => actionFilter === 'ALL' || e.action === actionFilter)
+      .filter(e => entityFilter === 'ALL' || e.entity === entityFilter)
+      .filter(e => (!from || new Date(e.at) >= from) && (!to || new Date(e.at) <= to))
+      .filter(e => !term ||
+        e.summary.toLowerCase().includes(term) ||
+        e.actor.name.toLowerCase().includes(term) ||
+        (e.entityId || '').toLowerCase().includes(term))
+      .sort((a, b) => b.at.localeCompare(a.at));
+  }, [entries, searchTerm, actionFilter, entityFilter, fromDate, toDate]);
+
+  if (!can(user, 'audit.view')) return <div className="p-4 text-red-500">Acceso denegado.</div>;
+
+  // The BOM makes Excel open the file as UTF-8 (accents in names)
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob(['\uFEFF' + auditToCsv(filtered)], { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `auditoria-${new Date().toISOString().slice(0, 10)}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  };
+
+  const formatDateTime = (iso: string) => {
+    return new Date(iso).toLocaleString('es-ES', { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit' });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+            <ClipboardList className="text-blue-600" /> Auditoría
+          </h2>
+          <p className="text-gray-500 text-sm">Registro inalterable de cambios y validaciones de acceso.</p>
+        </div>
+        <button
+          onClick={handleExport}
+          disabled={filtered.length === 0}
+          className="px-4 py-2 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 transition-colors flex items-center gap-2 disabled:opacity-50"
+        >
+          <Download size={16} /> Exportar CSV ({filtered.length})
+        </button>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        {/* Filters */}
+        <div className="p-4 border-b border-gray-200 grid grid-cols-1 md:grid-cols-5 gap-3">
+          <div className="md:col-span-2 flex items-center gap-2 bg-gray-50 border border-gray-200 rounded-lg px-3 py-2">
+            <Search className="text-gray-400" size={18} />
+            <input
+              className="flex-1 outline-none text-gray-700 text-sm bg-transparent placeholder-gray-400"
+              placeholder="Buscar descripción, actor o ID..."
+              value={searchTerm}
+              onChange={e => setSearchTerm(e.target.value)}
+            />
+          </div>
+          <div className="relative">
+            <Filter size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 pointer-events-none" />
+            <select
+              value={actionFilter}
+              onChange={e => setActionFilter(e.target.value as AuditAction | 'ALL')}
+              className="w-full appearance-none bg-gray-50 border border-gray-200 text-gray-700 text-sm rounded-lg py-2.5 pl-10 pr-8 outline-none focus:ring-2 focus:ring-blue-100 focus:border-blue-400 cursor-pointer"
+            >
+              <option value="ALL">Todas las acciones</option>
+              {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(action => (
+                <option key={action} value={action}>{AUDIT_ACTION_LABELS[action]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="relative">
+            <Filter size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 pointer-events-none" />
+            <select
+              value={entityFilter}
+              onChange={e => setEntityFilter(e.target.value as AuditEntity | 'ALL')}
+              className="w-full appearance-none bg-gray-50 border border-gray-200 text-gray-700 text-sm rounded-lg py-2.5 pl-10 pr-8 outline-none focus:ring-2 focus:ring-blue-100 focus:border-blue-400 cursor-pointer"
+            >
+              <option value="ALL">Todas las entidades</option>
+              {(Object.keys(AUDIT_ENTITY_LABELS) as AuditEntity[]).map(entity => (
+                <option key={entity} value={entity}>{AUDIT_ENTITY_LABELS[entity]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-center gap-2">
+            <input type="date" value={fromDate} onChange={e => setFromDate(e.target.value)} title="Desde"
+              className="w-full border border-gray-200 bg-gray-50 rounded-lg p-2 text-sm outline-none focus:border-blue-400" />
+            <input type="date" value={toDate} onChange={e => setToDate(e.target.value)} title="Hasta"
+              className="w-full border border-gray-200 bg-gray-50 rounded-lg p-2 text-sm outline-none focus:border-blue-400" />
+          </div>
+        </div>
+
+        {/* Entries */}
+        <div className="divide-y divide-gray-50">
+          {filtered.map(entry => {
+            const isExpanded = expandedId === entry.id;
+            const fields = isExpanded ? changedFields(entry) : [];
+            return (
+              <div key={entry.id}>
+                <button
+                  onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                  className="w-full text-left p-4 hover:bg-gray-50/50 transition-colors flex items-start justify-between gap-3"
+                >
+                  <div className="min-w-0">
+                    <div className="flex flex-wrap items-center gap-2 mb-1">
+                      <span className={`text-xs px-2 py-0.5 rounded border font-medium ${ACTION_STYLES[entry.action]}`}>
+                        {AUDIT_ACTION_LABELS[entry.action]}
+                      </span>
+                      <span className="text-xs text-gray-400">{AUDIT_ENTITY_LABELS[entry.entity]}</span>
+                    </div>
+                    <p className="text-sm text-gray-800 font-medium truncate">{entry.summary}</p>
+                    <p className="text-xs text-gray-500 mt-0.5">
+                      {entry.actor.name}{entry.actor.role ? ` (${entry.actor.role})` : ''} • {formatDateTime(entry.at)}
+                    </p>
+                  </div>
+                  {(entry.before !== undefined || entry.after !== undefined) && (
+                    isExpanded ? <ChevronUp size={18} className="text-gray-400 shrink-0" /> : <ChevronDown size={18} className="text-gray-400 shrink-0" />
+                  )}
+                </button>
+
+                {isExpanded && fields.length > 0 && (
+                  <div className="px-4 pb-4">
+                    <table className="w-full text-left text-xs border border-gray-100 rounded">
+                      <thead className="bg-gray-50 text-gray-500 uppercase">
+                        <tr>
+                          <th className="p-2">Campo</th>
+                          <th className="p-2">Antes</th>
+                          <th className="p-2">Después</th>
+                        </tr>
+                      </thead>
+                      <tbody className="font-mono">
+                        {fields.map(field => (
+                          <tr key={field} className="border-t border-gray-100 align-top">
+                            <td className="p-2 text-gray-600">{field}</td>
+                            <td className="p-2 text-red-600 break-all">{formatValue((entry.before as Record<string, unknown> | undefined)?.[field])}</td>
+                            <td className="p-2 text-green-700 break-all">{formatValue((entry.after as Record<string, unknown> | undefined)?.[field])}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+          {filtered.length === 0 && (
+            <div className="text-center py-10 text-gray-400 text-sm">
+              <ClipboardList size={32} className="mx-auto mb-2 opacity-20" />
+              No hay registros que coincidan con los filtros.
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AuditLog;
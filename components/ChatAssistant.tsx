@@ -1,21 +1,23 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Send, Bot, User as UserIcon, Loader2, Sparkles, X } from 'lucide-react';
 import { GoogleGenAI } from "@google/genai";
-import { User, ChatMessage, Resident } from '../types';
+import { User, ChatMessage, Resident, Tenant } from '../types';
 import { MASTER_PROMPT } from '../constants';
+import { ROLE_LABELS } from '../permissions';
 
 interface ChatAssistantProps {
   user: User;
+  tenant?: Tenant;
   mockResidents: Resident[];
   onClose: () => void;
 }
 
-const ChatAssistant: React.FC<ChatAssistantProps> = ({ user, mockResidents, onClose }) => {
+const ChatAssistant: React.FC<ChatAssistantProps> = ({ user, tenant, mockResidents, onClose }) => {
   const [messages, setMessages] = useState<ChatMessage[]>([
     {
       id: 'welcome',
       role: 'model',
-      text: `Hola ${user.name}. Soy tu asistente de seguridad. Estoy configurado para el tenant ${user.tenantId} con permisos de Rol ${user.role}. ¿En qué puedo ayudarte hoy?`,
+      text: `Hola ${user.name}. Soy tu asistente de seguridad. Estoy configurado para ${tenant?.name || user.tenantId} con permisos de Rol ${user.role}. ¿En qué puedo ayudarte hoy?`,
       timestamp: new Date()
     }
   ]);
@@ -50,7 +52,9 @@ const ChatAssistant: React.FC<ChatAssistantProps> = ({ user, mockResidents, onCl
       const contextPrompt = `
         CONTEXTO ACTUAL DEL SISTEMA:
         - Tenant ID: ${user.tenantId}
-        - Usuario Actual: ${user.name} (Rol: ${user.role})
+        - Condominio: ${tenant?.name || 'Desconocido'}
+        - Usuario Actual: ${user.name} (Rol: ${user.role} - ${ROLE_LABELS[user.role]}${user.unit ? `, Unidad ${user.unit}` : ''})${user.role === 'R' ? `
+        - Derechos delegados por el propietario: ${user.delegation?.capabilities.join(', ') || 'ninguno'}` : ''}
         - Datos de Residentes (JSON simplificado): ${JSON.stringify(mockResidents)}
         
         INSTRUCCIÓN DEL USUARIO:
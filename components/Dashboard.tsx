@@ -1,41 +1,88 @@
 import React, { useState, useMemo } from 'react';
-import { User, Resident, Visit } from '../types';
-import { Users, DoorOpen, ShieldAlert, Activity, UserCheck, Home, Truck, ChevronDown, ChevronUp, ShieldCheck as ShieldIcon, Calendar, Filter } from 'lucide-react';
+import { User, Tenant, Resident, Visit, Alert, BlacklistedPlate } from '../types';
+import { Users, DoorOpen, ShieldAlert, Activity, UserCheck, Home, Truck, ChevronDown, ChevronUp, Calendar, Filter, MapPin } from 'lucide-react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import AlertsPanel from './AlertsPanel';
+import { AuditRecorder } from '../audit';
+import { CollectionActions } from '../hooks';
+import { PermissionCheck, ANY_RESOURCE } from '../permissions';
+import { getGates, getGateName } from '../site';
 
 interface DashboardProps {
   user: User;
+  can: PermissionCheck;
+  tenant?: Tenant;
   residents: Resident[];
   visits: Visit[];
+  alerts: Alert[];
+  alertActions: CollectionActions<Alert>;
+  blacklist: BlacklistedPlate[];
+  blacklistActions: CollectionActions<BlacklistedPlate>;
+  onAudit: AuditRecorder;
 }
 
 type DashboardSection = 'residents' | 'visits' | 'alerts' | 'status' | null;
 type TimeRange = 'day' | 'week' | 'month' | 'year';
 
-const Dashboard: React.FC<DashboardProps> = ({ user, residents, visits }) => {
+// Same periods as the chart: today, the last 7 days, this month, this year
+const isInTimeRange = (iso: string, range: TimeRange, now = new Date()) => {
+  const date = new Date(iso);
+  if (range === 'day') return date.toDateString() === now.toDateString();
+  if (range === 'week') {
+    const since = new Date(now);
+    since.setDate(now.getDate() - 6);
+    since.setHours(0, 0, 0, 0);
+    return date >= since && date <= now;
+  }
+  if (range === 'month') return date.getFullYear() === now.getFullYear() && date.getMonth() === now.getMonth();
+  return date.getFullYear() === now.getFullYear();
+};
+
+const Dashboard: React.FC<DashboardProps> = ({ user, can, tenant, residents, visits, alerts, alertActions, blacklist, blacklistActions, onAudit }) => {
   const [activeSection, setActiveSection] = useState<DashboardSection>('residents');
   const [timeRange, setTimeRange] = useState<TimeRange>('week');
   
+  // 'own' scopes limit the dashboard to the user's unit
+  const unitScoped = !can(user, 'resident.view', ANY_RESOURCE);
+  const visitsScoped = !can(user, 'visit.view', ANY_RESOURCE);
+
   // Optimized Filtering: Memoize results
   const displayResidents = useMemo(() => 
-    user.role === 'B' 
-      ? residents.filter(r => r.unit === user.unit) 
-      : residents
-  , [residents, user.role, user.unit]);
+    residents.filter(r => can(user, 'resident.view', r))
+  , [residents, user, can]);
+
+  // Archived residents stay in displayResidents so their past visits remain visible
+  const activeResidents = useMemo(() => 
+    displayResidents.filter(r => r.status === 'Active')
+  , [displayResidents]);
 
   const displayVisits = useMemo(() => 
-    user.role === 'B'
-      ? visits.filter(v => displayResidents.some(r => r.id === v.residentId))
-      : visits
-  , [visits, displayResidents, user.role]);
+    visits.filter(v => can(user, 'visit.view', { unit: residents.find(r => r.id === v.residentId)?.unit }))
+  , [visits, residents, user, can]);
+
+  // With an 'own' visit scope, only alerts tied to visits of their own unit
+  const displayAlerts = useMemo(() => 
+    visitsScoped
+      ? alerts.filter(a => displayVisits.some(v => v.id === a.visitId))
+      : alerts
+  , [alerts, displayVisits, visitsScoped]);
+
+  const openAlertsCount = useMemo(() => 
+    displayAlerts.filter(a => a.status !== 'Resolved').length
+  , [displayAlerts]);
+
+  // Rejected scans and unanswered walk-ins stay in the log but don't count as gate traffic
+  const admittedVisits = useMemo(() => 
+    displayVisits.filter(v => v.status === 'Approved' || v.status === 'Completed')
+  , [displayVisits]);
 
   const toggleSection = (section: DashboardSection) => {
     setActiveSection(prev => prev === section ? null : section);
   };
 
   const todayVisitsCount = useMemo(() => 
-    displayVisits.filter(v => v.date.startsWith(new Date().toISOString().split('T')[0])).length
-  , [displayVisits]);
+    admittedVisits.filter(v => new Date(v.date).toDateString() === new Date().toDateString()).length
+  , [admittedVisits]);
 
   // --- Chart Data Calculation ---
   const chartData = useMemo(() => {
@@ -44,15 +91,14 @@ const Dashboard: React.FC<DashboardProps> = ({ user, residents, visits }) => {
 
     if (timeRange === 'day') {
       // Logic: Hourly breakdown (00-23)
-      // Note: Current mock data uses YYYY-MM-DD. Real usage would need ISO timestamps for accurate hourly data.
-      // We bucket by what we have.
+      // Note: Legacy records may only have YYYY-MM-DD; scans store full ISO timestamps.
       const hours = Array.from({ length: 24 }, (_, i) => ({ 
         hour: i, 
         label: `${i}:00`,
         count: 0 
       }));
 
-      displayVisits.forEach(v => {
+      admittedVisits.forEach(v => {
         const vDate = new Date(v.date);
         // Only count if it's today
         if (vDate.toDateString() === now.toDateString()) {
@@ -68,10 +114,9 @@ const Dashboard: React.FC<DashboardProps> = ({ user, residents, visits }) => {
       for (let i = 6; i >= 0; i--) {
         const d = new Date(now);
         d.setDate(now.getDate() - i);
-        const dateStr = d.toISOString().split('T')[0];
         const dayName = d.toLocaleDateString('es-ES', { weekday: 'short' });
         
-        const count = displayVisits.filter(v => v.date.startsWith(dateStr)).length;
+        const count = admittedVisits.filter(v => new Date(v.date).toDateString() === d.toDateString()).length;
         data.push({ name: dayName, visits: count });
       }
 
@@ -80,8 +125,8 @@ const Dashboard: React.FC<DashboardProps> = ({ user, residents, visits }) => {
       const daysInMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0).getDate();
       for (let i = 1; i <= daysInMonth; i++) {
         // Simple label for every 5th day to avoid crowding, or just the number
-        const dateStr = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(i).padStart(2, '0')}`;
-        const count = displayVisits.filter(v => v.date.startsWith(dateStr)).length;
+        const day = new Date(now.getFullYear(), now.getMonth(), i).toDateString();
+        const count = admittedVisits.filter(v => new Date(v.date).toDateString() === day).length;
         data.push({ name: String(i), visits: count });
       }
 
@@ -91,7 +136,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user, residents, visits }) => {
       const year = now.getFullYear();
       
       const counts = new Array(12).fill(0);
-      displayVisits.forEach(v => {
+      admittedVisits.forEach(v => {
         const vDate = new Date(v.date);
         if (vDate.getFullYear() === year) {
           counts[vDate.getMonth()]++;
@@ -104,14 +149,33 @@ const Dashboard: React.FC<DashboardProps> = ({ user, residents, visits }) => {
     }
 
     return data;
-  }, [displayVisits, timeRange]);
+  }, [admittedVisits, timeRange]);
 
 
+  // Entries and rejections per access point in the selected range (visits from before gates existed go to "Sin acceso asignado")
+  const gateTraffic = useMemo(() => {
+    const gates = getGates(tenant);
+    if (gates.length === 0) return [];
+    const inRange = displayVisits.filter(v => isInTimeRange(v.date, timeRange));
+    const ids: (string | undefined)[] = [...gates.map(g => g.id), ...inRange.map(v => v.gateId).filter(id => !gates.some(g => g.id === id))];
+    return ids
+      .filter((id, i) => ids.indexOf(id) === i)
+      .map(id => {
+        const gateVisits = inRange.filter(v => v.gateId === id);
+        return {
+          key: id || 'none',
+          name: getGateName(tenant, id),
+          entries: gateVisits.filter(v => v.status === 'Approved' || v.status === 'Completed').length,
+          rejections: gateVisits.filter(v => v.status === 'Rejected').length,
+        };
+      });
+  }, [displayVisits, tenant, timeRange]);
+
   const stats = useMemo(() => [
     { 
       key: 'residents' as DashboardSection,
-      title: user.role === 'B' ? 'Mi Familia' : 'Total Residentes', 
-      value: displayResidents.length, 
+      title: unitScoped ? 'Mi Familia' : 'Total Residentes', 
+      value: activeResidents.length, 
       icon: Users, 
       color: 'bg-blue-500',
       ringColor: 'ring-blue-500'
@@ -127,7 +191,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user, residents, visits }) => {
     { 
       key: 'alerts' as DashboardSection,
       title: 'Alertas', 
-      value: '0', 
+      value: openAlertsCount, 
       icon: ShieldAlert, 
       color: 'bg-red-500',
       ringColor: 'ring-red-500'
@@ -140,7 +204,11 @@ const Dashboard: React.FC<DashboardProps> = ({ user, residents, visits }) => {
       color: 'bg-purple-500',
       ringColor: 'ring-purple-500'
     },
-  ], [user.role, displayResidents.length, todayVisitsCount]);
+  ], [unitScoped, activeResidents.length, todayVisitsCount, openAlertsCount]);
+
+  const formatDateTime = (iso: string) => {
+    return new Date(iso).toLocaleString('es-ES', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+  };
 
   const getTypeIcon = (type: string) => {
     switch (type) {
@@ -206,11 +274,11 @@ const Dashboard: React.FC<DashboardProps> = ({ user, residents, visits }) => {
               <div className="flex items-center gap-2">
                 <Users className="text-blue-500" size={20} />
                 <h3 className="text-lg font-bold text-gray-800">
-                  {user.role === 'B' ? 'Mi Grupo Familiar' : 'Directorio de Residentes'}
+                  {unitScoped ? 'Mi Grupo Familiar' : 'Directorio de Residentes'}
                 </h3>
               </div>
               <span className="text-xs text-blue-700 bg-blue-100 px-3 py-1 rounded-full font-medium">
-                {displayResidents.length} Registros
+                {activeResidents.length} Registros
               </span>
             </div>
             <div className="overflow-x-auto">
@@ -224,7 +292,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user, residents, visits }) => {
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-gray-100">
-                  {displayResidents.map((r) => (
+                  {activeResidents.map((r) => (
                     <tr key={r.id} className="hover:bg-gray-50/50">
                       <td className="px-5 py-3 text-sm font-medium text-gray-800 flex items-center gap-2">
                         <div className="w-8 h-8 rounded-full bg-blue-100 text-blue-600 flex items-center justify-center text-xs font-bold border border-blue-200">
@@ -251,7 +319,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user, residents, visits }) => {
                       </td>
                     </tr>
                   ))}
-                  {displayResidents.length === 0 && (
+                  {activeResidents.length === 0 && (
                     <tr>
                       <td colSpan={4} className="px-5 py-12 text-center text-gray-400 text-sm">
                         No hay personas registradas.
@@ -275,12 +343,12 @@ const Dashboard: React.FC<DashboardProps> = ({ user, residents, visits }) => {
               <button className="text-xs text-green-700 hover:text-green-900 font-medium">Ver Historial Completo</button>
             </div>
             <div className="p-0">
-              {displayVisits.map(visit => {
+              {[...displayVisits].sort((a, b) => b.date.localeCompare(a.date)).map(visit => {
                 const targetResident = residents.find(r => r.id === visit.residentId);
                 return (
                   <div key={visit.id} className="flex items-center justify-between p-4 border-b border-gray-50 hover:bg-gray-50/50 transition-colors last:border-0">
                     <div className="flex items-center gap-4">
-                      <div className="bg-green-100 p-2.5 rounded-full text-green-600">
+                      <div className={`p-2.5 rounded-full ${visit.status === 'Rejected' ? 'bg-red-100 text-red-600' : 'bg-green-100 text-green-600'}`}>
                          <DoorOpen size={18} />
                       </div>
                       <div>
@@ -288,17 +356,23 @@ const Dashboard: React.FC<DashboardProps> = ({ user, residents, visits }) => {
                         <p className="text-xs text-gray-500 mt-0.5">
                           Visita a: <span className="font-medium text-gray-700">{targetResident?.name || 'Desconocido'}</span> 
                           <span className="mx-1">•</span> Unit {targetResident?.unit}
+                          {visit.guard && <><span className="mx-1">•</span> Portería: {visit.guard.name}</>}
+                          {visit.gateId && <><span className="mx-1">•</span> {getGateName(tenant, visit.gateId)}</>}
                         </p>
+                        {visit.rejectionReason && (
+                          <p className="text-xs text-red-500 mt-0.5">{visit.rejectionReason}</p>
+                        )}
                       </div>
                     </div>
                     <div className="text-right">
                        <span className={`text-xs px-2.5 py-1 rounded-full font-medium border ${
                         visit.status === 'Completed' ? 'bg-green-50 text-green-700 border-green-200' : 
-                        visit.status === 'Approved' ? 'bg-blue-50 text-blue-700 border-blue-200' : 'bg-yellow-50 text-yellow-700 border-yellow-200'
+                        visit.status === 'Approved' ? 'bg-blue-50 text-blue-700 border-blue-200' :
+                        visit.status === 'Rejected' ? 'bg-red-50 text-red-700 border-red-200' : 'bg-yellow-50 text-yellow-700 border-yellow-200'
                       }`}>
-                        {visit.status === 'Completed' ? 'Completado' : visit.status === 'Approved' ? 'Aprobado' : 'Pendiente'}
+                        {visit.status === 'Completed' ? 'Completado' : visit.status === 'Approved' ? 'Aprobado' : visit.status === 'Rejected' ? (visit.direction === 'exit' ? 'Salida rechazada' : 'Rechazado') : 'Pendiente'}
                       </span>
-                      <p className="text-[10px] text-gray-400 mt-1">{visit.date}</p>
+                      <p className="text-[10px] text-gray-400 mt-1">{formatDateTime(visit.date)}</p>
                     </div>
                   </div>
                 );
@@ -313,16 +387,10 @@ const Dashboard: React.FC<DashboardProps> = ({ user, residents, visits }) => {
           </div>
         )}
 
-        {/* SECTION: ALERTS (Placeholder) */}
+        {/* SECTION: ALERTS */}
         {activeSection === 'alerts' && (
-           <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-12 text-center animate-in fade-in slide-in-from-top-4 duration-300">
-              <div className="w-16 h-16 bg-green-100 text-green-500 rounded-full flex items-center justify-center mx-auto mb-4">
-                <ShieldIcon size={32} />
-              </div>
-              <h3 className="text-xl font-bold text-gray-800">Sin Alertas Activas</h3>
-              <p className="text-gray-500 mt-2 max-w-md mx-auto">
-                No se han reportado incidentes de seguridad ni anomalías en el sistema durante las últimas 24 horas.
-              </p>
+           <div className="animate-in fade-in slide-in-from-top-4 duration-300">
+              <AlertsPanel user={user} can={can} alerts={displayAlerts} alertActions={alertActions} blacklist={blacklist} blacklistActions={blacklistActions} onAudit={onAudit} />
            </div>
         )}
 
@@ -335,8 +403,8 @@ const Dashboard: React.FC<DashboardProps> = ({ user, residents, visits }) => {
                  Estadísticas de Acceso
                </h3>
                
-               {/* Timeframe Selector for Role X and A */}
-               {(user.role === 'X' || user.role === 'A') && (
+               {/* Timeframe Selector (full 'visit.view' only) */}
+               {!visitsScoped && (
                  <div className="flex bg-gray-100 p-1 rounded-lg">
                    {(['day', 'week', 'month', 'year'] as TimeRange[]).map((range) => (
                      <button
@@ -356,7 +424,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user, residents, visits }) => {
                )}
             </div>
             
-            {user.role === 'B' ? (
+            {visitsScoped ? (
                <div className="h-64 flex flex-col items-center justify-center bg-gray-50 rounded-lg text-gray-400 text-sm border border-dashed border-gray-200">
                  <Activity size={32} className="mb-2 opacity-30" />
                  <p>Monitor de actividad simplificado para residentes.</p>
@@ -394,6 +462,33 @@ const Dashboard: React.FC<DashboardProps> = ({ user, residents, visits }) => {
                 </ResponsiveContainer>
               </div>
             )}
+
+            {/* Per-gate breakdown (tenants with several access points) */}
+            {!visitsScoped && gateTraffic.length > 0 && (
+              <div className="mt-6">
+                <h4 className="text-sm font-semibold text-gray-700 flex items-center gap-2 mb-2">
+                  <MapPin size={16} className="text-purple-500" /> Tráfico por acceso
+                </h4>
+                <table className="w-full text-left text-sm">
+                  <thead className="bg-gray-50 text-gray-500 text-xs uppercase">
+                    <tr>
+                      <th className="px-4 py-2 font-medium">Acceso</th>
+                      <th className="px-4 py-2 font-medium text-right">Ingresos</th>
+                      <th className="px-4 py-2 font-medium text-right">Rechazos</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {gateTraffic.map(gate => (
+                      <tr key={gate.key}>
+                        <td className="px-4 py-2 text-gray-800">{gate.name}</td>
+                        <td className="px-4 py-2 text-right font-mono text-gray-700">{gate.entries}</td>
+                        <td className={`px-4 py-2 text-right font-mono ${gate.rejections > 0 ? 'text-red-600' : 'text-gray-400'}`}>{gate.rejections}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
           </div>
         )}
 
@@ -0,0 +1,47 @@
+import React, { useState } from 'react';
+import { Tenant } from '../types';
+import { MapPin } from 'lucide-react';
+import { getGates, getGateName } from '../site';
+
+interface GatePickerProps {
+  tenant?: Tenant;
+  gateId?: string; // Gate bound to the guard's session
+  onBindGate: (gateId: string) => void;
+}
+
+// The access point the guard works at, chosen once per session (not shown when the tenant has a single gate or none)
+const GatePicker: React.FC<GatePickerProps> = ({ tenant, gateId, onBindGate }) => {
+  const [isChanging, setIsChanging] = useState(false);
+  const gates = getGates(tenant);
+
+  if (gates.length === 0) return null;
+
+  if (gateId && !isChanging) {
+    return (
+      <div className="flex items-center justify-between gap-2 p-3 rounded-lg bg-blue-50 border border-blue-100 text-sm">
+        <span className="flex items-center gap-2 text-blue-800">
+          <MapPin size={16} /> Acceso: <strong>{getGateName(tenant, gateId)}</strong>
+        </span>
+        <button onClick={() => setIsChanging(true)} className="text-xs text-blue-600 hover:underline">Cambiar</button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-3 rounded-lg bg-yellow-50 border border-yellow-200 text-sm space-y-2">
+      <p className="flex items-center gap-2 text-yellow-800 font-medium">
+        <MapPin size={16} /> ¿En qué acceso estás trabajando?
+      </p>
+      <select
+        value={gateId || ''}
+        onChange={e => { if (e.target.value) { onBindGate(e.target.value); setIsChanging(false); } }}
+        className="w-full border p-2 rounded-lg text-sm outline-none focus:border-blue-500 bg-white"
+      >
+        <option value="">Selecciona un acceso...</option>
+        {gates.map(g => <option key={g.id} value={g.id}>{g.name}</option>)}
+      </select>
+    </div>
+  );
+};
+
+export default GatePicker;
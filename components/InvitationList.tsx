@@ -0,0 +1,168 @@
+import React, { useState, useMemo } from 'react';
+import { User, Tenant, Invitation, Visit } from '../types';
+import { Ticket, Ban, Calendar, CalendarClock, MapPin, X } from 'lucide-react';
+import { CollectionActions } from '../hooks';
+import { PermissionCheck } from '../permissions';
+import { getGateName } from '../site';
+import { formatSchedule } from '../schedule';
+import {
+  InvitationStatus, INVITATION_STATUS_LABELS, REVOCATION_REASONS,
+  countInvitationUses, getInvitationMaxUses, getInvitationStatus, isInvitationRevocable, revokeInvitation,
+} from '../invitations';
+
+interface InvitationListProps {
+  user: User;
+  can: PermissionCheck;
+  tenant: Tenant;
+  invitations: Invitation[];
+  invitationActions: CollectionActions<Invitation>;
+  visits: Visit[]; // Accepted scans, to show how many times each code was used
+}
+
+const STATUS_STYLES: Record<InvitationStatus, string> = {
+  unused: 'bg-green-100 text-green-700',
+  used: 'bg-blue-100 text-blue-700',
+  expired: 'bg-gray-100 text-gray-500',
+  revoked: 'bg-red-100 text-red-700',
+};
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString('es-ES', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+// "Mis invitaciones": codes issued for the units the user can generate for, with their status and a revoke action
+const InvitationList: React.FC<InvitationListProps> = ({ user, can, tenant, invitations, invitationActions, visits }) => {
+  const [showAll, setShowAll] = useState(false); // Default: only codes the gate would still accept
+  const [unitFilter, setUnitFilter] = useState('');
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+
+  const now = new Date();
+
+  const ownInvitations = useMemo(() =>
+    invitations
+      .filter(i => can(user, 'qr.generate', { unit: i.payload.residentUnit }))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  , [invitations, user, can]);
+
+  const unitNumbers = useMemo(() => {
+    const numbers = ownInvitations.map(i => i.payload.residentUnit);
+    return numbers.filter((n, i) => numbers.indexOf(n) === i).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  }, [ownInvitations]);
+
+  if (ownInvitations.length === 0) return null;
+
+  const visible = ownInvitations.filter(i =>
+    (showAll || isInvitationRevocable(i, visits, now)) && (!unitFilter || i.payload.residentUnit === unitFilter)
+  );
+
+  const startRevoke = (id: string) => {
+    setRevokingId(id);
+    setReason('');
+  };
+
+  const handleRevoke = (id: string) => {
+    if (!reason.trim()) return;
+    // Ignore if someone else revoked it first
+    invitationActions.update(id, i => i.revocation ? i : revokeInvitation(i, user, reason, new Date()));
+    setRevokingId(null);
+  };
+
+  return (
+    <div className="max-w-xl mx-auto mt-6 bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+      <div className="p-4 border-b border-gray-100 flex flex-wrap items-center justify-between gap-2">
+        <h3 className="font-bold text-gray-800 flex items-center gap-2"><Ticket size={18} className="text-blue-600" /> Mis invitaciones</h3>
+        <div className="flex items-center gap-2">
+          {unitNumbers.length > 1 && (
+            <select value={unitFilter} onChange={e => setUnitFilter(e.target.value)} className="border p-1.5 rounded-lg text-xs outline-none focus:border-blue-500 bg-white">
+              <option value="">Todas las unidades</option>
+              {unitNumbers.map(n => <option key={n} value={n}>Unidad {n}</option>)}
+            </select>
+          )}
+          <div className="flex rounded-lg border border-gray-200 overflow-hidden text-xs">
+            <button onClick={() => setShowAll(false)} className={`px-3 py-1.5 ${!showAll ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-50'}`}>Vigentes</button>
+            <button onClick={() => setShowAll(true)} className={`px-3 py-1.5 ${showAll ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-50'}`}>Todas</button>
+          </div>
+        </div>
+      </div>
+
+      {visible.length === 0 && <p className="p-4 text-sm text-gray-400">No hay invitaciones vigentes.</p>}
+
+      {visible.map(invitation => {
+        const { payload, revocation } = invitation;
+        const status = getInvitationStatus(invitation, visits, now);
+        const maxUses = getInvitationMaxUses(invitation);
+        return (
+          <div key={invitation.id} className="p-4 border-b border-gray-50 last:border-0 space-y-2">
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <p className="font-semibold text-gray-800">
+                  {payload.visitorName}
+                  <span className={`ml-2 px-2 py-0.5 rounded-full text-[10px] font-medium align-middle ${STATUS_STYLES[status]}`}>{INVITATION_STATUS_LABELS[status]}</span>
+                </p>
+                <p className="text-xs text-gray-500 mt-0.5">
+                  Unidad {payload.residentUnit} • Anfitrión: {payload.residentName} • Código {payload.id.slice(0, 8).toUpperCase()}
+                </p>
+                <p className="text-xs text-gray-500 mt-0.5 flex flex-wrap items-center gap-x-3 gap-y-0.5">
+                  {payload.schedule
+                    ? <span className="flex items-center gap-1"><CalendarClock size={12} /> {formatSchedule(payload.schedule)}</span>
+                    : <span className="flex items-center gap-1"><Calendar size={12} /> Vence {formatDate(payload.expiresAt)}</span>}
+                  <span>{countInvitationUses(invitation, visits)}{maxUses !== Infinity && `/${maxUses}`} usos</span>
+                  {payload.gateIds && <span className="flex items-center gap-1"><MapPin size={12} /> {payload.gateIds.map(id => getGateName(tenant, id)).join(', ')}</span>}
+                </p>
+                {revocation && (
+                  <p className="text-xs text-red-600 mt-1">Revocada el {formatDate(revocation.at)} por {revocation.by.name}: {revocation.reason}</p>
+                )}
+              </div>
+              {isInvitationRevocable(invitation, visits, now) && revokingId !== invitation.id && (
+                <button
+                  onClick={() => startRevoke(invitation.id)}
+                  className="flex items-center gap-1 bg-white border border-red-200 text-red-600 px-3 py-1.5 rounded-lg text-xs font-medium hover:bg-red-50 shrink-0"
+                >
+                  <Ban size={14} /> Revocar
+                </button>
+              )}
+            </div>
+
+            {revokingId === invitation.id && (
+              <div className="p-3 rounded-lg bg-red-50 border border-red-100 space-y-2">
+                <p className="text-xs text-red-800 font-medium">¿Por qué revocas este código? Portería lo rechazará desde ahora.</p>
+                <div className="flex flex-wrap gap-1.5">
+                  {REVOCATION_REASONS.map(r => (
+                    <button
+                      key={r}
+                      type="button"
+                      onClick={() => setReason(r)}
+                      className={`px-2.5 py-1 rounded-full text-xs border ${reason === r ? 'bg-red-600 text-white border-red-600' : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-50'}`}
+                    >
+                      {r}
+                    </button>
+                  ))}
+                </div>
+                <input
+                  value={reason}
+                  onChange={e => setReason(e.target.value)}
+                  placeholder="Motivo"
+                  className="w-full border p-2 rounded-lg text-sm outline-none focus:border-red-400 bg-white"
+                />
+                <div className="flex justify-end gap-2">
+                  <button onClick={() => setRevokingId(null)} className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs text-gray-600 hover:bg-gray-100">
+                    <X size={14} /> Cancelar
+                  </button>
+                  <button
+                    onClick={() => handleRevoke(invitation.id)}
+                    disabled={!reason.trim()}
+                    className="flex items-center gap-1 bg-red-600 text-white px-3 py-1.5 rounded-lg text-xs font-medium hover:bg-red-700 disabled:opacity-50"
+                  >
+                    <Ban size={14} /> Revocar código
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default InvitationList;
@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import { User, Tenant, PublicTenant, UserCredential, Session } from '../types';
+import { authenticate, isValidPin, PROFILE_SIMULATION_ENABLED } from '../auth';
+import { isTenantActive, TENANT_INACTIVE_ERROR } from '../tenants';
+import { isUserActive, USER_INACTIVE_ERROR } from '../users';
+import { getBrandName } from '../branding';
+import { ROLE_LABELS } from '../permissions';
+import { DATA_BACKEND, API_BASE_URL, loginWithServer } from '../data';
+import { Mail, Lock, KeyRound, Loader2, AlertCircle, LogIn } from 'lucide-react';
+
+interface LoginScreenProps {
+  systemUsers: User[];
+  tenants: Tenant[];
+  tenant?: PublicTenant; // Tenant resolved from the hostname; only its users can log in here
+  credentials: UserCredential[];
+  setCredentials: (value: UserCredential[] | ((val: UserCredential[]) => UserCredential[])) => void;
+  onLogin: (user: User, method: Session['method']) => void;
+}
+
+const LoginScreen: React.FC<LoginScreenProps> = ({ systemUsers, tenants, tenant, credentials, setCredentials, onLogin }) => {
+  const [method, setMethod] = useState<'password' | 'pin'>('password');
+  const [email, setEmail] = useState('');
+  const [secret, setSecret] = useState('');
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loginUsers = tenant ? systemUsers.filter(u => u.tenantId === tenant.id) : systemUsers;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim() || !secret) {
+      setError('Ingresa tu correo y tu ' + (method === 'pin' ? 'PIN.' : 'contraseña.'));
+      return;
+    }
+    if (method === 'pin' && !isValidPin(secret)) {
+      setError('El PIN debe tener entre 4 y 6 dígitos.');
+      return;
+    }
+
+    setIsLoading(true);
+    setError('');
+    try {
+      // With the API server, credentials are checked (and locked out) server-side
+      if (DATA_BACKEND === 'http') {
+        const remote = await loginWithServer(API_BASE_URL, email, secret, method, tenant?.id);
+        if ('error' in remote) {
+          setError(remote.error);
+        } else {
+          setSecret('');
+          onLogin(remote.user, method);
+        }
+        return;
+      }
+
+      const result = await authenticate(loginUsers, credentials, email, secret, method);
+      // Persist attempt counters / lockout (or their reset on success)
+      const updated = result.credential;
+      if (updated) {
+        setCredentials(prev => prev.map(c => c.userId === updated.userId ? updated : c));
+      }
+
+      if ('error' in result) {
+        setError(result.error);
+      } else if (!result.user.superAdmin && !isTenantActive(tenants.find(t => t.id === result.user.tenantId))) {
+        setError(TENANT_INACTIVE_ERROR);
+      } else if (!isUserActive(result.user)) {
+        setError(USER_INACTIVE_ERROR);
+      } else {
+        setSecret('');
+        onLogin(result.user, method);
+      }
+    } catch (err) {
+      console.error(err);
+      setError('No se pudo conectar con el servidor.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const switchMethod = (next: 'password' | 'pin') => {
+    setMethod(next);
+    setSecret('');
+    setError('');
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="max-w-md w-full bg-white rounded-2xl shadow-xl p-8 space-y-6 animate-in fade-in duration-500">
+        <div className="text-center">
+          {tenant?.logo && <img src={tenant.logo} alt={tenant.name} className="w-16 h-16 mx-auto mb-3 object-contain" />}
+          <h1 className="text-3xl font-bold text-brand-900">{getBrandName(tenant)}</h1>
+          {tenant && <p className="text-brand-700 font-medium mt-1">{tenant.name}</p>}
+          <p className="text-gray-500 mt-2">{tenant?.branding?.welcomeText || 'Inicia sesión para continuar'}</p>
+        </div>
+
+        {/* Method Selector */}
+        <div className="flex bg-gray-100 p-1 rounded-lg">
+          {(['password', 'pin'] as const).map(m => (
+            <button
+              key={m}
+              type="button"
+              onClick={() => switchMethod(m)}
+              className={`flex-1 px-4 py-1.5 text-sm font-medium rounded-md transition-all ${
+                method === m ? 'bg-white text-brand-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {m === 'password' ? 'Contraseña' : 'PIN Portería'}
+            </button>
+          ))}
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Correo electrónico</label>
+            <div className="relative">
+              <input
+                type="email"
+                autoComplete="username"
+                className="w-full border p-3 pl-10 rounded-lg outline-none focus:ring-2 focus:ring-brand-500 text-sm"
+                placeholder="nombre@condominio.com"
+                value={email}
+                onChange={e => setEmail(e.target.value)}
+              />
+              <Mail className="absolute left-3 top-3.5 text-gray-400" size={16} />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{method === 'pin' ? 'PIN (4-6 dígitos)' : 'Contraseña'}</label>
+            <div className="relative">
+              <input
+                type="password"
+                inputMode={method === 'pin' ? 'numeric' : undefined}
+                maxLength={method === 'pin' ? 6 : undefined}
+                autoComplete={method === 'pin' ? 'off' : 'current-password'}
+                className={`w-full border p-3 pl-10 rounded-lg outline-none focus:ring-2 focus:ring-brand-500 text-sm ${method === 'pin' ? 'tracking-[0.5em] font-mono' : ''}`}
+                value={secret}
+                onChange={e => setSecret(method === 'pin' ? e.target.value.replace(/\D/g, '') : e.target.value)}
+              />
+              {method === 'pin'
+                ? <KeyRound className="absolute left-3 top-3.5 text-gray-400" size={16} />
+                : <Lock className="absolute left-3 top-3.5 text-gray-400" size={16} />}
+            </div>
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-600 flex items-center gap-1 font-medium">
+              <AlertCircle size={14} /> {error}
+            </p>
+          )}
+
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="w-full bg-brand-600 hover:bg-brand-700 text-white font-semibold py-3 rounded-lg transition-all shadow-md flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            {isLoading ? <Loader2 className="animate-spin" size={18} /> : <LogIn size={18} />}
+            Ingresar
+          </button>
+        </form>
+
+        {/* DEV ONLY: Profile simulation */}
+        {PROFILE_SIMULATION_ENABLED && (
+          <div className="border-t border-gray-100 pt-6 space-y-3">
+            <div className="bg-yellow-50 p-3 rounded-lg text-xs text-yellow-700 border border-yellow-100">
+              <p className="font-bold">Modo desarrollo: simular perfil</p>
+              Acceso sin credenciales. Deshabilitado en producción.
+            </div>
+            {loginUsers.map(u => (
+              <button
+                key={u.id}
+                onClick={() => onLogin(u, 'simulated')}
+                className="w-full flex items-center gap-4 p-4 border border-gray-200 rounded-xl hover:bg-brand-50 hover:border-brand-300 transition-all group text-left transform active:scale-98 duration-200"
+              >
+                <img src={u.avatar} alt={u.name} className="w-10 h-10 rounded-full bg-gray-200 shadow-sm object-cover" />
+                <div className="flex-1">
+                  <div className="flex justify-between items-center">
+                    <h3 className="font-semibold text-gray-800 group-hover:text-brand-700">{u.name}</h3>
+                    {u.unit && <span className="text-xs bg-brand-100 text-brand-800 px-2 py-0.5 rounded">U: {u.unit}</span>}
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {ROLE_LABELS[u.role]}
+                    {' '}| Tenant: {tenants.find(t => t.id === u.tenantId)?.name}
+                  </p>
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LoginScreen;
@@ -0,0 +1,162 @@
+import React, { useState, useMemo } from 'react';
+import { User, AppNotification, Tenant } from '../types';
+import { Bell, History, Check, Clock, Save, X } from 'lucide-react';
+import { CollectionActions } from '../hooks';
+import { getWarningHours } from '../notifications';
+import { PermissionCheck } from '../permissions';
+
+interface NotificationCenterProps {
+  user: User;
+  can: PermissionCheck;
+  notifications: AppNotification[]; // Already scoped to the user (see isNotificationForUser)
+  notificationActions: CollectionActions<AppNotification>;
+  tenant?: Tenant;
+  tenantActions: CollectionActions<Tenant>;
+  onPostpone: (residentId: string) => void; // Opens the extension flow in UserManagement
+}
+
+// Header bell with the expiry warnings of the user's residents ('notification.view')
+const NotificationCenter: React.FC<NotificationCenterProps> = ({ user, can, notifications, notificationActions, tenant, tenantActions, onPostpone }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [warningHours, setWarningHours] = useState('');
+  const [settingsError, setSettingsError] = useState('');
+
+  const sorted = useMemo(() =>
+    [...notifications].sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  , [notifications]);
+
+  const unreadCount = sorted.filter(n => !n.readBy.includes(user.id)).length;
+
+  if (!can(user, 'notification.view')) return null;
+
+  const markRead = (ids: string[]) => {
+    ids.forEach(id => notificationActions.update(id, n =>
+      n.readBy.includes(user.id) ? n : { ...n, readBy: [...n.readBy, user.id] }
+    ));
+  };
+
+  const handlePostpone = (notification: AppNotification) => {
+    markRead([notification.id]);
+    setIsOpen(false);
+    onPostpone(notification.residentId);
+  };
+
+  // Accepts e.g. "72, 24, 1"
+  const handleSaveHours = () => {
+    if (!tenant) return;
+    const hours = warningHours.split(',').map(h => Number(h.trim()));
+    if (hours.length === 0 || hours.some(h => !Number.isInteger(h) || h <= 0)) {
+      setSettingsError('Usa horas enteras separadas por comas (ej. 72, 24, 1).');
+      return;
+    }
+    setSettingsError('');
+    const unique = hours.filter((h, i) => hours.indexOf(h) === i).sort((a, b) => b - a);
+    tenantActions.update(tenant.id, { expiryWarningHours: unique });
+    setWarningHours('');
+  };
+
+  const formatDate = (iso: string) => {
+    return new Date(iso).toLocaleString('es-ES', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors relative focus:outline-none focus:ring-2 focus:ring-blue-100"
+        title="Notificaciones"
+      >
+        <Bell size={20} />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-white text-[10px] font-bold flex items-center justify-center">
+            {unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 max-w-[calc(100vw-2rem)] bg-white rounded-xl shadow-2xl border border-gray-200 z-30 animate-in fade-in">
+          <div className="flex items-center justify-between p-3 border-b border-gray-100">
+            <h3 className="font-semibold text-gray-800 text-sm">Notificaciones</h3>
+            <div className="flex items-center gap-1">
+              {unreadCount > 0 && (
+                <button
+                  onClick={() => markRead(sorted.map(n => n.id))}
+                  className="text-xs text-blue-600 hover:bg-blue-50 px-2 py-1 rounded"
+                >
+                  Marcar todas como leídas
+                </button>
+              )}
+              <button onClick={() => setIsOpen(false)} className="text-gray-400 hover:bg-gray-100 p-1 rounded" title="Cerrar">
+                <X size={16} />
+              </button>
+            </div>
+          </div>
+
+          <div className="max-h-80 overflow-y-auto divide-y divide-gray-50">
+            {sorted.map(n => {
+              const isRead = n.readBy.includes(user.id);
+              return (
+                <div key={n.id} className={`p-3 ${isRead ? 'bg-white' : 'bg-orange-50/50'}`}>
+                  <p className={`text-sm ${isRead ? 'text-gray-500' : 'text-gray-800 font-medium'}`}>{n.message}</p>
+                  <p className="text-xs text-gray-400 mt-1 flex items-center gap-1">
+                    <Clock size={12} /> Vence {formatDate(n.expirationDate)}
+                  </p>
+                  <div className="flex gap-2 mt-2">
+                    <button
+                      onClick={() => handlePostpone(n)}
+                      className="flex items-center gap-1 text-orange-600 text-xs font-medium hover:bg-orange-50 px-2 py-1 rounded border border-orange-200"
+                    >
+                      <History size={14} /> Aplazar
+                    </button>
+                    {!isRead && (
+                      <button
+                        onClick={() => markRead([n.id])}
+                        className="flex items-center gap-1 text-gray-500 text-xs font-medium hover:bg-gray-100 px-2 py-1 rounded"
+                      >
+                        <Check size={14} /> Leída
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+            {sorted.length === 0 && (
+              <div className="text-center py-8 text-gray-400 text-sm">
+                <Bell size={28} className="mx-auto mb-2 opacity-20" />
+                No hay autorizaciones por vencer.
+              </div>
+            )}
+          </div>
+
+          {/* Warning intervals (editable with 'tenant.settings') */}
+          <div className="p-3 border-t border-gray-100 bg-gray-50 rounded-b-xl text-xs text-gray-500 space-y-2">
+            <p>Avisos {getWarningHours(tenant).join(' h, ')} h antes del vencimiento.</p>
+            {can(user, 'tenant.settings') && (
+              <>
+                <div className="flex items-center gap-2">
+                  <input
+                    placeholder={getWarningHours(tenant).join(', ')}
+                    className="flex-1 border p-1.5 rounded text-xs bg-white outline-none focus:border-blue-500"
+                    value={warningHours}
+                    onChange={e => setWarningHours(e.target.value)}
+                  />
+                  <button
+                    onClick={handleSaveHours}
+                    disabled={!warningHours.trim()}
+                    className="bg-blue-600 text-white px-2 py-1.5 rounded text-xs flex items-center gap-1 font-medium disabled:opacity-50"
+                  >
+                    <Save size={12} /> Guardar
+                  </button>
+                </div>
+                {settingsError && <p className="text-red-600">{settingsError}</p>}
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationCenter;
@@ -0,0 +1,100 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Visit, Resident } from '../types';
+import { Users, LogOut, Clock, AlertTriangle } from 'lucide-react';
+import { CollectionActions } from '../hooks';
+
+interface OccupancyPanelProps {
+  visits: Visit[];
+  residents: Resident[];
+  visitActions: CollectionActions<Visit>;
+}
+
+// Live roster of visitors currently inside the condominium (Portería)
+const OccupancyPanel: React.FC<OccupancyPanelProps> = ({ visits, residents, visitActions }) => {
+  // Re-render every 30s so durations and overstay flags stay current
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  const insideVisits = useMemo(() =>
+    visits
+      .filter(v => v.checkInAt && !v.checkOutAt)
+      .sort((a, b) => a.checkInAt!.localeCompare(b.checkInAt!))
+  , [visits]);
+
+  const handleCheckOut = (id: string) => {
+    const checkOutAt = new Date().toISOString();
+    visitActions.update(id, { status: 'Completed', checkOutAt });
+  };
+
+  const formatDuration = (fromIso: string) => {
+    const minutes = Math.max(0, Math.floor((now - new Date(fromIso).getTime()) / 60000));
+    const hours = Math.floor(minutes / 60);
+    return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+  };
+
+  const formatTime = (iso: string) => {
+    return new Date(iso).toLocaleString('es-ES', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+  };
+
+  return (
+    <div className="max-w-md mx-auto bg-white rounded-xl shadow-lg border border-gray-100 overflow-hidden">
+      <div className="p-5 border-b border-gray-100 flex justify-between items-center bg-blue-50/30">
+        <div className="flex items-center gap-2">
+          <Users className="text-blue-500" size={20} />
+          <h3 className="text-lg font-bold text-gray-800">Visitas en el Recinto</h3>
+        </div>
+        <span className="text-xs text-blue-700 bg-blue-100 px-3 py-1 rounded-full font-medium">
+          {insideVisits.length} Dentro
+        </span>
+      </div>
+
+      <div>
+        {insideVisits.map(visit => {
+          const resident = residents.find(r => r.id === visit.residentId);
+          const isOverstay = !!visit.expiresAt && new Date(visit.expiresAt).getTime() < now;
+          return (
+            <div
+              key={visit.id}
+              className={`flex items-center justify-between p-4 border-b last:border-0 transition-colors ${
+                isOverstay ? 'bg-red-50 border-red-100' : 'border-gray-50 hover:bg-gray-50/50'
+              }`}
+            >
+              <div>
+                <p className="font-semibold text-gray-800 text-sm flex items-center gap-1">
+                  {isOverstay && <AlertTriangle size={14} className="text-red-500" />}
+                  {visit.visitorName}
+                </p>
+                <p className="text-xs text-gray-500 mt-0.5">
+                  {resident ? `${resident.name} • Unidad ${resident.unit}` : 'Residente desconocido'}
+                </p>
+                <p className={`text-xs mt-1 flex items-center gap-1 ${isOverstay ? 'text-red-600 font-medium' : 'text-gray-400'}`}>
+                  <Clock size={12} />
+                  {formatDuration(visit.checkInAt!)} dentro
+                  {isOverstay && ` • Invitación vencida ${formatTime(visit.expiresAt!)}`}
+                </p>
+              </div>
+              <button
+                onClick={() => handleCheckOut(visit.id)}
+                className="flex items-center gap-1 text-blue-600 text-sm font-medium hover:bg-blue-50 px-3 py-1.5 rounded transition-colors"
+                title="Registrar salida"
+              >
+                <LogOut size={16} /> Salida
+              </button>
+            </div>
+          );
+        })}
+        {insideVisits.length === 0 && (
+          <div className="text-center py-10 text-gray-400 text-sm">
+            <Users size={32} className="mx-auto mb-2 opacity-20" />
+            No hay visitas dentro del recinto.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OccupancyPanel;
@@ -0,0 +1,129 @@
+import React, { useState, useEffect } from 'react';
+import { User, Tenant, Role, Capability, PermissionScope, PermissionMatrix } from '../types';
+import { KeyRound, Save, RotateCcw, Lock, AlertCircle, CheckCircle } from 'lucide-react';
+import { CollectionActions } from '../hooks';
+import { PermissionCheck, CAPABILITIES, ROLES, ROLE_LABELS, getPermissionMatrix, isLockedGrant, validatePermissionMatrix } from '../permissions';
+
+interface PermissionsAdminProps {
+  user: User;
+  can: PermissionCheck;
+  tenant: Tenant;
+  tenantActions: CollectionActions<Tenant>;
+}
+
+// Role x capability grid of the tenant's permission matrix ('permission.manage')
+const PermissionsAdmin: React.FC<PermissionsAdminProps> = ({ user, can, tenant, tenantActions }) => {
+  const [draft, setDraft] = useState<Required<PermissionMatrix>>(() => getPermissionMatrix(tenant));
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+
+  // Saved changes (or another admin's, via sync) replace the draft
+  useEffect(() => {
+    setDraft(getPermissionMatrix(tenant));
+  }, [tenant.permissions]);
+
+  if (!can(user, 'permission.manage')) return <div className="p-4 text-red-500">Acceso denegado.</div>;
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(getPermissionMatrix(tenant));
+
+  const setGrant = (role: Role, capability: Capability, scope: PermissionScope | '') => {
+    setMessage(null);
+    setDraft(prev => {
+      const { [capability]: _previous, ...grants } = prev[role];
+      return { ...prev, [role]: scope ? { ...grants, [capability]: scope } : grants };
+    });
+  };
+
+  const handleSave = () => {
+    const error = validatePermissionMatrix(draft);
+    if (error) {
+      setMessage({ type: 'error', text: error });
+      return;
+    }
+    tenantActions.update(tenant.id, { permissions: draft });
+    setMessage({ type: 'success', text: 'Permisos actualizados.' });
+  };
+
+  const handleReset = () => {
+    if (!confirm('¿Restablecer los permisos por defecto para todos los roles?')) return;
+    tenantActions.update(tenant.id, { permissions: undefined });
+    setMessage({ type: 'success', text: 'Se restablecieron los permisos por defecto.' });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+            <KeyRound className="text-blue-600" /> Permisos
+          </h2>
+          <p className="text-gray-500 text-sm">Qué puede hacer cada rol en {tenant.name}. "Su unidad" y "Su perfil" limitan el permiso a lo propio.</p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={handleReset}
+            disabled={!tenant.permissions}
+            className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 text-sm font-medium hover:bg-gray-50 transition-colors flex items-center gap-2 disabled:opacity-50"
+          >
+            <RotateCcw size={16} /> Restablecer
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!isDirty}
+            className="px-4 py-2 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 transition-colors flex items-center gap-2 disabled:opacity-50"
+          >
+            <Save size={16} /> Guardar
+          </button>
+        </div>
+      </div>
+
+      {message && (
+        <div className={`p-3 rounded-lg text-sm flex items-center gap-2 ${message.type === 'success' ? 'bg-green-50 text-green-700 border border-green-100' : 'bg-red-50 text-red-700 border border-red-100'}`}>
+          {message.type === 'success' ? <CheckCircle size={16} /> : <AlertCircle size={16} />} {message.text}
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-x-auto">
+        <table className="w-full text-left text-sm">
+          <thead className="bg-gray-50 text-gray-500 text-xs uppercase">
+            <tr>
+              <th className="p-4">Permiso</th>
+              {ROLES.map(role => <th key={role} className="p-4">{ROLE_LABELS[role]} ({role})</th>)}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-50">
+            {CAPABILITIES.map(capability => (
+              <tr key={capability.id} className="hover:bg-gray-50/50">
+                <td className="p-4">
+                  <p className="text-gray-800 font-medium">{capability.label}</p>
+                  <p className="text-xs text-gray-400 font-mono">{capability.id}</p>
+                </td>
+                {ROLES.map(role => {
+                  const locked = isLockedGrant(role, capability.id);
+                  return (
+                    <td key={role} className="p-4">
+                      <div className="flex items-center gap-2">
+                        <select
+                          value={draft[role][capability.id] || ''}
+                          onChange={e => setGrant(role, capability.id, e.target.value as PermissionScope | '')}
+                          disabled={locked}
+                          className={`border p-2 rounded-lg text-sm outline-none focus:border-blue-500 bg-white ${draft[role][capability.id] ? 'text-gray-800' : 'text-gray-400'} disabled:bg-gray-100`}
+                        >
+                          <option value="">Sin acceso</option>
+                          {capability.ownLabel && <option value="own">{capability.ownLabel}</option>}
+                          <option value="all">Todos</option>
+                        </select>
+                        {locked && <span title="Los administradores siempre conservan este permiso"><Lock size={14} className="text-gray-400" /></span>}
+                      </div>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default PermissionsAdmin;
@@ -1,103 +1,225 @@
 import React, { useState, useMemo, useRef, useEffect } from 'react';
-import { User, Resident } from '../types';
-import { QrCode, Scan, CheckCircle, XCircle, Clock, Users, ShieldCheck, User as UserIcon, Calendar, Share2, Camera, AlertTriangle } from 'lucide-react';
+import { User, Tenant, Resident, Visit, Invitation, QRPayload, RejectionCode, Role, AccessSchedule } from '../types';
+import { QrCode, Scan, CheckCircle, XCircle, Clock, Users, ShieldCheck, User as UserIcon, Calendar, Share2, Camera, AlertTriangle, Repeat, LogOut, Download, Car, IdCard, CalendarClock } from 'lucide-react';
 import jsQR from 'jsqr';
-
-// Interface for the secure payload inside the QR
-interface QRPayload {
-  id: string;
-  tenantId: string; // Security: Domain lock
-  residentName: string;
-  residentUnit: string;
+import QRCode from 'qrcode';
+import { signQRPayload, decodeSignedQR, verifyQRSignature } from '../qrSecurity';
+import { isValidRut, formatRut } from '../validation';
+import { CollectionActions } from '../hooks';
+import { AuditRecorder } from '../audit';
+import { renderInvitationCard, getBrandName } from '../branding';
+import { PermissionCheck, ROLE_LABELS } from '../permissions';
+import { getGates, getGateName, isGateAllowed } from '../site';
+import { EMPTY_SCHEDULE, formatSchedule, getEndOfDay, getScheduleError, validateSchedule } from '../schedule';
+import { formatRevocation, findCodeEntries } from '../invitations';
+import { buildScanVisit, ScanOutcome } from '../visits';
+import { DATA_BACKEND, API_BASE_URL, issueInvitationOnServer } from '../data';
+import GatePicker from './GatePicker';
+import ScheduleEditor from './ScheduleEditor';
+
+// A generated invitation: the signed string plus its locally rendered PNG (no third-party QR service)
+interface GeneratedCode {
+  value: string;
   visitorName: string;
-  createdBy: {
-    name: string;
-    role: string;
-    id: string;
-  };
-  expiresAt: string;
-  generatedAt: number;
+  image: string; // PNG data URL
+  card: string; // Branded PNG (tenant header + visitor details) for printing and sharing
+}
+
+// Visitor details captured per code in the generator form
+interface VisitorForm {
+  name: string;
+  rut: string;
+  licensePlate: string;
+  companions: number;
 }
 
-// Sub-component for Generation (Role B & X)
-export const QRGenerator: React.FC<{ user: User, residents: Resident[] }> = ({ user, residents }) => {
+const EMPTY_VISITOR: VisitorForm = { name: '', rut: '', licensePlate: '', companions: 0 };
+
+const QR_RENDER_OPTIONS = { errorCorrectionLevel: 'M' as const, margin: 2, width: 300 };
+
+const downloadFile = (href: string, filename: string) => {
+  const link = document.createElement('a');
+  link.href = href;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+};
+
+interface QRGeneratorProps {
+  user: User;
+  can: PermissionCheck;
+  tenant: Tenant;
+  residents: Resident[];
+  invitationActions: CollectionActions<Invitation>; // Every code is kept so it can be listed and revoked
+  onAudit: AuditRecorder;
+}
+
+// Sub-component for Generation ('qr.generate': Role B & X by default)
+export const QRGenerator: React.FC<QRGeneratorProps> = ({ user, can, tenant, residents, invitationActions, onAudit }) => {
   const [selectedResidentId, setSelectedResidentId] = useState('');
   
   // Options
   const [expirationDate, setExpirationDate] = useState('');
   const [quantity, setQuantity] = useState(1);
+  const [maxUses, setMaxUses] = useState(1);
+  const [gateIds, setGateIds] = useState<string[]>([]); // Empty = valid at every access point
+  const [schedule, setSchedule] = useState<AccessSchedule | undefined>(); // Recurring pass (e.g. cleaning staff)
   const [isSharing, setIsSharing] = useState(false);
+  const [visitors, setVisitors] = useState<VisitorForm[]>([{ ...EMPTY_VISITOR }]);
+  const [formError, setFormError] = useState('');
   
   // Output
-  const [generatedCodes, setGeneratedCodes] = useState<string[]>([]);
+  const [generatedCodes, setGeneratedCodes] = useState<GeneratedCode[]>([]);
 
-  // Optimized Filter: Memoize available residents
+  // Optimized Filter: Memoize available residents (archived ones can't receive invitations)
   const availableResidents = useMemo(() => 
-    user.role === 'B' 
-      ? residents.filter(r => r.unit === user.unit) 
-      : residents
-  , [residents, user.role, user.unit]);
+    residents.filter(r => r.status === 'Active' && can(user, 'qr.generate', r))
+  , [residents, user, can]);
+
+  if (!can(user, 'qr.generate')) return <div className="p-4 text-red-500">Acceso denegado. No tienes permiso para generar invitaciones.</div>;
+
+  // One visitor row per code: grow/shrink the list with the quantity, keeping what was typed
+  const handleQuantityChange = (value: number) => {
+    const next = Math.min(20, Math.max(1, value));
+    setQuantity(next);
+    setVisitors(prev => Array.from({ length: next }, (_, i) => prev[i] || { ...EMPTY_VISITOR }));
+  };
+
+  const updateVisitor = (index: number, changes: Partial<VisitorForm>) => {
+    setVisitors(prev => prev.map((v, i) => i === index ? { ...v, ...changes } : v));
+  };
 
-  if (user.role !== 'B' && user.role !== 'X') return <div className="p-4 text-red-500">Acceso denegado. Solo Rol X o B.</div>;
+  // Visitors registered with a recurring window get a recurring pass by default
+  const handleResidentChange = (id: string) => {
+    setSelectedResidentId(id);
+    const resident = residents.find(r => r.id === id);
+    if (resident?.type === 'Visitor' && resident.schedule) setSchedule({ ...resident.schedule });
+  };
+
+  const toggleGate = (id: string) =>
+    setGateIds(prev => prev.includes(id) ? prev.filter(g => g !== id) : [...prev, id]);
 
-  const handleGenerate = () => {
+  const handleGenerate = async () => {
     if (!selectedResidentId) return;
 
     const selectedResident = residents.find(r => r.id === selectedResidentId);
     if (!selectedResident) return;
 
-    // Default expiration: 24 hours from now if not set
-    const finalExpiration = expirationDate || new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
-
-    const newCodes: string[] = [];
-
-    for (let i = 0; i < quantity; i++) {
-      const payload: QRPayload = {
-        id: crypto.randomUUID(), // Unique ID per code
-        tenantId: user.tenantId, // SECURITY: Domain Lock
-        residentName: selectedResident.name,
-        residentUnit: selectedResident.unit,
-        visitorName: 'Invitado', // Default generic name
-        createdBy: {
-          name: user.name,
-          role: user.role,
-          id: user.id
-        },
-        expiresAt: finalExpiration,
-        generatedAt: Date.now()
-      };
-      
-      // We encode the JSON to simulate a dense QR string
-      newCodes.push(JSON.stringify(payload));
+    // Validation: every code must be named; the RUT is optional (foreign visitors have none) but must be valid
+    for (let i = 0; i < visitors.length; i++) {
+      const label = visitors.length > 1 ? ` (Visita #${i + 1})` : '';
+      if (!visitors[i].name.trim()) {
+        setFormError(`El nombre del visitante es obligatorio${label}.`);
+        return;
+      }
+      if (visitors[i].rut.trim() && !isValidRut(visitors[i].rut)) {
+        setFormError(`RUT inválido${label}. Revisa el dígito verificador.`);
+        return;
+      }
     }
+    if (schedule) {
+      const scheduleError = validateSchedule(schedule) || (!schedule.endDate ? 'Un pase recurrente necesita un último día.' : null);
+      if (scheduleError) {
+        setFormError(scheduleError);
+        return;
+      }
+    }
+    setFormError('');
+
+    // Recurring passes last until the end of their last day (the tenant's, not the browser's); otherwise default expiration: 24 hours from now if not set
+    const finalExpiration = schedule
+      ? getEndOfDay(schedule.endDate!, tenant).toISOString()
+      : expirationDate || new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+
+    const newCodes: GeneratedCode[] = [];
 
-    setGeneratedCodes(newCodes);
+    // Codes issued before a failure (network, server refusal, rendering) are still shown
+    try {
+      for (const visitor of visitors) {
+        const payload: QRPayload = {
+          id: crypto.randomUUID(), // Unique ID per code
+          tenantId: user.tenantId, // SECURITY: Domain Lock
+          residentId: selectedResident.id,
+          residentName: selectedResident.name,
+          residentUnit: selectedResident.unit,
+          visitorName: visitor.name.trim(),
+          visitorRut: visitor.rut.trim() ? formatRut(visitor.rut) : undefined,
+          licensePlate: visitor.licensePlate.trim() || undefined,
+          companions: visitor.companions,
+          createdBy: {
+            name: user.name,
+            role: user.role,
+            id: user.id
+          },
+          expiresAt: finalExpiration,
+          generatedAt: Date.now(),
+          maxUses: schedule ? undefined : maxUses,
+          schedule,
+          gateIds: gateIds.length > 0 ? gateIds : undefined
+        };
+
+        // SECURITY: Sign with the tenant key so the validator can detect forged or tampered codes
+        // (with the API server, the code is issued and signed server-side)
+        let value: string;
+        if (DATA_BACKEND === 'http') {
+          const remote = await issueInvitationOnServer(API_BASE_URL, payload);
+          if ('error' in remote) {
+            setFormError(remote.error);
+            break;
+          }
+          value = remote.invitation.qrValue;
+          onAudit({ action: 'create', entity: 'invitation', entityId: remote.invitation.id, summary: `Creación de invitación: ${payload.visitorName} (Unidad ${payload.residentUnit})` });
+        } else {
+          value = await signQRPayload(payload, tenant);
+          invitationActions.save({ id: payload.id, tenantId: payload.tenantId, residentId: payload.residentId, payload, qrValue: value, createdAt: new Date().toISOString() });
+        }
+        const image = await QRCode.toDataURL(value, QR_RENDER_OPTIONS);
+        const card = await renderInvitationCard(image, tenant, { visitorName: payload.visitorName, expiresAt: finalExpiration, schedule: schedule && formatSchedule(schedule) });
+        newCodes.push({ value, visitorName: payload.visitorName, image, card });
+      }
+    } catch (error) {
+      console.error('Error generating invitations:', error);
+      setFormError('No se pudo generar la invitación. Revisa tu conexión e inténtalo de nuevo.');
+    } finally {
+      setGeneratedCodes(newCodes);
+    }
+  };
+
+  const handleDownloadPNG = (code: GeneratedCode, index: number) => {
+    downloadFile(code.card, `invitacion-qr-${index + 1}.png`);
+  };
+
+  const handleDownloadSVG = async (code: GeneratedCode, index: number) => {
+    const svg = await QRCode.toString(code.value, { ...QR_RENDER_OPTIONS, type: 'svg' });
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+    downloadFile(url, `invitacion-qr-${index + 1}.svg`);
+    URL.revokeObjectURL(url);
   };
 
-  const handleShare = async (qrData: string, index: number) => {
+  const handleShare = async (code: GeneratedCode, index: number) => {
     setIsSharing(true);
-    const imageUrl = `https://api.qrserver.com/v1/create-qr-code/?size=300x300&data=${encodeURIComponent(qrData)}`;
     
     try {
-      // Fetch the image to create a blob
-      const response = await fetch(imageUrl);
+      // Data URLs resolve locally, so this works without internet
+      const response = await fetch(code.card);
       const blob = await response.blob();
       const file = new File([blob], `invitacion-qr-${index + 1}.png`, { type: "image/png" });
 
-      if (navigator.share) {
+      if (navigator.share && (!navigator.canShare || navigator.canShare({ files: [file] }))) {
         await navigator.share({
-          title: 'Invitación de Acceso',
-          text: 'Aquí tienes tu código QR para ingresar al condominio.',
+          title: `Invitación de Acceso - ${getBrandName(tenant)}`,
+          text: `Aquí tienes tu código QR para ingresar a ${tenant.name}.`,
           files: [file],
         });
       } else {
         // Fallback for desktop or browsers without share API
-        window.open(imageUrl, '_blank');
-        alert("Tu dispositivo no soporta la función de compartir nativa. La imagen se ha abierto en una nueva pestaña para que puedas guardarla.");
+        handleDownloadPNG(code, index);
+        alert("Tu dispositivo no soporta la función de compartir nativa. La imagen se ha descargado para que puedas enviarla.");
       }
     } catch (error) {
       console.error("Error sharing:", error);
-      alert("No se pudo compartir la imagen. Intenta guardarla manualmente.");
+      alert("No se pudo compartir la imagen. Intenta descargarla manualmente.");
     } finally {
       setIsSharing(false);
     }
@@ -120,7 +242,7 @@ export const QRGenerator: React.FC<{ user: User, residents: Resident[] }> = ({ u
           <select 
             className="w-full border p-3 rounded-lg outline-none focus:ring-2 focus:ring-blue-500 bg-white text-sm"
             value={selectedResidentId}
-            onChange={(e) => setSelectedResidentId(e.target.value)}
+            onChange={(e) => handleResidentChange(e.target.value)}
           >
             <option value="">Seleccionar residente...</option>
             {availableResidents.map(r => (
@@ -129,21 +251,36 @@ export const QRGenerator: React.FC<{ user: User, residents: Resident[] }> = ({ u
           </select>
         </div>
         
+        {/* Recurring Pass: accepted only inside the window, until its last day */}
+        <div className="p-4 rounded-lg border border-gray-200 space-y-3">
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-700 cursor-pointer">
+            <input type="checkbox" checked={!!schedule} onChange={(e) => setSchedule(e.target.checked ? { ...EMPTY_SCHEDULE } : undefined)} />
+            <CalendarClock size={16} className="text-blue-500" /> Pase recurrente
+          </label>
+          {schedule ? (
+            <ScheduleEditor value={schedule} onChange={setSchedule} requireEndDate />
+          ) : (
+            <p className="text-xs text-gray-400">Para visitas frecuentes (ej. asesora del hogar lunes, miércoles y viernes de 9 a 13 h): un solo código válido en esos días y horas.</p>
+          )}
+        </div>
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          {/* Expiration Date */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">Fecha Límite (Caducidad)</label>
-            <div className="relative">
-              <input 
-                type="datetime-local"
-                className="w-full border p-3 pl-10 rounded-lg outline-none focus:ring-2 focus:ring-blue-500 text-sm"
-                value={expirationDate}
-                onChange={(e) => setExpirationDate(e.target.value)}
-              />
-              <Clock className="absolute left-3 top-3.5 text-gray-400" size={16} />
+          {/* Expiration Date (a recurring pass ends on its last day) */}
+          {!schedule && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Fecha Límite (Caducidad)</label>
+              <div className="relative">
+                <input
+                  type="datetime-local"
+                  className="w-full border p-3 pl-10 rounded-lg outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                  value={expirationDate}
+                  onChange={(e) => setExpirationDate(e.target.value)}
+                />
+                <Clock className="absolute left-3 top-3.5 text-gray-400" size={16} />
+              </div>
+              <p className="text-xs text-gray-400 mt-1">Por defecto: 24 horas</p>
             </div>
-            <p className="text-xs text-gray-400 mt-1">Por defecto: 24 horas</p>
-          </div>
+          )}
 
           {/* Quantity */}
           <div>
@@ -155,14 +292,115 @@ export const QRGenerator: React.FC<{ user: User, residents: Resident[] }> = ({ u
                 max="20"
                 className="w-full border p-3 pl-10 rounded-lg outline-none focus:ring-2 focus:ring-blue-500 text-sm"
                 value={quantity}
-                onChange={(e) => setQuantity(parseInt(e.target.value) || 1)}
+                onChange={(e) => handleQuantityChange(parseInt(e.target.value) || 1)}
               />
               <Users className="absolute left-3 top-3.5 text-gray-400" size={16} />
             </div>
             <p className="text-xs text-gray-400 mt-1">Opcional para grupos</p>
           </div>
+
+          {/* Max Uses (a recurring pass is limited by its window instead) */}
+          {!schedule && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Usos por Código</label>
+              <div className="relative">
+                <input
+                  type="number"
+                  min="1"
+                  max="50"
+                  className="w-full border p-3 pl-10 rounded-lg outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                  value={maxUses}
+                  onChange={(e) => setMaxUses(Math.max(1, parseInt(e.target.value) || 1))}
+                />
+                <Repeat className="absolute left-3 top-3.5 text-gray-400" size={16} />
+              </div>
+              <p className="text-xs text-gray-400 mt-1">Por defecto: un solo uso</p>
+            </div>
+          )}
+        </div>
+
+        {/* Allowed Access Points (only when the tenant has several) */}
+        {getGates(tenant).length > 1 && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Accesos permitidos</label>
+            <div className="flex flex-wrap gap-3">
+              {getGates(tenant).map(g => (
+                <label key={g.id} className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                  <input type="checkbox" checked={gateIds.includes(g.id)} onChange={() => toggleGate(g.id)} />
+                  {g.name}
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-gray-400 mt-1">{gateIds.length > 0 ? 'Solo se aceptará en los accesos marcados' : 'Por defecto: válido en todos los accesos'}</p>
+          </div>
+        )}
+
+        {/* Visitor Details (one per code) */}
+        <div className="space-y-3">
+          {visitors.map((visitor, index) => {
+            const rutError = visitor.rut.trim() !== '' && !isValidRut(visitor.rut);
+            return (
+              <div key={index} className="p-4 rounded-lg border border-gray-200 bg-gray-50/50 space-y-3">
+                <p className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+                  <IdCard size={16} className="text-blue-500" />
+                  Visitante{visitors.length > 1 ? ` #${index + 1}` : ''}
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <div>
+                    <label className="text-xs text-gray-500 mb-1 block">Nombre Completo <span className="text-red-400">*</span></label>
+                    <input 
+                      placeholder="Ej. Juan Pérez"
+                      className="w-full border p-2 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500 bg-white"
+                      value={visitor.name}
+                      onChange={(e) => updateVisitor(index, { name: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <label className="text-xs text-gray-500 mb-1 block">RUT <span className="text-gray-300">(Opc)</span></label>
+                    <input 
+                      placeholder="12.345.678-5"
+                      className={`w-full border p-2 rounded-lg text-sm outline-none focus:ring-2 bg-white ${rutError ? 'border-red-300 focus:ring-red-300' : 'focus:ring-blue-500'}`}
+                      value={visitor.rut}
+                      onChange={(e) => updateVisitor(index, { rut: e.target.value })}
+                      onBlur={() => visitor.rut.trim() && updateVisitor(index, { rut: formatRut(visitor.rut) })}
+                    />
+                    {rutError && <p className="text-xs text-red-500 mt-1">Dígito verificador incorrecto</p>}
+                  </div>
+                  <div>
+                    <label className="text-xs text-gray-500 mb-1 block">Patente <span className="text-gray-300">(Opc)</span></label>
+                    <div className="relative">
+                      <input 
+                        placeholder="ABC-123"
+                        className="w-full border p-2 pl-7 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500 uppercase bg-white"
+                        value={visitor.licensePlate}
+                        onChange={(e) => updateVisitor(index, { licensePlate: e.target.value.toUpperCase() })}
+                      />
+                      <Car size={14} className="absolute left-2 top-2.5 text-gray-400" />
+                    </div>
+                  </div>
+                  <div>
+                    <label className="text-xs text-gray-500 mb-1 block">Acompañantes</label>
+                    <input 
+                      type="number"
+                      min="0"
+                      max="20"
+                      className="w-full border p-2 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500 bg-white"
+                      value={visitor.companions}
+                      onChange={(e) => updateVisitor(index, { companions: Math.max(0, parseInt(e.target.value) || 0) })}
+                    />
+                  </div>
+                </div>
+              </div>
+            );
+          })}
         </div>
 
+        {formError && (
+          <p className="text-sm text-red-600 flex items-center gap-1 font-medium">
+            <AlertTriangle size={14} /> {formError}
+          </p>
+        )}
+
         <button 
           onClick={handleGenerate}
           disabled={!selectedResidentId}
@@ -177,25 +415,26 @@ export const QRGenerator: React.FC<{ user: User, residents: Resident[] }> = ({ u
         <div className="mt-8 space-y-8 animate-in fade-in slide-in-from-bottom-4">
           <div className="text-center p-4 bg-yellow-50 rounded-lg border border-yellow-100 text-sm text-yellow-800">
              <ShieldCheck size={20} className="mx-auto mb-1" />
-             Estos códigos son válidos únicamente para el condominio: <strong>{user.tenantId}</strong>
+             Estos códigos son válidos únicamente para el condominio: <strong>{tenant.name}</strong>
           </div>
 
           <div className="grid grid-cols-1 gap-6 justify-items-center">
             {generatedCodes.map((code, index) => (
               <div key={index} className="flex flex-col items-center p-6 bg-white rounded-xl border-2 border-dashed border-gray-300 w-full max-w-xs relative">
-                {quantity > 1 && (
+                {generatedCodes.length > 1 && (
                   <span className="absolute top-2 right-2 bg-gray-100 text-gray-600 text-xs font-bold px-2 py-1 rounded">
                     #{index + 1}
                   </span>
                 )}
                 <div className="bg-white p-2 mb-2">
                   <img 
-                    src={`https://api.qrserver.com/v1/create-qr-code/?size=150x150&data=${encodeURIComponent(code)}`} 
+                    src={code.image} 
                     alt="QR Code" 
                     className="w-40 h-40"
                   />
                 </div>
                 <div className="mt-2 text-center w-full">
+                   <p className="font-semibold text-gray-800 text-sm">{code.visitorName}</p>
                    <p className="text-[10px] text-gray-400 uppercase tracking-wider mb-2">Creado por {user.name}</p>
                    
                    <button 
@@ -206,6 +445,21 @@ export const QRGenerator: React.FC<{ user: User, residents: Resident[] }> = ({ u
                      <Share2 size={16} />
                      Compartir QR
                    </button>
+
+                   <div className="flex gap-2 mt-2">
+                     <button 
+                      onClick={() => handleDownloadPNG(code, index)}
+                      className="flex-1 flex items-center justify-center gap-1 border border-gray-200 text-gray-600 py-1.5 rounded-lg hover:bg-gray-50 transition-colors text-xs font-medium"
+                     >
+                       <Download size={14} /> PNG
+                     </button>
+                     <button 
+                      onClick={() => handleDownloadSVG(code, index)}
+                      className="flex-1 flex items-center justify-center gap-1 border border-gray-200 text-gray-600 py-1.5 rounded-lg hover:bg-gray-50 transition-colors text-xs font-medium"
+                     >
+                       <Download size={14} /> SVG
+                     </button>
+                   </div>
                 </div>
               </div>
             ))}
@@ -216,11 +470,28 @@ export const QRGenerator: React.FC<{ user: User, residents: Resident[] }> = ({ u
   );
 };
 
-// Sub-component for Validation (Role X, A)
-export const QRValidator: React.FC<{ user: User }> = ({ user }) => {
-  const [scanStatus, setScanStatus] = useState<'idle' | 'scanning' | 'valid' | 'invalid'>('idle');
+interface QRValidatorProps {
+  user: User;
+  can: PermissionCheck;
+  tenant: Tenant;
+  residents: Resident[]; // To apply the current recurring window of visitors registered with one
+  visits: Visit[];
+  invitations: Invitation[]; // To reject codes revoked after they were shared, or never recorded
+  visitActions: CollectionActions<Visit>; // Not audited per mutation: each scan outcome is recorded via onAudit
+  onAudit: AuditRecorder;
+  gateId?: string; // Gate bound to the guard's session
+  onBindGate: (gateId: string) => void;
+}
+
+// Sub-component for Validation ('qr.validate': Role X, A by default)
+export const QRValidator: React.FC<QRValidatorProps> = ({ user, can, tenant, residents, visits, invitations, visitActions, onAudit, gateId, onBindGate }) => {
+  const [scanStatus, setScanStatus] = useState<'idle' | 'scanning' | 'valid' | 'invalid' | 'checkout'>('idle');
   const [scannedData, setScannedData] = useState<QRPayload | null>(null);
   const [errorMsg, setErrorMsg] = useState('');
+  const [firstUse, setFirstUse] = useState<Visit | null>(null); // First entry, shown when a code was already used
+  const [remainingUses, setRemainingUses] = useState(0);
+  const [checkedOutVisit, setCheckedOutVisit] = useState<Visit | null>(null);
+  const [mode, setMode] = useState<'entry' | 'exit'>('entry'); // 'exit': every scan registers a departure
   
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -232,12 +503,16 @@ export const QRValidator: React.FC<{ user: User }> = ({ user }) => {
     };
   }, []);
 
-  if (!['X', 'A'].includes(user.role)) return <div className="p-4 text-red-500">Acceso denegado.</div>;
+  if (!can(user, 'qr.validate')) return <div className="p-4 text-red-500">Acceso denegado.</div>;
+
+  // With several access points, scans can't start until the guard says where they are (a single one is the default)
+  const needsGate = getGates(tenant).length > 1 && !gateId;
 
   const startScan = async () => {
     setScanStatus('scanning');
     setErrorMsg('');
     setScannedData(null);
+    setFirstUse(null);
 
     try {
       const stream = await navigator.mediaDevices.getUserMedia({ 
@@ -290,7 +565,7 @@ export const QRValidator: React.FC<{ user: User }> = ({ user }) => {
         if (code) {
           // Found a code!
           stopCamera();
-          validateQR(code.data);
+          void validateQR(code.data);
           return;
         }
       }
@@ -298,9 +573,27 @@ export const QRValidator: React.FC<{ user: User }> = ({ user }) => {
     requestRef.current = requestAnimationFrame(tick);
   };
 
-  const validateQR = (rawData: string) => {
+  // Every scan (accepted or rejected) is written to the visits log so the Dashboard reflects real gate traffic
+  const recordVisit = (status: ScanOutcome['status'], payload: QRPayload | null, rejectionReason?: string, rejectionCode?: RejectionCode) => {
+    const direction = mode === 'exit' ? 'exit' : undefined;
+    const visit = buildScanVisit({ status, payload, rejectionReason, rejectionCode, direction }, user, new Date(), gateId);
+    visitActions.save(visit);
+    return visit;
+  };
+
+  const rejectScan = (code: RejectionCode, message: string, payload: QRPayload | null) => {
+    setErrorMsg(message);
+    setScanStatus('invalid');
+    const visit = recordVisit('Rejected', payload, message, code);
+    onAudit({ action: 'qr_rejected', entity: 'visit', entityId: visit.id, summary: `${visit.direction === 'exit' ? 'Salida rechazada' : 'QR rechazado'} (${code}): ${visit.visitorName} — ${message}`, after: visit });
+  };
+
+  const validateQR = async (rawData: string) => {
+    let payload: QRPayload | null = null;
+
     try {
-      const payload: QRPayload = JSON.parse(rawData);
+      const decoded = decodeSignedQR(rawData);
+      payload = decoded.payload;
       
       // 1. Validate Structure
       if (!payload.tenantId || !payload.expiresAt || !payload.visitorName) {
@@ -309,25 +602,96 @@ export const QRValidator: React.FC<{ user: User }> = ({ user }) => {
 
       // 2. Validate Domain (Tenant Security)
       if (payload.tenantId !== user.tenantId) {
-        setErrorMsg(`Este código pertenece a otro condominio (Tenant: ${payload.tenantId}). Acceso prohibido.`);
-        setScanStatus('invalid');
+        rejectScan('tenant', `Este código pertenece a otro condominio (Tenant: ${payload.tenantId}). Acceso prohibido.`, payload);
         return;
       }
 
-      // 3. Validate Expiration
+      // 3. Validate Signature (forged or tampered codes)
+      if (!(await verifyQRSignature(decoded.envelope, tenant))) {
+        rejectScan('signature', "Firma inválida: el código fue alterado o no fue emitido por este condominio.", payload);
+        return;
+      }
+
+      // 4. Exit scan: register the departure of the holder instead of a new entry.
+      // Checked before expiry/usage so visitors who overstayed can still leave. In "Salida" mode every scan is an
+      // exit; in "Entrada" mode only for single-use codes, since a multi-use or recurring code may be letting in
+      // another guest while the previous one is still inside.
+      const qrId = payload.id;
+      const isSingleUse = !payload.schedule && (payload.maxUses ?? 1) === 1;
+      const openVisit = visits
+        .filter(v => v.tenantId === user.tenantId && v.qrId === qrId && v.checkInAt && !v.checkOutAt)
+        .sort((a, b) => a.checkInAt!.localeCompare(b.checkInAt!))[0];
+      if (mode === 'exit' && !openVisit) {
+        rejectScan('not_inside', 'No hay ninguna visita dentro con este código.', payload);
+        return;
+      }
+      if (openVisit && (mode === 'exit' || isSingleUse)) {
+        const checkedOut: Visit = { ...openVisit, status: 'Completed', checkOutAt: new Date().toISOString() };
+        visitActions.save(checkedOut);
+        onAudit({ action: 'qr_checkout', entity: 'visit', entityId: openVisit.id, summary: `Salida registrada por QR: ${openVisit.visitorName}`, before: openVisit, after: checkedOut });
+        setCheckedOutVisit(checkedOut);
+        setScannedData(payload);
+        setScanStatus('checkout');
+        return;
+      }
+
+      // 5. Validate Invitation Record (fail closed: a validly signed code the gate has no record of can't be
+      // checked for revocation, e.g. a device that hasn't synced yet) and Revocation (the issuer or an admin took it back)
+      const invitation = invitations.find(i => i.tenantId === user.tenantId && i.id === qrId);
+      if (!invitation) {
+        rejectScan('unknown', 'Código no registrado en este condominio. Si se acaba de generar, espera a que el dispositivo se sincronice e inténtalo de nuevo.', payload);
+        return;
+      }
+      if (invitation.revocation) {
+        rejectScan('revoked', formatRevocation(invitation.revocation), payload);
+        return;
+      }
+
+      // 6. Validate Gate (invitations restricted to some access points)
+      if (!isGateAllowed(payload, gateId)) {
+        const allowed = payload.gateIds!.map(id => getGateName(tenant, id)).join(', ');
+        rejectScan('gate', `Este código no es válido en ${getGateName(tenant, gateId)}. Accesos permitidos: ${allowed}.`, payload);
+        return;
+      }
+
+      // 7. Validate Expiration
       if (new Date(payload.expiresAt) < new Date()) {
-        setErrorMsg(`El código ha caducado el ${new Date(payload.expiresAt).toLocaleString()}.`);
-        setScanStatus('invalid');
+        rejectScan('expired', `El código ha caducado el ${new Date(payload.expiresAt).toLocaleString()}.`, payload);
+        return;
+      }
+
+      // 8. Validate Schedule ("fuera de horario"): the pass's own window and, for a visitor registered
+      // with one, the visitor's current window (so later changes apply to codes already shared)
+      const host = residents.find(r => r.id === payload!.residentId);
+      const windows = [payload.schedule, host?.type === 'Visitor' ? host.schedule : undefined];
+      const scheduleError = windows.map(w => w && getScheduleError(w, new Date(), tenant)).find(Boolean);
+      if (scheduleError) {
+        rejectScan('schedule', scheduleError, payload);
         return;
       }
 
-      // 4. Success
+      // 9. Validate Usage (entries in the synced visit log). Recurring passes are limited by their window instead.
+      const maxUses = payload.schedule ? Infinity : payload.maxUses ?? 1;
+      const previousUses = findCodeEntries(qrId, visits.filter(v => v.tenantId === user.tenantId));
+
+      if (previousUses.length >= maxUses) {
+        setFirstUse(previousUses[0]);
+        rejectScan('used', maxUses === 1
+          ? "Código ya utilizado."
+          : `Código ya utilizado: alcanzó su límite de ${maxUses} usos.`, payload);
+        return;
+      }
+
+      // 10. Success: record the visit (check-in), which also counts as a use of the code
+      const visit = recordVisit('Approved', payload);
+      onAudit({ action: 'qr_accepted', entity: 'visit', entityId: visit.id, summary: `QR aceptado: ${visit.visitorName} (Unidad ${payload.residentUnit})`, after: visit });
+
+      setRemainingUses(maxUses - previousUses.length - 1);
       setScannedData(payload);
       setScanStatus('valid');
 
     } catch (e) {
-      setErrorMsg("El código QR escaneado no es compatible con el sistema CondoGuard.");
-      setScanStatus('invalid');
+      rejectScan('format', "El código QR escaneado no es compatible con el sistema CondoGuard.", payload);
     }
   };
 
@@ -336,6 +700,8 @@ export const QRValidator: React.FC<{ user: User }> = ({ user }) => {
     setScanStatus('idle');
     setScannedData(null);
     setErrorMsg('');
+    setFirstUse(null);
+    setCheckedOutVisit(null);
   };
 
   const formatDate = (iso: string) => {
@@ -349,6 +715,25 @@ export const QRValidator: React.FC<{ user: User }> = ({ user }) => {
         <p className="text-gray-500">Escanear código QR del visitante</p>
       </div>
 
+      {getGates(tenant).length > 1 && (
+        <div className="mb-4">
+          <GatePicker tenant={tenant} gateId={gateId} onBindGate={onBindGate} />
+        </div>
+      )}
+
+      <div className="flex rounded-lg border border-gray-200 overflow-hidden text-sm mb-4">
+        {([['entry', 'Entrada'], ['exit', 'Salida']] as const).map(([value, label]) => (
+          <button
+            key={value}
+            onClick={() => setMode(value)}
+            disabled={scanStatus === 'scanning'}
+            className={`flex-1 py-2 font-medium flex items-center justify-center gap-2 ${mode === value ? 'bg-gray-800 text-white' : 'text-gray-600 hover:bg-gray-50'} disabled:cursor-not-allowed`}
+          >
+            {value === 'entry' ? <Scan size={16} /> : <LogOut size={16} />} {label}
+          </button>
+        ))}
+      </div>
+
       <div className="relative aspect-square bg-gray-900 rounded-2xl overflow-hidden mb-6 group shadow-inner">
         {scanStatus === 'scanning' ? (
              <div className="absolute inset-0 flex flex-col items-center justify-center z-10">
@@ -381,7 +766,8 @@ export const QRValidator: React.FC<{ user: User }> = ({ user }) => {
         {scanStatus === 'idle' && (
           <button 
             onClick={startScan}
-            className="bg-gray-800 text-white px-8 py-3 rounded-full hover:bg-gray-700 transition-all flex items-center gap-2 shadow-lg hover:shadow-xl transform hover:-translate-y-1"
+            disabled={needsGate}
+            className="bg-gray-800 text-white px-8 py-3 rounded-full hover:bg-gray-700 transition-all flex items-center gap-2 shadow-lg hover:shadow-xl transform hover:-translate-y-1 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
           >
             <Camera size={20} /> Activar Cámara
           </button>
@@ -407,6 +793,24 @@ export const QRValidator: React.FC<{ user: User }> = ({ user }) => {
                  <span className="text-gray-500">Visitante:</span>
                  <span className="font-bold">{scannedData.visitorName}</span>
                </div>
+               {scannedData.visitorRut && (
+                 <div className="flex justify-between border-b border-green-200 pb-2">
+                   <span className="text-gray-500">RUT:</span>
+                   <span className="font-mono font-bold">{scannedData.visitorRut}</span>
+                 </div>
+               )}
+               {scannedData.licensePlate && (
+                 <div className="flex justify-between border-b border-green-200 pb-2">
+                   <span className="text-gray-500">Patente:</span>
+                   <span className="font-mono bg-white px-2 rounded border border-green-200">{scannedData.licensePlate}</span>
+                 </div>
+               )}
+               {!!scannedData.companions && (
+                 <div className="flex justify-between border-b border-green-200 pb-2">
+                   <span className="text-gray-500">Acompañantes:</span>
+                   <span className="font-bold">{scannedData.companions}</span>
+                 </div>
+               )}
                <div className="flex justify-between border-b border-green-200 pb-2">
                  <span className="text-gray-500">A residencia:</span>
                  <span>{scannedData.residentName} ({scannedData.residentUnit})</span>
@@ -418,13 +822,26 @@ export const QRValidator: React.FC<{ user: User }> = ({ user }) => {
                     <UserIcon size={10} /> Creado por
                   </p>
                   <p className="font-medium text-blue-900">{scannedData.createdBy.name}</p>
-                  <p className="text-xs text-gray-500">{scannedData.createdBy.role === 'B' ? 'Propietario' : 'Administrador'}</p>
+                  <p className="text-xs text-gray-500">{ROLE_LABELS[scannedData.createdBy.role as Role] || scannedData.createdBy.role}</p>
                </div>
 
-               {/* EXPIRATION INFO */}
-               <div className="flex items-center justify-end gap-1 text-xs text-gray-500 pt-1">
-                 <Calendar size={12} />
-                 Vence: <span className="font-mono text-gray-700">{formatDate(scannedData.expiresAt)}</span>
+               {/* EXPIRATION / USAGE INFO */}
+               <div className="flex items-center justify-between gap-1 text-xs text-gray-500 pt-1">
+                 {scannedData.schedule ? (
+                   <span className="flex items-center gap-1">
+                     <CalendarClock size={12} />
+                     <span className="text-gray-700">{formatSchedule({ ...scannedData.schedule, startDate: undefined, endDate: undefined })}</span>
+                   </span>
+                 ) : (
+                   <span className="flex items-center gap-1">
+                     <Repeat size={12} />
+                     Usos restantes: <span className="font-mono text-gray-700">{remainingUses}</span>
+                   </span>
+                 )}
+                 <span className="flex items-center gap-1">
+                   <Calendar size={12} />
+                   Vence: <span className="font-mono text-gray-700">{formatDate(scannedData.expiresAt)}</span>
+                 </span>
                </div>
             </div>
 
@@ -434,14 +851,44 @@ export const QRValidator: React.FC<{ user: User }> = ({ user }) => {
           </div>
         )}
 
+        {scanStatus === 'checkout' && scannedData && checkedOutVisit && (
+          <div className="w-full animate-in zoom-in duration-300 bg-blue-50 rounded-xl p-5 border border-blue-200">
+            <div className="flex items-center justify-center gap-2 text-blue-700 text-xl font-bold mb-4">
+                <LogOut size={28} /> Salida Registrada
+            </div>
+            <div className="space-y-3 text-sm text-gray-700">
+               <div className="flex justify-between border-b border-blue-200 pb-2">
+                 <span className="text-gray-500">Visitante:</span>
+                 <span className="font-bold">{scannedData.visitorName}</span>
+               </div>
+               <div className="flex justify-between border-b border-blue-200 pb-2">
+                 <span className="text-gray-500">Ingreso:</span>
+                 <span className="font-mono">{formatDate(checkedOutVisit.checkInAt!)}</span>
+               </div>
+               <div className="flex justify-between">
+                 <span className="text-gray-500">Salida:</span>
+                 <span className="font-mono">{formatDate(checkedOutVisit.checkOutAt!)}</span>
+               </div>
+            </div>
+            <button onClick={resetScanner} className="w-full mt-4 bg-blue-600 text-white py-2 rounded-lg hover:bg-blue-700 text-sm">
+              Escanear otro
+            </button>
+          </div>
+        )}
+
         {scanStatus === 'invalid' && (
            <div className="w-full animate-in shake duration-300 bg-red-50 rounded-xl p-5 border border-red-200 text-center">
              <div className="flex items-center justify-center gap-2 text-red-600 text-xl font-bold mb-2">
-                 <XCircle size={28} /> Acceso Rechazado
+                 <XCircle size={28} /> {mode === 'exit' ? 'Salida no registrada' : 'Acceso Rechazado'}
              </div>
              <div className="flex flex-col items-center gap-2 mb-4">
                <AlertTriangle className="text-orange-500" size={32} />
                <p className="text-sm text-gray-800 font-bold">{errorMsg}</p>
+               {firstUse && (
+                 <p className="text-xs text-gray-600 bg-white border border-red-100 rounded-lg px-3 py-2">
+                   Primer uso: <span className="font-mono">{formatDate(firstUse.checkInAt!)}</span>{firstUse.guard && <> por <span className="font-medium">{firstUse.guard.name}</span></>}
+                 </p>
+               )}
              </div>
              
              <button onClick={resetScanner} className="text-sm underline text-red-500 hover:text-red-700">
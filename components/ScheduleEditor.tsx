@@ -0,0 +1,55 @@
+import React from 'react';
+import { AccessSchedule } from '../types';
+import { WEEKDAYS } from '../schedule';
+
+interface ScheduleEditorProps {
+  value: AccessSchedule;
+  onChange: (schedule: AccessSchedule) => void;
+  requireEndDate?: boolean; // Recurring QR passes always end
+  compact?: boolean; // Two columns, for table cells
+}
+
+// Weekdays, time range and optional start/end dates of a recurring access window
+const ScheduleEditor: React.FC<ScheduleEditorProps> = ({ value, onChange, requireEndDate, compact }) => {
+  const toggleDay = (day: number) =>
+    onChange({ ...value, days: value.days.includes(day) ? value.days.filter(d => d !== day) : [...value.days, day] });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-1.5">
+        {WEEKDAYS.map(w => (
+          <button
+            key={w.day}
+            type="button"
+            onClick={() => toggleDay(w.day)}
+            className={`w-11 py-1.5 rounded-lg text-xs font-medium border transition-colors ${value.days.includes(w.day) ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-50'}`}
+          >
+            {w.label}
+          </button>
+        ))}
+      </div>
+      <div className={`grid grid-cols-2 ${compact ? '' : 'md:grid-cols-4'} gap-3`}>
+        <div>
+          <label className="text-xs text-gray-500 mb-1 block">Desde las</label>
+          <input type="time" value={value.from} onChange={e => onChange({ ...value, from: e.target.value })} className="w-full border p-2 rounded-lg text-sm outline-none focus:border-blue-500 bg-white" />
+        </div>
+        <div>
+          <label className="text-xs text-gray-500 mb-1 block">Hasta las</label>
+          <input type="time" value={value.to} onChange={e => onChange({ ...value, to: e.target.value })} className="w-full border p-2 rounded-lg text-sm outline-none focus:border-blue-500 bg-white" />
+        </div>
+        <div>
+          <label className="text-xs text-gray-500 mb-1 block">Primer día <span className="text-gray-300">(Opc)</span></label>
+          <input type="date" value={value.startDate || ''} onChange={e => onChange({ ...value, startDate: e.target.value || undefined })} className="w-full border p-2 rounded-lg text-sm outline-none focus:border-blue-500 bg-white" />
+        </div>
+        <div>
+          <label className="text-xs text-gray-500 mb-1 block">
+            Último día {requireEndDate ? <span className="text-red-400">*</span> : <span className="text-gray-300">(Opc)</span>}
+          </label>
+          <input type="date" value={value.endDate || ''} onChange={e => onChange({ ...value, endDate: e.target.value || undefined })} className="w-full border p-2 rounded-lg text-sm outline-none focus:border-blue-500 bg-white" />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScheduleEditor;
@@ -0,0 +1,234 @@
+import React, { useState, useEffect } from 'react';
+import { User, UserCredential } from '../types';
+import { generateSalt, hashSecret, verifySecret, isValidPin, MIN_PASSWORD_LENGTH } from '../auth';
+import { DATA_BACKEND, API_BASE_URL, fetchSecurityStatus, changePasswordOnServer, setPinOnServer } from '../data';
+import { AuditRecorder } from '../audit';
+import { PermissionCheck } from '../permissions';
+import { Lock, KeyRound, LogOut, Save, CheckCircle, AlertCircle } from 'lucide-react';
+
+interface SecuritySettingsProps {
+  user: User;
+  can: PermissionCheck;
+  credentials: UserCredential[];
+  setCredentials: (value: UserCredential[] | ((val: UserCredential[]) => UserCredential[])) => void;
+  activeSessionCount: number;
+  onLogoutAllSessions: () => void;
+  onAudit: AuditRecorder;
+}
+
+// Self-service credentials: password change, tablet PIN and global logout.
+// With the API server the credentials live there (this browser's copy is only the demo seed), so changes go through it.
+const SecuritySettings: React.FC<SecuritySettingsProps> = ({ user, can, credentials, setCredentials, activeSessionCount, onLogoutAllSessions, onAudit }) => {
+  const [passwordForm, setPasswordForm] = useState({ current: '', next: '', confirm: '' });
+  const [pin, setPin] = useState('');
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+
+  const [serverStatus, setServerStatus] = useState<{ hasPin: boolean; activeSessionCount: number } | null>(null);
+  const onServer = DATA_BACKEND === 'http';
+
+  useEffect(() => {
+    if (!onServer) return;
+    fetchSecurityStatus(API_BASE_URL)
+      .then(status => setServerStatus(status || null))
+      .catch(error => console.warn('Error loading account security status:', error));
+  }, [onServer]);
+
+  const credential = credentials.find(c => c.userId === user.id);
+  const hasCredential = onServer ? !!serverStatus : !!credential;
+  const hasPin = onServer ? !!serverStatus?.hasPin : !!credential?.pinHash;
+  const sessionCount = onServer ? serverStatus?.activeSessionCount ?? activeSessionCount : activeSessionCount;
+  // PIN login is meant for shared guard tablets
+  const canUsePin = can(user, 'auth.pin');
+
+  // Secrets (hashes, salts) are never copied into the audit trail
+  const updateCredential = (changes: Partial<UserCredential>, summary: string) => {
+    setCredentials(prev => prev.map(c => c.userId === user.id ? { ...c, ...changes } : c));
+    onAudit({ action: 'update', entity: 'credential', entityId: user.id, summary });
+  };
+
+  // Server-side PIN change; the status is kept locally so the form reflects it without refetching
+  const updatePinOnServer = async (pin: string | null, summary: string) => {
+    const result = await setPinOnServer(API_BASE_URL, pin);
+    if ('error' in result) {
+      setMessage({ type: 'error', text: result.error });
+      return false;
+    }
+    setServerStatus(prev => prev && { ...prev, hasPin: pin !== null });
+    onAudit({ action: 'update', entity: 'credential', entityId: user.id, summary });
+    return true;
+  };
+
+  const handleChangePassword = async () => {
+    if (onServer) {
+      if (passwordForm.next !== passwordForm.confirm) {
+        setMessage({ type: 'error', text: 'Las contraseñas no coinciden.' });
+        return;
+      }
+      const result = await changePasswordOnServer(API_BASE_URL, passwordForm.current, passwordForm.next);
+      if ('error' in result) {
+        setMessage({ type: 'error', text: result.error });
+        return;
+      }
+      onAudit({ action: 'update', entity: 'credential', entityId: user.id, summary: `Contraseña cambiada: ${user.name}` });
+      // The server closed the user's other sessions
+      setServerStatus(prev => prev && { ...prev, activeSessionCount: 1 });
+      setPasswordForm({ current: '', next: '', confirm: '' });
+      setMessage({ type: 'success', text: 'Contraseña actualizada. Se cerraron tus otras sesiones.' });
+      return;
+    }
+
+    if (!credential) return;
+    if (!(await verifySecret(passwordForm.current, credential.passwordSalt, credential.passwordHash))) {
+      setMessage({ type: 'error', text: 'La contraseña actual no es correcta.' });
+      return;
+    }
+    if (passwordForm.next.length < MIN_PASSWORD_LENGTH) {
+      setMessage({ type: 'error', text: `La nueva contraseña debe tener al menos ${MIN_PASSWORD_LENGTH} caracteres.` });
+      return;
+    }
+    if (passwordForm.next !== passwordForm.confirm) {
+      setMessage({ type: 'error', text: 'Las contraseñas no coinciden.' });
+      return;
+    }
+
+    const passwordSalt = generateSalt();
+    updateCredential({ passwordSalt, passwordHash: await hashSecret(passwordForm.next, passwordSalt) }, `Contraseña cambiada: ${user.name}`);
+    setPasswordForm({ current: '', next: '', confirm: '' });
+    setMessage({ type: 'success', text: 'Contraseña actualizada.' });
+  };
+
+  const handleSavePin = async () => {
+    if (!isValidPin(pin)) {
+      setMessage({ type: 'error', text: 'El PIN debe tener entre 4 y 6 dígitos.' });
+      return;
+    }
+    if (onServer) {
+      if (!(await updatePinOnServer(pin, `PIN configurado: ${user.name}`))) return;
+    } else {
+      const pinSalt = generateSalt();
+      updateCredential({ pinSalt, pinHash: await hashSecret(pin, pinSalt) }, `PIN configurado: ${user.name}`);
+    }
+    setPin('');
+    setMessage({ type: 'success', text: 'PIN configurado.' });
+  };
+
+  const handleRemovePin = async () => {
+    if (onServer) {
+      if (!(await updatePinOnServer(null, `PIN eliminado: ${user.name}`))) return;
+    } else {
+      updateCredential({ pinSalt: undefined, pinHash: undefined }, `PIN eliminado: ${user.name}`);
+    }
+    setMessage({ type: 'success', text: 'PIN eliminado.' });
+  };
+
+  if (!hasCredential) {
+    return (
+      <div className="p-3 bg-yellow-50 border border-yellow-100 rounded-lg text-yellow-800 text-sm">
+        Este usuario aún no tiene credenciales configuradas.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-5 border-t border-gray-100 pt-6">
+      <h4 className="font-bold text-gray-800 flex items-center gap-2">
+        <Lock size={18} className="text-blue-600" /> Seguridad de la Cuenta
+      </h4>
+
+      {message && (
+        <p className={`text-sm flex items-center gap-1 font-medium ${message.type === 'error' ? 'text-red-600' : 'text-green-600'}`}>
+          {message.type === 'error' ? <AlertCircle size={14} /> : <CheckCircle size={14} />} {message.text}
+        </p>
+      )}
+
+      {/* Password */}
+      <div className="space-y-2">
+        <label className="block text-sm font-medium text-gray-700">Cambiar Contraseña</label>
+        <input
+          type="password"
+          autoComplete="current-password"
+          placeholder="Contraseña actual"
+          className="w-full border p-3 rounded-lg outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+          value={passwordForm.current}
+          onChange={e => setPasswordForm({ ...passwordForm, current: e.target.value })}
+        />
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          <input
+            type="password"
+            autoComplete="new-password"
+            placeholder="Nueva contraseña"
+            className="w-full border p-3 rounded-lg outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+            value={passwordForm.next}
+            onChange={e => setPasswordForm({ ...passwordForm, next: e.target.value })}
+          />
+          <input
+            type="password"
+            autoComplete="new-password"
+            placeholder="Confirmar contraseña"
+            className="w-full border p-3 rounded-lg outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+            value={passwordForm.confirm}
+            onChange={e => setPasswordForm({ ...passwordForm, confirm: e.target.value })}
+          />
+        </div>
+        <button
+          onClick={handleChangePassword}
+          disabled={!passwordForm.current || !passwordForm.next}
+          className="px-4 py-2 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 transition-colors flex items-center gap-2 disabled:opacity-50"
+        >
+          <Save size={16} /> Actualizar Contraseña
+        </button>
+      </div>
+
+      {/* PIN (guard tablets) */}
+      {canUsePin && (
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-700">
+            PIN de Tablet {hasPin ? <span className="text-xs text-green-600">(configurado)</span> : <span className="text-xs text-gray-400">(sin configurar)</span>}
+          </label>
+          <div className="flex gap-2">
+            <div className="relative flex-1">
+              <input
+                type="password"
+                inputMode="numeric"
+                maxLength={6}
+                placeholder="4-6 dígitos"
+                className="w-full border p-3 pl-10 rounded-lg outline-none focus:ring-2 focus:ring-blue-500 text-sm font-mono"
+                value={pin}
+                onChange={e => setPin(e.target.value.replace(/\D/g, ''))}
+              />
+              <KeyRound className="absolute left-3 top-3.5 text-gray-400" size={16} />
+            </div>
+            <button
+              onClick={handleSavePin}
+              disabled={!pin}
+              className="px-4 py-2 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              Guardar
+            </button>
+            {hasPin && (
+              <button
+                onClick={handleRemovePin}
+                className="px-4 py-2 rounded-lg border border-red-200 text-red-600 text-sm font-medium hover:bg-red-50 transition-colors"
+              >
+                Quitar
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Sessions */}
+      <div className="flex items-center justify-between bg-gray-50 p-3 rounded-lg border border-gray-100">
+        <span className="text-sm text-gray-600">Sesiones activas: <strong>{sessionCount}</strong></span>
+        <button
+          onClick={onLogoutAllSessions}
+          className="flex items-center gap-1 text-red-600 text-sm font-medium hover:bg-red-50 px-3 py-1.5 rounded transition-colors"
+        >
+          <LogOut size={16} /> Cerrar todas las sesiones
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SecuritySettings;
@@ -1,9 +1,13 @@
 import React from 'react';
-import { Users, QrCode, ScanLine, ShieldCheck, LogOut, X, Home, Settings, PanelLeft } from 'lucide-react';
-import { User } from '../types';
+import { Users, QrCode, ScanLine, ShieldCheck, LogOut, X, Home, Settings, PanelLeft, ClipboardList, Building, Building2, KeyRound, DoorOpen } from 'lucide-react';
+import { User, Tenant, Capability } from '../types';
+import { getBrandName } from '../branding';
+import { PermissionCheck, ANY_RESOURCE, ROLE_LABELS } from '../permissions';
 
 interface SidebarProps {
   user: User;
+  tenant?: Tenant;
+  can: PermissionCheck;
   isOpen: boolean;
   activeTab: string;
   onTabChange: (tab: string) => void;
@@ -11,45 +15,53 @@ interface SidebarProps {
   onToggle: () => void;
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ user, isOpen, activeTab, onTabChange, onLogout, onToggle }) => {
-  // Dynamic labels based on Role
-  const residentsLabel = user.role === 'B' ? 'Mi Familia' : 'Directorio / Búsqueda';
+const Sidebar: React.FC<SidebarProps> = ({ user, tenant, can, isOpen, activeTab, onTabChange, onLogout, onToggle }) => {
+  // Dynamic labels based on the user's permissions
+  const residentsLabel = can(user, 'resident.view', ANY_RESOURCE) ? 'Directorio / Búsqueda' : 'Mi Familia';
   
-  const menuItems = [
-    { id: 'dashboard', label: 'Inicio', icon: Home, roles: ['X', 'A', 'B'] },
-    { id: 'users', label: residentsLabel, icon: Users, roles: ['X', 'A', 'B'] },
-    { id: 'generate-qr', label: 'Generar Invitación', icon: QrCode, roles: ['X', 'B'] }, // Residents and Admins generate
-    { id: 'validate-qr', label: 'Portería / Escáner', icon: ScanLine, roles: ['X', 'A'] }, // Security checks
-    { id: 'profile', label: user.role === 'X' ? 'Usuarios / Perfil' : 'Mi Perfil', icon: Settings, roles: ['X', 'A', 'B'] },
+  // Items without a capability are available to everyone
+  const menuItems: { id: string; label: string; icon: typeof Home; capability?: Capability; superAdminOnly?: boolean }[] = [
+    { id: 'dashboard', label: 'Inicio', icon: Home },
+    { id: 'users', label: residentsLabel, icon: Users, capability: 'resident.view' },
+    { id: 'units', label: can(user, 'unit.view', ANY_RESOURCE) ? 'Unidades' : 'Mi Unidad', icon: DoorOpen, capability: 'unit.view' },
+    { id: 'generate-qr', label: 'Generar Invitación', icon: QrCode, capability: 'qr.generate' },
+    { id: 'validate-qr', label: 'Portería / Escáner', icon: ScanLine, capability: 'qr.validate' },
+    { id: 'audit', label: 'Auditoría', icon: ClipboardList, capability: 'audit.view' },
+    { id: 'site', label: 'Torres y Accesos', icon: Building, capability: 'tenant.settings' },
+    { id: 'permissions', label: 'Permisos', icon: KeyRound, capability: 'permission.manage' },
+    { id: 'tenants', label: 'Condominios', icon: Building2, superAdminOnly: true },
+    { id: 'profile', label: can(user, 'user.edit', ANY_RESOURCE) ? 'Usuarios / Perfil' : 'Mi Perfil', icon: Settings },
   ];
 
   return (
     <aside 
       className={`
-        bg-blue-900 text-white flex flex-col transition-all duration-300 ease-in-out
+        bg-brand-900 text-white flex flex-col transition-all duration-300 ease-in-out
         ${isOpen ? 'w-64 translate-x-0' : 'w-0 -translate-x-full opacity-0 overflow-hidden'}
-        fixed md:relative z-20 h-full border-r border-blue-800
+        fixed md:relative z-20 h-full border-r border-brand-800
       `}
     >
-      <div className="p-6 flex items-center gap-3 border-b border-blue-800">
+      <div className="p-6 flex items-center gap-3 border-b border-brand-800">
         <button 
           onClick={onToggle}
-          className="text-blue-300 hover:text-white transition-colors p-1 rounded hover:bg-blue-800"
+          className="text-brand-300 hover:text-white transition-colors p-1 rounded hover:bg-brand-800"
           title="Cerrar menú"
         >
           <PanelLeft size={24} />
         </button>
         <div className="flex items-center gap-3">
-          <ShieldCheck className="w-8 h-8 text-blue-400" />
-          <div>
-            <h1 className="font-bold text-xl tracking-tight">MiVilla</h1>
-            <p className="text-xs text-blue-300">Tenant: {user.tenantId}</p>
+          {tenant?.logo
+            ? <img src={tenant.logo} alt={tenant.name} className="w-8 h-8 rounded bg-white object-contain p-0.5" />
+            : <ShieldCheck className="w-8 h-8 text-brand-400" />}
+          <div className="min-w-0">
+            <h1 className="font-bold text-xl tracking-tight truncate">{getBrandName(tenant)}</h1>
+            <p className="text-xs text-brand-300 truncate">{tenant?.name || user.tenantId}</p>
           </div>
         </div>
       </div>
 
       <nav className="flex-1 p-4 space-y-2 overflow-y-auto">
-        {menuItems.filter(item => item.roles.includes(user.role)).map((item) => {
+        {menuItems.filter(item => (!item.capability || can(user, item.capability)) && (!item.superAdminOnly || user.superAdmin)).map((item) => {
           const Icon = item.icon;
           const isActive = activeTab === item.id;
           return (
@@ -58,7 +70,7 @@ const Sidebar: React.FC<SidebarProps> = ({ user, isOpen, activeTab, onTabChange,
               onClick={() => onTabChange(item.id)}
               className={`
                 w-full flex items-center gap-3 px-4 py-3 rounded-lg transition-colors
-                ${isActive ? 'bg-blue-700 text-white shadow-md' : 'text-blue-100 hover:bg-blue-800 hover:text-white'}
+                ${isActive ? 'bg-brand-700 text-white shadow-md' : 'text-brand-100 hover:bg-brand-800 hover:text-white'}
               `}
             >
               <Icon size={20} />
@@ -68,16 +80,12 @@ const Sidebar: React.FC<SidebarProps> = ({ user, isOpen, activeTab, onTabChange,
         })}
       </nav>
 
-      <div className="p-4 border-t border-blue-800">
+      <div className="p-4 border-t border-brand-800">
         <div className="flex items-center gap-3 mb-4 px-2">
-          <img src={user.avatar} alt="User" className="w-8 h-8 rounded-full border border-blue-400 bg-blue-800 object-cover" />
+          <img src={user.avatar} alt="User" className="w-8 h-8 rounded-full border border-brand-400 bg-brand-800 object-cover" />
           <div className="overflow-hidden">
             <p className="text-sm font-semibold truncate">{user.name}</p>
-            <p className="text-xs text-blue-300">
-              {user.role === 'X' && 'Administrador'}
-              {user.role === 'A' && 'Portería'}
-              {user.role === 'B' && 'Residente'}
-            </p>
+            <p className="text-xs text-brand-300">{ROLE_LABELS[user.role]}</p>
           </div>
         </div>
         <button 
@@ -0,0 +1,151 @@
+import React, { useState, useEffect } from 'react';
+import { User, Tenant, Unit, Tower, AccessGate } from '../types';
+import { Building, MapPin, Plus, Trash2, Save, AlertCircle, CheckCircle } from 'lucide-react';
+import { CollectionActions } from '../hooks';
+import { PermissionCheck } from '../permissions';
+import { getTowers, getGates, isTowerInUse, validateSiteLayout } from '../site';
+
+interface SiteAdminProps {
+  user: User;
+  can: PermissionCheck;
+  tenant: Tenant;
+  tenantActions: CollectionActions<Tenant>;
+  units: Unit[];
+}
+
+type SiteItem = Tower | AccessGate;
+
+interface SiteListProps {
+  title: string;
+  icon: typeof Building;
+  description: string;
+  placeholder: string;
+  items: SiteItem[];
+  onChange: (items: SiteItem[]) => void;
+  lockedIds?: string[]; // Items that can be renamed but not removed
+  lockedReason?: string;
+}
+
+const SiteList: React.FC<SiteListProps> = ({ title, icon: Icon, description, placeholder, items, onChange, lockedIds = [], lockedReason }) => (
+  <section className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+    <div>
+      <h3 className="font-semibold text-gray-800 flex items-center gap-2"><Icon size={18} className="text-blue-600" /> {title}</h3>
+      <p className="text-sm text-gray-500">{description}</p>
+    </div>
+    {items.length === 0 && <p className="text-sm text-gray-400">Sin {title.toLowerCase()} definidos.</p>}
+    <ul className="space-y-2">
+      {items.map(item => {
+        const locked = lockedIds.includes(item.id);
+        return (
+          <li key={item.id} className="flex items-center gap-2">
+            <input
+              value={item.name}
+              onChange={e => onChange(items.map(i => i.id === item.id ? { ...i, name: e.target.value } : i))}
+              placeholder={placeholder}
+              className="flex-1 border p-2 rounded-lg text-sm outline-none focus:border-blue-500"
+            />
+            <button
+              onClick={() => onChange(items.filter(i => i.id !== item.id))}
+              disabled={locked}
+              title={locked ? lockedReason : 'Eliminar'}
+              className="p-2 rounded-lg text-gray-400 hover:text-red-600 hover:bg-red-50 disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-gray-400"
+            >
+              <Trash2 size={16} />
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+    <button
+      onClick={() => onChange([...items, { id: crypto.randomUUID(), name: '' }])}
+      className="px-3 py-1.5 rounded-lg border border-gray-300 text-gray-700 text-sm font-medium hover:bg-gray-50 flex items-center gap-2"
+    >
+      <Plus size={14} /> Agregar
+    </button>
+  </section>
+);
+
+// Towers/blocks that group the units and the named access points guards work at ('tenant.settings')
+const SiteAdmin: React.FC<SiteAdminProps> = ({ user, can, tenant, tenantActions, units }) => {
+  const [towers, setTowers] = useState<Tower[]>(() => getTowers(tenant));
+  const [gates, setGates] = useState<AccessGate[]>(() => getGates(tenant));
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+
+  // Saved changes (or another admin's, via sync) replace the draft
+  useEffect(() => {
+    setTowers(getTowers(tenant));
+    setGates(getGates(tenant));
+  }, [tenant.towers, tenant.gates]);
+
+  if (!can(user, 'tenant.settings')) return <div className="p-4 text-red-500">Acceso denegado.</div>;
+
+  const isDirty = JSON.stringify({ towers, gates }) !== JSON.stringify({ towers: getTowers(tenant), gates: getGates(tenant) });
+
+  const handleSave = () => {
+    const next = {
+      towers: towers.map(t => ({ ...t, name: t.name.trim() })),
+      gates: gates.map(g => ({ ...g, name: g.name.trim() })),
+    };
+    const error = validateSiteLayout(next.towers, next.gates);
+    if (error) {
+      setMessage({ type: 'error', text: error });
+      return;
+    }
+    tenantActions.update(tenant.id, next);
+    setMessage({ type: 'success', text: 'Torres y accesos actualizados.' });
+  };
+
+  const update = <T,>(setter: (items: T) => void) => (items: T) => {
+    setMessage(null);
+    setter(items);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+            <Building className="text-blue-600" /> Torres y Accesos
+          </h2>
+          <p className="text-gray-500 text-sm">Cómo se organiza {tenant.name}: torres o bloques de unidades y los accesos donde trabaja portería.</p>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={!isDirty}
+          className="px-4 py-2 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 transition-colors flex items-center gap-2 disabled:opacity-50"
+        >
+          <Save size={16} /> Guardar
+        </button>
+      </div>
+
+      {message && (
+        <div className={`p-3 rounded-lg text-sm flex items-center gap-2 ${message.type === 'success' ? 'bg-green-50 text-green-700 border border-green-100' : 'bg-red-50 text-red-700 border border-red-100'}`}>
+          {message.type === 'success' ? <CheckCircle size={16} /> : <AlertCircle size={16} />} {message.text}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <SiteList
+          title="Torres"
+          icon={Building}
+          description="Agrupan las unidades. Se asignan al editar cada unidad."
+          placeholder="Ej. A"
+          items={towers}
+          onChange={update(setTowers)}
+          lockedIds={towers.filter(t => isTowerInUse(t.id, units)).map(t => t.id)}
+          lockedReason="Tiene unidades asignadas"
+        />
+        <SiteList
+          title="Accesos"
+          icon={MapPin}
+          description="Portones y entradas. Cada guardia elige el suyo al iniciar turno y las invitaciones pueden limitarse a algunos."
+          placeholder="Ej. Acceso principal"
+          items={gates}
+          onChange={update(setGates)}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default SiteAdmin;
@@ -0,0 +1,444 @@
+import React, { useState, useRef } from 'react';
+import { User, Tenant, UserCredential } from '../types';
+import { Building2, Plus, Edit2, Save, X, Power, UserPlus, AlertCircle, Upload, Globe, MapPin, Clock, CheckCircle } from 'lucide-react';
+import { CollectionActions } from '../hooks';
+import { AuditRecorder } from '../audit';
+import { DEFAULT_TENANT_TIMEZONE } from '../constants';
+import { validateTenant, isTenantActive } from '../tenants';
+import { generateQrKeyPair } from '../qrSecurity';
+import { generateSalt, hashSecret, MIN_PASSWORD_LENGTH } from '../auth';
+import { DATA_BACKEND, API_BASE_URL, provisionAdminOnServer } from '../data';
+import { DEFAULT_BRAND_COLOR, DEFAULT_BRAND_NAME, isValidHexColor } from '../branding';
+
+interface TenantAdminProps {
+  user: User;
+  tenants: Tenant[];
+  tenantActions: CollectionActions<Tenant>;
+  systemUsers: User[];
+  userActions: CollectionActions<User>;
+  setCredentials: (value: UserCredential[] | ((val: UserCredential[]) => UserCredential[])) => void;
+  onAudit: AuditRecorder;
+}
+
+type TenantForm = Pick<Tenant, 'name' | 'domain'> & {
+  address: string;
+  timezone: string;
+  logo: string;
+  displayName: string;
+  primaryColor: string;
+  welcomeText: string;
+};
+
+const EMPTY_FORM: TenantForm = {
+  name: '', domain: '', address: '', timezone: DEFAULT_TENANT_TIMEZONE, logo: '',
+  displayName: '', primaryColor: DEFAULT_BRAND_COLOR, welcomeText: '',
+};
+const EMPTY_ADMIN = { name: '', email: '', password: '' };
+
+// Platform-level management of condominiums (super-admin only)
+const TenantAdmin: React.FC<TenantAdminProps> = ({ user, tenants, tenantActions, systemUsers, userActions, setCredentials, onAudit }) => {
+  // null = closed, 'new' = creating, otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<TenantForm>(EMPTY_FORM);
+  const [formError, setFormError] = useState('');
+
+  const [provisioningId, setProvisioningId] = useState<string | null>(null);
+  const [adminForm, setAdminForm] = useState(EMPTY_ADMIN);
+  const [adminError, setAdminError] = useState('');
+  const [adminNotice, setAdminNotice] = useState('');
+  const [isProvisioning, setIsProvisioning] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  if (!user.superAdmin) return <div className="p-4 text-red-500">Acceso denegado.</div>;
+
+  const adminsOf = (tenantId: string) => systemUsers.filter(u => u.tenantId === tenantId && u.role === 'X');
+
+  const openCreate = () => {
+    setEditingId('new');
+    setForm(EMPTY_FORM);
+    setFormError('');
+  };
+
+  const openEdit = (tenant: Tenant) => {
+    setEditingId(tenant.id);
+    setForm({
+      name: tenant.name,
+      domain: tenant.domain,
+      address: tenant.address || '',
+      timezone: tenant.timezone || DEFAULT_TENANT_TIMEZONE,
+      logo: tenant.logo || '',
+      displayName: tenant.branding?.displayName || '',
+      primaryColor: tenant.branding?.primaryColor || DEFAULT_BRAND_COLOR,
+      welcomeText: tenant.branding?.welcomeText || '',
+    });
+    setFormError('');
+  };
+
+  const closeForm = () => {
+    setEditingId(null);
+    setFormError('');
+  };
+
+  const handleLogoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      const reader = new FileReader();
+      reader.onloadend = () => setForm(prev => ({ ...prev, logo: reader.result as string }));
+      reader.readAsDataURL(file);
+    }
+  };
+
+  const handleSave = async () => {
+    const previous = tenants.find(t => t.id === editingId);
+    const slug = form.domain.split('.')[0].toLowerCase();
+    const tenant: Tenant = {
+      ...previous,
+      id: previous?.id || `t-${slug}-${Date.now().toString(36)}`,
+      // With the API server, the server creates the key pair and keeps the private half
+      ...(previous?.qrPublicKey || DATA_BACKEND === 'http' ? {} : await generateQrKeyPair()),
+      status: previous?.status || 'Active',
+      name: form.name.trim(),
+      domain: form.domain.trim().toLowerCase(),
+      address: form.address.trim() || undefined,
+      timezone: form.timezone.trim() || undefined,
+      logo: form.logo || undefined,
+      branding: {
+        displayName: form.displayName.trim() || undefined,
+        // The stock color needs no override
+        primaryColor: form.primaryColor.toLowerCase() !== DEFAULT_BRAND_COLOR ? form.primaryColor : undefined,
+        welcomeText: form.welcomeText.trim() || undefined,
+      },
+    };
+
+    const error = validateTenant(tenant, tenants);
+    if (error) {
+      setFormError(error);
+      return;
+    }
+    tenantActions.save(tenant);
+    closeForm();
+    // New tenants need an admin before anyone can use them
+    if (!previous) openProvision(tenant.id);
+  };
+
+  const toggleStatus = (tenant: Tenant) => {
+    // Deactivating your own tenant would lock you out
+    if (tenant.id === user.tenantId) return;
+    tenantActions.update(tenant.id, { status: isTenantActive(tenant) ? 'Inactive' : 'Active' });
+  };
+
+  // --- First Admin Provisioning ---
+  const openProvision = (tenantId: string) => {
+    setProvisioningId(tenantId);
+    setAdminForm(EMPTY_ADMIN);
+    setAdminError('');
+    setAdminNotice('');
+  };
+
+  const handleProvision = async () => {
+    const tenant = tenants.find(t => t.id === provisioningId);
+    if (!tenant) return;
+
+    // 1. Validate Input
+    const email = adminForm.email.trim().toLowerCase();
+    if (!adminForm.name.trim() || !email.includes('@')) {
+      setAdminError('Nombre y un correo válido son obligatorios.');
+      return;
+    }
+    if (adminForm.password.length < MIN_PASSWORD_LENGTH) {
+      setAdminError(`La contraseña inicial debe tener al menos ${MIN_PASSWORD_LENGTH} caracteres.`);
+      return;
+    }
+    // 2. Validate Uniqueness (the server checks again for the http backend)
+    if (systemUsers.some(u => u.email.toLowerCase() === email)) {
+      setAdminError('Ya existe un usuario con ese correo.');
+      return;
+    }
+
+    setIsProvisioning(true);
+    setAdminError('');
+    try {
+      // With the API server, the user and its password hash are created server-side
+      if (DATA_BACKEND === 'http') {
+        const remote = await provisionAdminOnServer(API_BASE_URL, tenant.id, { ...adminForm, email });
+        if ('error' in remote) {
+          setAdminError(remote.error);
+          return;
+        }
+        onAudit({ action: 'create', entity: 'user', entityId: remote.user.id, summary: `Administrador inicial de ${tenant.name}: ${remote.user.name}`, after: remote.user });
+      } else {
+        const admin: User = {
+          id: crypto.randomUUID(),
+          name: adminForm.name.trim(),
+          email,
+          role: 'X',
+          tenantId: tenant.id,
+          avatar: `https://picsum.photos/seed/${encodeURIComponent(email)}/200`,
+        };
+        const passwordSalt = generateSalt();
+        const passwordHash = await hashSecret(adminForm.password, passwordSalt);
+        setCredentials(prev => [...prev, { userId: admin.id, passwordSalt, passwordHash, failedAttempts: 0 }]);
+        userActions.save(admin);
+      }
+      setAdminNotice(`Administrador creado. Comparte la contraseña inicial con ${email} y pídele cambiarla al ingresar.`);
+      setAdminForm(EMPTY_ADMIN);
+    } catch (err) {
+      console.error(err);
+      setAdminError('No se pudo crear el administrador.');
+    } finally {
+      setIsProvisioning(false);
+    }
+  };
+
+  const provisioningTenant = tenants.find(t => t.id === provisioningId);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+            <Building2 className="text-blue-600" /> Condominios
+          </h2>
+          <p className="text-gray-500 text-sm">Alta, edición y desactivación de condominios de la plataforma.</p>
+        </div>
+        {!editingId && (
+          <button
+            onClick={openCreate}
+            className="px-4 py-2 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 transition-colors flex items-center gap-2"
+          >
+            <Plus size={16} /> Nuevo condominio
+          </button>
+        )}
+      </div>
+
+      {/* Create / Edit Form */}
+      {editingId && (
+        <div className={`bg-white p-4 rounded-xl shadow-sm border ${formError ? 'border-red-300 ring-2 ring-red-50' : 'border-gray-200'}`}>
+          <div className="flex justify-between items-center mb-3">
+            <h3 className="text-sm font-semibold text-gray-700">{editingId === 'new' ? 'Nuevo condominio' : 'Editar condominio'}</h3>
+            {formError && (
+              <span className="text-xs text-red-600 flex items-center gap-1 font-medium">
+                <AlertCircle size={12} /> {formError}
+              </span>
+            )}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label className="text-xs text-gray-500 mb-1 block">Nombre <span className="text-red-400">*</span></label>
+              <input
+                placeholder="Ej. Edificio Los Alerces"
+                className="w-full border p-2 rounded-lg text-sm outline-none focus:border-blue-500"
+                value={form.name}
+                onChange={e => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="text-xs text-gray-500 mb-1 block">Dominio <span className="text-red-400">*</span></label>
+              <input
+                placeholder="alerces.condoguard.com"
+                className="w-full border p-2 rounded-lg text-sm outline-none focus:border-blue-500 lowercase"
+                value={form.domain}
+                onChange={e => setForm({ ...form, domain: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="text-xs text-gray-500 mb-1 block">Dirección</label>
+              <input
+                placeholder="Av. Siempre Viva 742"
+                className="w-full border p-2 rounded-lg text-sm outline-none focus:border-blue-500"
+                value={form.address}
+                onChange={e => setForm({ ...form, address: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="text-xs text-gray-500 mb-1 block">Zona horaria</label>
+              <input
+                placeholder={DEFAULT_TENANT_TIMEZONE}
+                className="w-full border p-2 rounded-lg text-sm outline-none focus:border-blue-500"
+                value={form.timezone}
+                onChange={e => setForm({ ...form, timezone: e.target.value })}
+              />
+            </div>
+            <div className="md:col-span-2 flex items-center gap-3">
+              {form.logo ? (
+                <img src={form.logo} alt="Logo" className="w-12 h-12 rounded-lg border border-gray-200 object-contain bg-gray-50" />
+              ) : (
+                <div className="w-12 h-12 rounded-lg border border-dashed border-gray-300 flex items-center justify-center text-gray-300">
+                  <Building2 size={20} />
+                </div>
+              )}
+              <input
+                placeholder="URL del logo (o sube una imagen)"
+                className="flex-1 border p-2 rounded-lg text-sm outline-none focus:border-blue-500"
+                value={form.logo.startsWith('data:') ? '' : form.logo}
+                onChange={e => setForm({ ...form, logo: e.target.value })}
+              />
+              <input type="file" ref={fileInputRef} onChange={handleLogoUpload} accept="image/*" className="hidden" />
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                type="button"
+                className="px-3 py-2 rounded-lg border border-gray-200 text-sm text-gray-600 hover:bg-gray-50 flex items-center gap-1"
+              >
+                <Upload size={14} /> Subir
+              </button>
+            </div>
+
+            {/* Branding */}
+            <div>
+              <label className="text-xs text-gray-500 mb-1 block">Nombre visible <span className="text-gray-300">(Opc, reemplaza "{DEFAULT_BRAND_NAME}")</span></label>
+              <input
+                placeholder={DEFAULT_BRAND_NAME}
+                className="w-full border p-2 rounded-lg text-sm outline-none focus:border-blue-500"
+                value={form.displayName}
+                onChange={e => setForm({ ...form, displayName: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="text-xs text-gray-500 mb-1 block">Color principal</label>
+              <div className="flex items-center gap-2">
+                <input
+                  type="color"
+                  className="w-10 h-10 border rounded cursor-pointer bg-white"
+                  value={isValidHexColor(form.primaryColor) ? form.primaryColor : DEFAULT_BRAND_COLOR}
+                  onChange={e => setForm({ ...form, primaryColor: e.target.value })}
+                />
+                <input
+                  className="flex-1 border p-2 rounded-lg text-sm outline-none focus:border-blue-500 font-mono"
+                  value={form.primaryColor}
+                  onChange={e => setForm({ ...form, primaryColor: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="md:col-span-2">
+              <label className="text-xs text-gray-500 mb-1 block">Texto de bienvenida <span className="text-gray-300">(Opc, login e invitaciones)</span></label>
+              <input
+                placeholder="Bienvenido a tu comunidad"
+                className="w-full border p-2 rounded-lg text-sm outline-none focus:border-blue-500"
+                value={form.welcomeText}
+                onChange={e => setForm({ ...form, welcomeText: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2 mt-4">
+            <button onClick={closeForm} type="button" className="px-4 py-2 rounded-lg bg-gray-100 text-gray-700 text-sm font-medium hover:bg-gray-200 flex items-center gap-1">
+              <X size={14} /> Cancelar
+            </button>
+            <button onClick={handleSave} type="button" className="px-4 py-2 rounded-lg bg-green-600 text-white text-sm font-medium hover:bg-green-700 flex items-center gap-1">
+              <Save size={14} /> Guardar
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* First Admin Form */}
+      {provisioningTenant && (
+        <div className="bg-white p-4 rounded-xl shadow-sm border border-purple-200">
+          <div className="flex justify-between items-center mb-3">
+            <h3 className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+              <UserPlus size={16} className="text-purple-600" /> Administrador de {provisioningTenant.name}
+            </h3>
+            <button onClick={() => setProvisioningId(null)} className="text-gray-400 hover:bg-gray-100 p-1 rounded" title="Cerrar">
+              <X size={16} />
+            </button>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+            <input
+              placeholder="Nombre completo"
+              className="border p-2 rounded-lg text-sm outline-none focus:border-purple-500"
+              value={adminForm.name}
+              onChange={e => setAdminForm({ ...adminForm, name: e.target.value })}
+            />
+            <input
+              type="email"
+              placeholder="correo@condominio.com"
+              className="border p-2 rounded-lg text-sm outline-none focus:border-purple-500"
+              value={adminForm.email}
+              onChange={e => setAdminForm({ ...adminForm, email: e.target.value })}
+            />
+            <input
+              type="password"
+              placeholder={`Contraseña inicial (mín. ${MIN_PASSWORD_LENGTH})`}
+              className="border p-2 rounded-lg text-sm outline-none focus:border-purple-500"
+              value={adminForm.password}
+              onChange={e => setAdminForm({ ...adminForm, password: e.target.value })}
+            />
+            <button
+              onClick={handleProvision}
+              disabled={isProvisioning}
+              className="px-4 py-2 rounded-lg bg-purple-600 text-white text-sm font-medium hover:bg-purple-700 disabled:opacity-50 flex items-center justify-center gap-1"
+            >
+              <UserPlus size={14} /> Crear administrador
+            </button>
+          </div>
+          {adminError && <p className="text-xs text-red-600 mt-2 flex items-center gap-1"><AlertCircle size={12} /> {adminError}</p>}
+          {adminNotice && <p className="text-xs text-green-700 mt-2 flex items-center gap-1"><CheckCircle size={12} /> {adminNotice}</p>}
+        </div>
+      )}
+
+      {/* Tenant List */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {tenants.map(tenant => {
+          const active = isTenantActive(tenant);
+          const admins = adminsOf(tenant.id);
+          return (
+            <div key={tenant.id} className={`bg-white rounded-xl shadow-sm border p-4 ${active ? 'border-gray-200' : 'border-gray-200 opacity-60'}`}>
+              <div className="flex items-start justify-between gap-3">
+                <div className="flex items-center gap-3 min-w-0">
+                  {tenant.logo ? (
+                    <img src={tenant.logo} alt={tenant.name} className="w-10 h-10 rounded-lg border border-gray-200 object-contain bg-gray-50" />
+                  ) : (
+                    <div className="w-10 h-10 rounded-lg bg-blue-50 text-blue-600 flex items-center justify-center">
+                      <Building2 size={20} />
+                    </div>
+                  )}
+                  <div className="min-w-0">
+                    <h4 className="font-semibold text-gray-800 truncate">{tenant.name}</h4>
+                    <p className="text-xs text-gray-400">{tenant.id}{tenant.id === user.tenantId && ' • Tu condominio'}</p>
+                  </div>
+                </div>
+                <span className={`text-xs px-2 py-1 rounded-full border font-medium ${active ? 'bg-green-100 text-green-700 border-green-200' : 'bg-gray-100 text-gray-600 border-gray-200'}`}>
+                  {active ? 'Activo' : 'Inactivo'}
+                </span>
+              </div>
+
+              <div className="space-y-1.5 text-sm text-gray-600 mt-3 border-t pt-3 border-gray-100">
+                <p className="flex items-center gap-2"><Globe size={14} className="text-gray-400" /> {tenant.domain}</p>
+                <p className="flex items-center gap-2"><MapPin size={14} className="text-gray-400" /> {tenant.address || <span className="text-gray-300">Sin dirección</span>}</p>
+                <p className="flex items-center gap-2"><Clock size={14} className="text-gray-400" /> {tenant.timezone || DEFAULT_TENANT_TIMEZONE}</p>
+                <p className="flex items-center gap-2">
+                  <UserPlus size={14} className="text-gray-400" />
+                  {admins.length > 0 ? admins.map(a => a.name).join(', ') : <span className="text-orange-600 text-xs font-medium">Sin administrador</span>}
+                </p>
+              </div>
+
+              <div className="flex justify-end gap-2 mt-3 pt-2 border-t border-gray-50">
+                <button
+                  onClick={() => openProvision(tenant.id)}
+                  className="flex items-center gap-1 text-purple-600 text-sm font-medium hover:bg-purple-50 px-3 py-1.5 rounded transition-colors"
+                >
+                  <UserPlus size={16} /> Admin
+                </button>
+                <button
+                  onClick={() => openEdit(tenant)}
+                  className="flex items-center gap-1 text-blue-600 text-sm font-medium hover:bg-blue-50 px-3 py-1.5 rounded transition-colors"
+                >
+                  <Edit2 size={16} /> Editar
+                </button>
+                <button
+                  onClick={() => toggleStatus(tenant)}
+                  disabled={tenant.id === user.tenantId}
+                  title={tenant.id === user.tenantId ? 'No puedes desactivar tu propio condominio' : undefined}
+                  className={`flex items-center gap-1 text-sm font-medium px-3 py-1.5 rounded transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${active ? 'text-red-500 hover:bg-red-50' : 'text-green-600 hover:bg-green-50'}`}
+                >
+                  <Power size={16} /> {active ? 'Desactivar' : 'Activar'}
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default TenantAdmin;
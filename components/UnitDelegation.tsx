@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { User, Capability } from '../types';
+import { KeyRound, Save, AlertCircle, CheckCircle } from 'lucide-react';
+import { CollectionActions } from '../hooks';
+import { PermissionCheck, CAPABILITIES, DELEGABLE_CAPABILITIES, validateDelegation } from '../permissions';
+
+interface UnitDelegationProps {
+  currentUser: User;
+  can: PermissionCheck;
+  tenantUsers: User[];
+  userActions: CollectionActions<User>;
+}
+
+const capabilityLabel = (capability: Capability) => CAPABILITIES.find(c => c.id === capability)?.label || capability;
+
+// Owners choose which unit rights their renters get; renters see what was delegated to them
+const UnitDelegation: React.FC<UnitDelegationProps> = ({ currentUser, can, tenantUsers, userActions }) => {
+  // Unsaved checkbox state per renter id
+  const [drafts, setDrafts] = useState<Record<string, Capability[]>>({});
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+
+  const renters = tenantUsers.filter(u => u.role === 'R' && u.id !== currentUser.id && can(currentUser, 'unit.delegate', { unit: u.unit }));
+
+  if (currentUser.role === 'R') {
+    const delegated = currentUser.delegation?.capabilities || [];
+    return (
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <h3 className="font-semibold text-gray-800 flex items-center gap-2 mb-2">
+          <KeyRound size={18} className="text-blue-600" /> Derechos delegados
+        </h3>
+        {delegated.length > 0 ? (
+          <>
+            <p className="text-sm text-gray-500 mb-3">{currentUser.delegation?.grantedBy.name} te delegó en la unidad {currentUser.unit}:</p>
+            <ul className="text-sm text-gray-700 list-disc pl-5 space-y-1">
+              {delegated.map(c => <li key={c}>{capabilityLabel(c)}</li>)}
+            </ul>
+          </>
+        ) : (
+          <p className="text-sm text-gray-500">El propietario de tu unidad aún no te ha delegado derechos. Pídeselo para generar invitaciones o gestionar tu familia.</p>
+        )}
+      </div>
+    );
+  }
+
+  if (renters.length === 0) return null;
+
+  const selectedFor = (renter: User) => drafts[renter.id] ?? renter.delegation?.capabilities ?? [];
+
+  const toggle = (renter: User, capability: Capability) => {
+    const current = selectedFor(renter);
+    setMessage(null);
+    setDrafts(prev => ({
+      ...prev,
+      [renter.id]: current.includes(capability) ? current.filter(c => c !== capability) : [...current, capability],
+    }));
+  };
+
+  const handleSave = (renter: User) => {
+    const capabilities = selectedFor(renter);
+    const error = validateDelegation(currentUser, renter, capabilities, can);
+    if (error) {
+      setMessage({ type: 'error', text: error });
+      return;
+    }
+    userActions.update(renter.id, {
+      delegation: capabilities.length > 0
+        ? { capabilities, grantedBy: { id: currentUser.id, name: currentUser.name }, grantedAt: new Date().toISOString() }
+        : undefined,
+    });
+    setDrafts(prev => {
+      const { [renter.id]: _saved, ...rest } = prev;
+      return rest;
+    });
+    setMessage({ type: 'success', text: `Derechos de ${renter.name} actualizados.` });
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+      <div>
+        <h3 className="font-semibold text-gray-800 flex items-center gap-2">
+          <KeyRound size={18} className="text-blue-600" /> Arrendatarios
+        </h3>
+        <p className="text-sm text-gray-500">Elige qué puede hacer cada arrendatario en su unidad.</p>
+      </div>
+
+      {message && (
+        <div className={`p-3 rounded-lg text-sm flex items-center gap-2 ${message.type === 'success' ? 'bg-green-50 text-green-700 border border-green-100' : 'bg-red-50 text-red-700 border border-red-100'}`}>
+          {message.type === 'success' ? <CheckCircle size={16} /> : <AlertCircle size={16} />} {message.text}
+        </div>
+      )}
+
+      {renters.map(renter => {
+        const selected = selectedFor(renter);
+        // Only what the owner may do in that unit can be handed over
+        const delegable = DELEGABLE_CAPABILITIES.filter(c => can(currentUser, c, { unit: renter.unit }));
+        return (
+          <div key={renter.id} className="border border-gray-100 rounded-lg p-4">
+            <div className="flex items-center justify-between gap-3 mb-3">
+              <div className="flex items-center gap-3 min-w-0">
+                <img src={renter.avatar} alt={renter.name} className="w-8 h-8 rounded-full bg-gray-200 object-cover" />
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-800 truncate">{renter.name}</p>
+                  <p className="text-xs text-gray-400">Unidad {renter.unit}</p>
+                </div>
+              </div>
+              <button
+                onClick={() => handleSave(renter)}
+                disabled={!drafts[renter.id]}
+                className="bg-blue-600 text-white px-3 py-1.5 rounded-lg text-sm flex items-center gap-1 font-medium disabled:opacity-50"
+              >
+                <Save size={14} /> Guardar
+              </button>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {delegable.map(capability => (
+                <label key={capability} className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                  <input type="checkbox" checked={selected.includes(capability)} onChange={() => toggle(renter, capability)} />
+                  {capabilityLabel(capability)}
+                </label>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default UnitDelegation;
@@ -0,0 +1,179 @@
+import React, { useMemo } from 'react';
+import { User, Unit, Resident, Visit, Tenant } from '../types';
+import { ArrowLeft, DoorOpen, Users, UserCheck, Car, History, Edit2, ParkingSquare } from 'lucide-react';
+import { PermissionCheck, ROLE_LABELS } from '../permissions';
+import { formatUnitLabel, countActiveResidents } from '../units';
+import { isUserActive } from '../users';
+import { getGateName } from '../site';
+
+interface UnitDetailProps {
+  user: User;
+  can: PermissionCheck;
+  unit: Unit;
+  tenant?: Tenant;
+  tenantUsers: User[];
+  residents: Resident[];
+  visits: Visit[];
+  onBack?: () => void;
+  onEdit?: () => void;
+}
+
+const VISIT_STATUS: Record<Visit['status'], { label: string; style: string }> = {
+  Pending: { label: 'Pendiente', style: 'bg-yellow-50 text-yellow-700' },
+  Approved: { label: 'Aprobado', style: 'bg-blue-50 text-blue-700' },
+  Completed: { label: 'Completado', style: 'bg-green-50 text-green-700' },
+  Rejected: { label: 'Rechazado', style: 'bg-red-50 text-red-700' },
+};
+
+const RESIDENT_TYPE_LABELS: Record<Resident['type'], string> = {
+  Resident: 'Residente',
+  Family: 'Familiar',
+  Visitor: 'Visita',
+  Delivery: 'Delivery',
+};
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString('es-ES', { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Everything tied to one unit: accounts, authorized residents, vehicles and visit history
+const UnitDetail: React.FC<UnitDetailProps> = ({ user, can, unit, tenant, tenantUsers, residents, visits, onBack, onEdit }) => {
+  const unitUsers = tenantUsers.filter(u => u.unit === unit.number);
+  const owners = tenantUsers.filter(u => unit.ownerIds.includes(u.id));
+  const unitResidents = residents.filter(r => r.unit === unit.number);
+  const activeCount = countActiveResidents(unit, residents);
+
+  const unitVisits = useMemo(() => {
+    const residentIds = unitResidents.map(r => r.id);
+    return visits
+      .filter(v => residentIds.includes(v.residentId))
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  }, [visits, unitResidents]);
+
+  // Plates registered on the unit's residents, then the ones seen on its visits (latest first)
+  const vehicles = useMemo(() => {
+    const registered = unitResidents.filter(r => r.licensePlate).map(r => ({ plate: r.licensePlate!, detail: r.name, registered: true }));
+    const seen = unitVisits
+      .filter(v => v.licensePlate && !registered.some(r => r.plate === v.licensePlate))
+      .map(v => ({ plate: v.licensePlate!, detail: `Visita de ${v.visitorName} · ${formatDate(v.date)}`, registered: false }));
+    return [...registered, ...seen].filter((v, i, all) => all.findIndex(other => other.plate === v.plate) === i);
+  }, [unitResidents, unitVisits]);
+
+  const canViewVisits = can(user, 'visit.view', { unit: unit.number });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          {onBack && (
+            <button onClick={onBack} className="p-2 rounded-lg hover:bg-gray-100 text-gray-500" title="Volver">
+              <ArrowLeft size={20} />
+            </button>
+          )}
+          <div>
+            <h2 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+              <DoorOpen className="text-blue-600" /> Unidad {formatUnitLabel(unit, tenant)}
+            </h2>
+            <p className="text-gray-500 text-sm">
+              {unit.floor !== undefined ? `Piso ${unit.floor} · ` : ''}
+              Propietario(s): {owners.length > 0 ? owners.map(o => o.name).join(', ') : 'sin registrar'}
+            </p>
+          </div>
+        </div>
+        {onEdit && (
+          <button
+            onClick={onEdit}
+            className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 text-sm font-medium hover:bg-gray-50 transition-colors flex items-center gap-2"
+          >
+            <Edit2 size={16} /> Editar unidad
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4">
+          <p className="text-xs text-gray-500 uppercase">Ocupación</p>
+          <p className={`text-2xl font-bold ${unit.occupancyLimit && activeCount >= unit.occupancyLimit ? 'text-red-600' : 'text-gray-800'}`}>
+            {activeCount}{unit.occupancyLimit ? ` / ${unit.occupancyLimit}` : ''}
+          </p>
+          <p className="text-xs text-gray-400">residentes activos{unit.occupancyLimit ? '' : ' (sin límite)'}</p>
+        </div>
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4">
+          <p className="text-xs text-gray-500 uppercase flex items-center gap-1"><ParkingSquare size={12} /> Estacionamientos</p>
+          <p className="text-lg font-semibold text-gray-800">{unit.parkingSpots.length > 0 ? unit.parkingSpots.join(', ') : 'Ninguno'}</p>
+        </div>
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4">
+          <p className="text-xs text-gray-500 uppercase">Cuentas</p>
+          <p className="text-2xl font-bold text-gray-800">{unitUsers.filter(isUserActive).length}</p>
+          <p className="text-xs text-gray-400">usuarios activos</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <section className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+          <h3 className="font-semibold text-gray-800 flex items-center gap-2 mb-3"><Users size={18} className="text-blue-600" /> Usuarios</h3>
+          {unitUsers.length === 0 ? <p className="text-sm text-gray-400">Sin cuentas asociadas.</p> : (
+            <ul className="divide-y divide-gray-50 text-sm">
+              {unitUsers.map(u => (
+                <li key={u.id} className="py-2 flex items-center justify-between gap-2">
+                  <span className={isUserActive(u) ? 'text-gray-800' : 'text-gray-400 line-through'}>{u.name}</span>
+                  <span className="text-xs text-gray-500">
+                    {ROLE_LABELS[u.role]}{unit.ownerIds.includes(u.id) ? ' · Propietario' : ''}{isUserActive(u) ? '' : ' · Inactivo'}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <section className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+          <h3 className="font-semibold text-gray-800 flex items-center gap-2 mb-3"><UserCheck size={18} className="text-blue-600" /> Residentes autorizados</h3>
+          {unitResidents.length === 0 ? <p className="text-sm text-gray-400">Sin residentes registrados.</p> : (
+            <ul className="divide-y divide-gray-50 text-sm">
+              {unitResidents.map(r => (
+                <li key={r.id} className="py-2 flex items-center justify-between gap-2">
+                  <span className={r.status === 'Active' ? 'text-gray-800' : 'text-gray-400'}>{r.name}</span>
+                  <span className="text-xs text-gray-500">{RESIDENT_TYPE_LABELS[r.type]}{r.status === 'Active' ? '' : ' · Archivado'}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <section className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+          <h3 className="font-semibold text-gray-800 flex items-center gap-2 mb-3"><Car size={18} className="text-blue-600" /> Vehículos</h3>
+          {vehicles.length === 0 ? <p className="text-sm text-gray-400">Sin vehículos registrados.</p> : (
+            <ul className="divide-y divide-gray-50 text-sm">
+              {vehicles.map(v => (
+                <li key={v.plate} className="py-2 flex items-center justify-between gap-2">
+                  <span className="font-mono text-gray-800">{v.plate}</span>
+                  <span className="text-xs text-gray-500 text-right">{v.registered ? `Residente: ${v.detail}` : v.detail}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        {canViewVisits && (
+          <section className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <h3 className="font-semibold text-gray-800 flex items-center gap-2 mb-3"><History size={18} className="text-blue-600" /> Historial de visitas</h3>
+            {unitVisits.length === 0 ? <p className="text-sm text-gray-400">Sin visitas registradas.</p> : (
+              <ul className="divide-y divide-gray-50 text-sm max-h-80 overflow-y-auto">
+                {unitVisits.map(v => (
+                  <li key={v.id} className="py-2 flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-gray-800 truncate">{v.visitorName}{v.licensePlate ? ` · ${v.licensePlate}` : ''}</p>
+                      <p className="text-xs text-gray-400">{formatDate(v.date)}{v.gateId ? ` · ${getGateName(tenant, v.gateId)}` : ''}</p>
+                    </div>
+                    <span className={`text-xs px-2 py-0.5 rounded-full ${VISIT_STATUS[v.status].style}`}>{v.status === 'Rejected' && v.direction === 'exit' ? 'Salida rechazada' : VISIT_STATUS[v.status].label}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UnitDetail;
@@ -0,0 +1,45 @@
+import React from 'react';
+import { Unit, Tenant } from '../types';
+import { formatUnitLabel, sortUnits } from '../units';
+import { getTowers } from '../site';
+
+interface UnitPickerProps {
+  units: Unit[];
+  tenant?: Tenant;
+  value: string; // Unit.number ('' = none)
+  onChange: (number: string) => void;
+  disabled?: boolean;
+  placeholder?: string;
+  className?: string;
+}
+
+// Every unit field picks from the tenant's registered units instead of free text
+const UnitPicker: React.FC<UnitPickerProps> = ({ units, tenant, value, onChange, disabled, placeholder = 'Selecciona una unidad', className = '' }) => {
+  const sorted = sortUnits(units, tenant);
+  const towers = getTowers(tenant);
+  const option = (u: Unit) => <option key={u.id} value={u.number}>{formatUnitLabel(u, tenant)}</option>;
+  return (
+    <select
+      value={value}
+      onChange={e => onChange(e.target.value)}
+      disabled={disabled}
+      className={`border p-2 rounded-lg text-sm outline-none focus:border-blue-500 bg-white disabled:bg-gray-100 disabled:text-gray-500 ${className}`}
+    >
+      <option value="">{units.length > 0 ? placeholder : 'Sin unidades registradas'}</option>
+      {/* A value that isn't registered (legacy free text) stays selectable so it isn't silently changed */}
+      {value && !units.some(u => u.number === value) && <option value={value}>{value} (no registrada)</option>}
+      {/* Grouped by tower when the tenant has them */}
+      {towers.length === 0 ? sorted.map(option) : (
+        <>
+          {towers.map(t => {
+            const towerUnits = sorted.filter(u => u.towerId === t.id);
+            return towerUnits.length > 0 && <optgroup key={t.id} label={`Torre ${t.name}`}>{towerUnits.map(option)}</optgroup>;
+          })}
+          {sorted.filter(u => !towers.some(t => t.id === u.towerId)).map(option)}
+        </>
+      )}
+    </select>
+  );
+};
+
+export default UnitPicker;
@@ -0,0 +1,294 @@
+import React, { useState } from 'react';
+import { User, Unit, Resident, Visit, Tenant } from '../types';
+import { DoorOpen, Plus, Save, X, Trash2, AlertCircle, Download } from 'lucide-react';
+import { CollectionActions } from '../hooks';
+import { PermissionCheck, ANY_RESOURCE } from '../permissions';
+import { findUnit, formatUnitLabel, sortUnits, countActiveResidents, validateUnit, findUnregisteredUnits } from '../units';
+import { isUserActive } from '../users';
+import { getTowers } from '../site';
+import UnitDetail from './UnitDetail';
+
+interface UnitsAdminProps {
+  user: User;
+  can: PermissionCheck;
+  tenant?: Tenant;
+  units: Unit[];
+  unitActions: CollectionActions<Unit>;
+  tenantUsers: User[];
+  residents: Resident[];
+  visits: Visit[];
+}
+
+// Numbers are edited as text and parsed on save
+type UnitForm = { number: string; towerId: string; floor: string; occupancyLimit: string; parkingSpots: string; ownerIds: string[] };
+
+const EMPTY_FORM: UnitForm = { number: '', towerId: '', floor: '', occupancyLimit: '', parkingSpots: '', ownerIds: [] };
+
+const toForm = (unit: Unit): UnitForm => ({
+  number: unit.number,
+  towerId: unit.towerId || '',
+  floor: unit.floor !== undefined ? String(unit.floor) : '',
+  occupancyLimit: unit.occupancyLimit !== undefined ? String(unit.occupancyLimit) : '',
+  parkingSpots: unit.parkingSpots.join(', '),
+  ownerIds: unit.ownerIds,
+});
+
+// Registry of the tenant's units ('unit.view'); 'own' scope goes straight to the user's unit
+const UnitsAdmin: React.FC<UnitsAdminProps> = ({ user, can, tenant, units, unitActions, tenantUsers, residents, visits }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // null = closed, 'new' = creating, otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<UnitForm>(EMPTY_FORM);
+  const [formError, setFormError] = useState('');
+  // '' = every tower
+  const [towerFilter, setTowerFilter] = useState('');
+
+  const canManage = can(user, 'unit.manage');
+  const towers = getTowers(tenant);
+  const visibleUnits = sortUnits(units.filter(u => can(user, 'unit.view', { unit: u.number }) && (!towerFilter || u.towerId === towerFilter)), tenant);
+  const unregistered = canManage ? findUnregisteredUnits(units, tenantUsers, residents) : [];
+  // Owners are chosen among the tenant's active resident accounts
+  const ownerCandidates = tenantUsers.filter(u => u.role === 'B' && isUserActive(u));
+
+  if (!can(user, 'unit.view')) return <div className="p-4 text-red-500">Acceso denegado.</div>;
+
+  const openForm = (unit?: Unit) => {
+    setEditingId(unit ? unit.id : 'new');
+    setForm(unit ? toForm(unit) : EMPTY_FORM);
+    setFormError('');
+  };
+
+  const closeForm = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setFormError('');
+  };
+
+  const handleSave = () => {
+    const previous = units.find(u => u.id === editingId);
+    const unit: Unit = {
+      id: previous?.id || crypto.randomUUID(),
+      tenantId: user.tenantId,
+      number: previous ? previous.number : form.number.trim(),
+      towerId: form.towerId || undefined,
+      floor: form.floor.trim() ? Number(form.floor) : undefined,
+      ownerIds: form.ownerIds,
+      occupancyLimit: form.occupancyLimit.trim() ? Number(form.occupancyLimit) : undefined,
+      parkingSpots: form.parkingSpots.split(',').map(p => p.trim()).filter(Boolean),
+    };
+    const error = validateUnit(unit, units);
+    if (error) {
+      setFormError(error);
+      return;
+    }
+    unitActions.save(unit);
+    closeForm();
+  };
+
+  const handleDelete = (unit: Unit) => {
+    const linked = tenantUsers.filter(u => u.unit === unit.number && isUserActive(u)).length + countActiveResidents(unit, residents);
+    const warning = linked > 0 ? ` Tiene ${linked} cuenta(s) o residente(s) activos que quedarán sin unidad registrada.` : '';
+    if (!confirm(`¿Eliminar la unidad ${formatUnitLabel(unit, tenant)}?${warning}`)) return;
+    unitActions.remove(unit.id);
+    setSelectedId(null);
+  };
+
+  // Units typed as free text before the registry existed
+  const handleRegisterExisting = () => {
+    unregistered.forEach(number => {
+      unitActions.save({ id: crypto.randomUUID(), tenantId: user.tenantId, number: number.trim(), ownerIds: tenantUsers.filter(u => u.role === 'B' && u.unit === number).map(u => u.id), parkingSpots: [] });
+    });
+  };
+
+  const toggleOwner = (id: string) =>
+    setForm(prev => ({ ...prev, ownerIds: prev.ownerIds.includes(id) ? prev.ownerIds.filter(o => o !== id) : [...prev.ownerIds, id] }));
+
+  // 'own' scope: just the user's unit
+  const ownUnit = !can(user, 'unit.view', ANY_RESOURCE) ? findUnit(units, user.unit) : undefined;
+  const selected = ownUnit || units.find(u => u.id === selectedId);
+
+  if (!can(user, 'unit.view', ANY_RESOURCE) && !ownUnit) {
+    return <div className="p-4 text-gray-500">Tu cuenta no tiene una unidad registrada. Contacta a la administración.</div>;
+  }
+
+  const formCard = editingId && (
+    <div className="bg-white rounded-xl shadow-sm border border-blue-100 p-6 space-y-4">
+      <h3 className="font-semibold text-gray-800">{editingId === 'new' ? 'Nueva unidad' : `Editar unidad ${form.number}`}</h3>
+      {formError && (
+        <div className="p-3 rounded-lg text-sm flex items-center gap-2 bg-red-50 text-red-700 border border-red-100">
+          <AlertCircle size={16} /> {formError}
+        </div>
+      )}
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+        <div>
+          <label className="text-xs text-gray-500 mb-1 block">Número <span className="text-red-400">*</span></label>
+          <input
+            value={form.number}
+            onChange={e => setForm({ ...form, number: e.target.value })}
+            disabled={editingId !== 'new'}
+            placeholder="101"
+            className="w-full border p-2 rounded-lg text-sm outline-none focus:border-blue-500 disabled:bg-gray-100 disabled:text-gray-500"
+          />
+        </div>
+        <div>
+          <label className="text-xs text-gray-500 mb-1 block">Torre / Bloque</label>
+          <select
+            value={form.towerId}
+            onChange={e => setForm({ ...form, towerId: e.target.value })}
+            disabled={towers.length === 0}
+            className="w-full border p-2 rounded-lg text-sm outline-none focus:border-blue-500 bg-white disabled:bg-gray-100 disabled:text-gray-500"
+          >
+            <option value="">{towers.length > 0 ? 'Sin torre' : 'Sin torres definidas'}</option>
+            {/* A tower removed from the site layout stays selectable so it isn't silently changed */}
+            {form.towerId && !towers.some(t => t.id === form.towerId) && <option value={form.towerId}>{form.towerId} (eliminada)</option>}
+            {towers.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="text-xs text-gray-500 mb-1 block">Piso</label>
+          <input type="number" value={form.floor} onChange={e => setForm({ ...form, floor: e.target.value })} className="w-full border p-2 rounded-lg text-sm outline-none focus:border-blue-500" />
+        </div>
+        <div>
+          <label className="text-xs text-gray-500 mb-1 block">Límite de ocupación</label>
+          <input type="number" min={1} value={form.occupancyLimit} onChange={e => setForm({ ...form, occupancyLimit: e.target.value })} placeholder="Sin límite" className="w-full border p-2 rounded-lg text-sm outline-none focus:border-blue-500" />
+        </div>
+        <div>
+          <label className="text-xs text-gray-500 mb-1 block">Estacionamientos</label>
+          <input value={form.parkingSpots} onChange={e => setForm({ ...form, parkingSpots: e.target.value })} placeholder="E-12, E-13" className="w-full border p-2 rounded-lg text-sm outline-none focus:border-blue-500" />
+        </div>
+      </div>
+      <div>
+        <label className="text-xs text-gray-500 mb-1 block">Propietario(s)</label>
+        {ownerCandidates.length === 0 ? <p className="text-sm text-gray-400">No hay cuentas de residentes activas.</p> : (
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            {ownerCandidates.map(u => (
+              <label key={u.id} className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                <input type="checkbox" checked={form.ownerIds.includes(u.id)} onChange={() => toggleOwner(u.id)} />
+                {u.name}{u.unit ? <span className="text-xs text-gray-400">U:{u.unit}</span> : null}
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="flex justify-end gap-2">
+        <button onClick={closeForm} className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 text-sm font-medium hover:bg-gray-50 flex items-center gap-2">
+          <X size={16} /> Cancelar
+        </button>
+        <button onClick={handleSave} className="px-4 py-2 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 flex items-center gap-2">
+          <Save size={16} /> Guardar
+        </button>
+      </div>
+    </div>
+  );
+
+  if (selected) {
+    return (
+      <div className="space-y-6">
+        {formCard}
+        <UnitDetail
+          user={user}
+          can={can}
+          unit={selected}
+          tenant={tenant}
+          tenantUsers={tenantUsers}
+          residents={residents}
+          visits={visits}
+          onBack={ownUnit ? undefined : () => { setSelectedId(null); closeForm(); }}
+          onEdit={canManage && !editingId ? () => openForm(selected) : undefined}
+        />
+        {canManage && (
+          <div className="flex justify-end">
+            <button onClick={() => handleDelete(selected)} className="px-4 py-2 rounded-lg border border-red-200 text-red-600 text-sm font-medium hover:bg-red-50 flex items-center gap-2">
+              <Trash2 size={16} /> Eliminar unidad
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+            <DoorOpen className="text-blue-600" /> Unidades
+          </h2>
+          <p className="text-gray-500 text-sm">Departamentos y casas del condominio. Selecciona una para ver sus usuarios, residentes, vehículos y visitas.</p>
+        </div>
+        {canManage && (
+          <div className="flex gap-2">
+            {unregistered.length > 0 && (
+              <button
+                onClick={handleRegisterExisting}
+                title={unregistered.join(', ')}
+                className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 text-sm font-medium hover:bg-gray-50 transition-colors flex items-center gap-2"
+              >
+                <Download size={16} /> Registrar existentes ({unregistered.length})
+              </button>
+            )}
+            <button
+              onClick={() => openForm()}
+              disabled={!!editingId}
+              className="px-4 py-2 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 transition-colors flex items-center gap-2 disabled:opacity-50"
+            >
+              <Plus size={16} /> Nueva unidad
+            </button>
+          </div>
+        )}
+      </div>
+
+      {formCard}
+
+      {towers.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {[{ id: '', name: 'Todas' }, ...towers].map(t => (
+            <button
+              key={t.id}
+              onClick={() => setTowerFilter(t.id)}
+              className={`px-3 py-1.5 rounded-lg text-sm font-medium border transition-colors ${towerFilter === t.id ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'}`}
+            >
+              {t.id ? `Torre ${t.name}` : t.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-x-auto">
+        <table className="w-full text-left text-sm">
+          <thead className="bg-gray-50 text-gray-500 text-xs uppercase">
+            <tr>
+              <th className="p-4">Unidad</th>
+              <th className="p-4">Piso</th>
+              <th className="p-4">Propietario(s)</th>
+              <th className="p-4">Ocupación</th>
+              <th className="p-4">Estacionamientos</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-50">
+            {visibleUnits.length === 0 && (
+              <tr><td colSpan={5} className="p-6 text-center text-gray-400">No hay unidades registradas.</td></tr>
+            )}
+            {visibleUnits.map(unit => {
+              const active = countActiveResidents(unit, residents);
+              const owners = tenantUsers.filter(u => unit.ownerIds.includes(u.id)).map(u => u.name);
+              return (
+                <tr key={unit.id} onClick={() => setSelectedId(unit.id)} className="hover:bg-gray-50/50 cursor-pointer">
+                  <td className="p-4 font-medium text-gray-800">{formatUnitLabel(unit, tenant)}</td>
+                  <td className="p-4 text-gray-600">{unit.floor ?? '—'}</td>
+                  <td className="p-4 text-gray-600">{owners.length > 0 ? owners.join(', ') : <span className="text-gray-400">Sin registrar</span>}</td>
+                  <td className={`p-4 ${unit.occupancyLimit && active >= unit.occupancyLimit ? 'text-red-600 font-medium' : 'text-gray-600'}`}>
+                    {active}{unit.occupancyLimit ? ` / ${unit.occupancyLimit}` : ''}
+                  </td>
+                  <td className="p-4 text-gray-600">{unit.parkingSpots.join(', ') || '—'}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default UnitsAdmin;
@@ -0,0 +1,243 @@
+import React, { useState, useMemo } from 'react';
+import { User, Role, Resident, Unit, Tenant, UserCredential } from '../types';
+import { UserPlus, Home, ArrowRightLeft, LogOut, AlertCircle, CheckCircle, Loader2 } from 'lucide-react';
+import { CollectionActions } from '../hooks';
+import { AuditRecorder } from '../audit';
+import { generateSalt, hashSecret } from '../auth';
+import { DATA_BACKEND, API_BASE_URL, createUserOnServer } from '../data';
+import { PermissionCheck, ANY_RESOURCE, ROLES, ROLE_LABELS } from '../permissions';
+import { UNIT_ROLES, isUserActive, validateNewUser, buildNewUser, planUnitTransfer, planUnitOffboarding } from '../users';
+import { findUnit } from '../units';
+import UnitPicker from './UnitPicker';
+
+interface UserAccountsProps {
+  currentUser: User;
+  can: PermissionCheck;
+  systemUsers: User[];
+  userActions: CollectionActions<User>;
+  residents: Resident[];
+  residentActions: CollectionActions<Resident>;
+  units: Unit[];
+  unitActions: CollectionActions<Unit>;
+  tenant?: Tenant;
+  setCredentials: (value: UserCredential[] | ((val: UserCredential[]) => UserCredential[])) => void;
+  onAudit: AuditRecorder;
+}
+
+const EMPTY_FORM = { name: '', email: '', role: 'B' as Role, unit: '', password: '' };
+
+type Message = { type: 'success' | 'error', text: string } | null;
+
+const MessageBox: React.FC<{ message: Message }> = ({ message }) => message && (
+  <div className={`p-3 rounded-lg text-sm flex items-center gap-2 ${message.type === 'success' ? 'bg-green-50 text-green-700 border border-green-100' : 'bg-red-50 text-red-700 border border-red-100'}`}>
+    {message.type === 'success' ? <CheckCircle size={16} /> : <AlertCircle size={16} />} {message.text}
+  </div>
+);
+
+// Account lifecycle of the tenant: invite users, and hand over or offboard a whole unit ('user.edit' over everyone)
+const UserAccounts: React.FC<UserAccountsProps> = ({ currentUser, can, systemUsers, userActions, residents, residentActions, units, unitActions, tenant, setCredentials, onAudit }) => {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [formMessage, setFormMessage] = useState<Message>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [unit, setUnit] = useState('');
+  const [newOwnerId, setNewOwnerId] = useState('');
+  const [unitMessage, setUnitMessage] = useState<Message>(null);
+
+  const tenantUsers = useMemo(() => systemUsers.filter(u => u.tenantId === currentUser.tenantId), [systemUsers, currentUser.tenantId]);
+
+  if (!can(currentUser, 'user.edit', ANY_RESOURCE)) return null;
+
+  const needsUnit = UNIT_ROLES.includes(form.role);
+  const unitUsers = tenantUsers.filter(u => u.unit === unit);
+  // Anyone active can take the unit over except its current owners (an admin or guard keeps its role)
+  const ownerCandidates = tenantUsers.filter(u => isUserActive(u) && UNIT_ROLES.includes(u.role) && !(u.role === 'B' && u.unit === unit));
+  const registeredUnit = findUnit(units, unit);
+  const canTransfer = can(currentUser, 'user.role') && can(currentUser, 'unit.manage');
+  const canOffboard = can(currentUser, 'resident.edit', { unit });
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    // 1. Validate Input (the server checks again for the http backend)
+    const error = validateNewUser(form, form.password, systemUsers)
+      || (needsUnit && !findUnit(units, form.unit) ? `La unidad ${form.unit} no está registrada.` : null);
+    if (error) {
+      setFormMessage({ type: 'error', text: error });
+      return;
+    }
+
+    setIsCreating(true);
+    setFormMessage(null);
+    try {
+      // 2. Create the account (with the API server, the password hash is created server-side)
+      if (DATA_BACKEND === 'http') {
+        const remote = await createUserOnServer(API_BASE_URL, form);
+        if ('error' in remote) {
+          setFormMessage({ type: 'error', text: remote.error });
+          return;
+        }
+        onAudit({ action: 'create', entity: 'user', entityId: remote.user.id, summary: `Usuario creado: ${remote.user.name} (${ROLE_LABELS[remote.user.role]})`, after: remote.user });
+      } else {
+        const created = buildNewUser(form, currentUser.tenantId);
+        const passwordSalt = generateSalt();
+        const passwordHash = await hashSecret(form.password, passwordSalt);
+        setCredentials(prev => [...prev, { userId: created.id, passwordSalt, passwordHash, failedAttempts: 0 }]);
+        userActions.save(created);
+      }
+      setFormMessage({ type: 'success', text: `Usuario creado. Comparte la contraseña inicial con ${form.email.trim()} y pídele cambiarla al ingresar.` });
+      setForm(EMPTY_FORM);
+    } catch (err) {
+      console.error(err);
+      setFormMessage({ type: 'error', text: 'No se pudo crear el usuario.' });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleTransfer = () => {
+    const newOwner = tenantUsers.find(u => u.id === newOwnerId);
+    if (!unit || !newOwner) return;
+    if (!confirm(`¿Transferir la unidad ${unit} a ${newOwner.name}? Los propietarios actuales quedarán desactivados y los arrendatarios perderán los derechos delegados.`)) return;
+    planUnitTransfer(tenantUsers, unit, newOwner, new Date()).forEach(u => userActions.save(u));
+    if (registeredUnit) unitActions.update(registeredUnit.id, { ownerIds: [newOwner.id] });
+    setNewOwnerId('');
+    setUnitMessage({ type: 'success', text: `La unidad ${unit} ahora pertenece a ${newOwner.name}.` });
+  };
+
+  const handleOffboard = () => {
+    if (!unit) return;
+    if (!confirm(`¿Dar de baja la unidad ${unit}? Se desactivarán todas sus cuentas y se archivarán sus residentes.`)) return;
+    const plan = planUnitOffboarding(tenantUsers, residents, unit, new Date());
+    plan.users.forEach(u => userActions.save(u));
+    plan.residents.forEach(r => residentActions.save(r));
+    if (registeredUnit && can(currentUser, 'unit.manage')) unitActions.update(registeredUnit.id, { ownerIds: [] });
+    setUnitMessage({ type: 'success', text: `Unidad ${unit} dada de baja: ${plan.users.length} cuenta(s) desactivada(s) y ${plan.residents.length} residente(s) archivado(s).` });
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {/* Invite / create */}
+      <form onSubmit={handleCreate} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+        <div>
+          <h3 className="font-semibold text-gray-800 flex items-center gap-2">
+            <UserPlus size={18} className="text-blue-600" /> Nuevo usuario
+          </h3>
+          <p className="text-sm text-gray-500">Crea la cuenta de un guardia, residente o miembro del comité con una contraseña inicial.</p>
+        </div>
+        <MessageBox message={formMessage} />
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <input
+            type="text"
+            placeholder="Nombre completo"
+            value={form.name}
+            onChange={e => setForm({ ...form, name: e.target.value })}
+            className="border p-2.5 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <input
+            type="email"
+            placeholder="correo@ejemplo.com"
+            value={form.email}
+            onChange={e => setForm({ ...form, email: e.target.value })}
+            className="border p-2.5 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <select
+            value={form.role}
+            onChange={e => setForm({ ...form, role: e.target.value as Role })}
+            disabled={!can(currentUser, 'user.role')}
+            className="border p-2.5 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500 bg-white"
+          >
+            {ROLES.map(role => <option key={role} value={role}>{role} - {ROLE_LABELS[role]}</option>)}
+          </select>
+          <UnitPicker
+            units={units}
+            tenant={tenant}
+            value={needsUnit ? form.unit : ''}
+            onChange={unit => setForm({ ...form, unit })}
+            disabled={!needsUnit}
+            placeholder={needsUnit ? 'Unidad' : 'Sin unidad'}
+            className="p-2.5 focus:ring-2 focus:ring-blue-500"
+          />
+          <input
+            type="password"
+            placeholder="Contraseña inicial"
+            value={form.password}
+            onChange={e => setForm({ ...form, password: e.target.value })}
+            className="border p-2.5 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500 sm:col-span-2"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={isCreating}
+          className="w-full bg-blue-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+        >
+          {isCreating ? <Loader2 size={16} className="animate-spin" /> : <UserPlus size={16} />} Crear usuario
+        </button>
+      </form>
+
+      {/* Unit transfer / offboarding */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+        <div>
+          <h3 className="font-semibold text-gray-800 flex items-center gap-2">
+            <Home size={18} className="text-blue-600" /> Unidades
+          </h3>
+          <p className="text-sm text-gray-500">Transfiere una unidad a un nuevo propietario o dala de baja cuando se vende.</p>
+        </div>
+        <MessageBox message={unitMessage} />
+        <UnitPicker
+          units={units}
+          tenant={tenant}
+          value={unit}
+          onChange={number => { setUnit(number); setNewOwnerId(''); setUnitMessage(null); }}
+          className="w-full p-2.5 focus:ring-2 focus:ring-blue-500"
+        />
+
+        {unit && (
+          <>
+            <ul className="divide-y divide-gray-50 text-sm">
+              {unitUsers.length === 0 && <li className="py-2 text-gray-400">Sin cuentas en esta unidad.</li>}
+              {unitUsers.map(u => (
+                <li key={u.id} className="py-2 flex items-center justify-between gap-2">
+                  <span className={isUserActive(u) ? 'text-gray-800' : 'text-gray-400 line-through'}>{u.name}</span>
+                  <span className="text-xs text-gray-500">{ROLE_LABELS[u.role]}{isUserActive(u) ? '' : ' · Inactivo'}</span>
+                </li>
+              ))}
+            </ul>
+
+            {canTransfer && (
+              <div className="flex gap-2">
+                <select
+                  value={newOwnerId}
+                  onChange={e => setNewOwnerId(e.target.value)}
+                  className="flex-1 border p-2.5 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500 bg-white"
+                >
+                  <option value="">Nuevo propietario...</option>
+                  {ownerCandidates.map(u => <option key={u.id} value={u.id}>{u.name} ({ROLE_LABELS[u.role]}{u.unit ? `, U: ${u.unit}` : ''})</option>)}
+                </select>
+                <button
+                  onClick={handleTransfer}
+                  disabled={!newOwnerId}
+                  className="px-4 py-2 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 transition-colors flex items-center gap-2 disabled:opacity-50"
+                >
+                  <ArrowRightLeft size={16} /> Transferir
+                </button>
+              </div>
+            )}
+            {canTransfer && ownerCandidates.length === 0 && (
+              <p className="text-xs text-gray-400">Crea primero la cuenta del nuevo propietario.</p>
+            )}
+
+            {canOffboard && (
+              <button
+                onClick={handleOffboard}
+                className="w-full px-4 py-2 rounded-lg border border-red-200 text-red-600 text-sm font-medium hover:bg-red-50 transition-colors flex items-center justify-center gap-2"
+              >
+                <LogOut size={16} /> Dar de baja la unidad (venta)
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UserAccounts;
@@ -1,25 +1,46 @@
-import React, { useState, useMemo } from 'react';
-import { User, Resident } from '../types';
-import { Plus, Search, Trash2, Edit2, ShieldAlert, Home, UserCheck, Car, Truck, Users as UsersIcon, User as UserIcon, Save, X, History, Clock, Filter, AlertCircle, AlertTriangle } from 'lucide-react';
+import React, { useState, useMemo, useEffect } from 'react';
+import { User, Resident, Tenant, Unit, AccessSchedule } from '../types';
+import { CollectionActions } from '../hooks';
+import { getPurgeDate, getRetentionDays } from '../retention';
+import { PermissionCheck, ANY_RESOURCE } from '../permissions';
+import { findUnit, isUnitFull } from '../units';
+import { EMPTY_SCHEDULE, formatSchedule, isWithinSchedule, validateSchedule } from '../schedule';
+import UnitPicker from './UnitPicker';
+import ScheduleEditor from './ScheduleEditor';
+import { Plus, Search, Trash2, Edit2, ShieldAlert, Home, UserCheck, Car, Truck, Users as UsersIcon, User as UserIcon, Save, X, History, Clock, Filter, AlertCircle, AlertTriangle, Archive, RotateCcw, CalendarClock } from 'lucide-react';
 
 interface UserManagementProps {
   user: User;
+  can: PermissionCheck;
   residents: Resident[];
-  setResidents: (value: Resident[] | ((val: Resident[]) => Resident[])) => void;
+  residentActions: CollectionActions<Resident>;
+  units: Unit[];
+  tenant?: Tenant;
+  tenantActions: CollectionActions<Tenant>;
+  pendingExtensionId?: string | null; // Opens the extension form for this resident (e.g. from a notification)
+  onPendingExtensionHandled?: () => void;
 }
 
-const UserManagement: React.FC<UserManagementProps> = ({ user, residents, setResidents }) => {
+const UserManagement: React.FC<UserManagementProps> = ({ user, can, residents, residentActions, units, tenant, tenantActions, pendingExtensionId, onPendingExtensionHandled }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [filterType, setFilterType] = useState<string>('ALL'); // New filter state
+  const [showArchived, setShowArchived] = useState(false); // Expired residents are archived as 'Inactive'
+  const [retentionDays, setRetentionDays] = useState('');
   const [formError, setFormError] = useState('');
+
+  // 'own' scopes: the directory (and the unit field of the forms) is limited to the user's unit
+  const unitScoped = !can(user, 'resident.view', ANY_RESOURCE);
+  const createUnitLocked = !can(user, 'resident.create', ANY_RESOURCE);
+  const editUnitLocked = !can(user, 'resident.edit', ANY_RESOURCE);
   
-  // For Role B, unit is fixed to their assigned unit. For X, it's manual input.
+  // With an 'own' grant, unit is fixed to the user's assigned unit. Otherwise it's picked from the registered units.
   const [newResident, setNewResident] = useState({ 
     name: '', 
-    unit: user.role === 'B' ? (user.unit || '') : '', 
+    unit: createUnitLocked ? (user.unit || '') : '', 
     type: 'Family' as Resident['type'],
     licensePlate: '',
-    expirationDate: ''
+    expirationDate: '',
+    schedule: undefined as AccessSchedule | undefined
   });
 
   // Editing State (Full Edit - Role X & B)
@@ -45,15 +66,21 @@ const UserManagement: React.FC<UserManagementProps> = ({ user, residents, setRes
       // 2. Type/Category Match
       const matchesType = filterType === 'ALL' || r.type === filterType;
 
-      // 3. Role Constraints
-      if (user.role === 'B') {
-        return r.unit === user.unit && matchesSearch && matchesType; // Strict unit filter for residents
-      }
-      
-      // Role X and A see everyone (filtered by search and type)
-      return matchesSearch && matchesType;
+      // 3. Active vs Archived
+      const matchesStatus = (r.status === 'Inactive') === showArchived;
+
+      // 4. Permission Constraints ('own' scope: strict unit filter)
+      return can(user, 'resident.view', r) && matchesSearch && matchesType && matchesStatus;
     });
-  }, [residents, searchTerm, filterType, user.role, user.unit]);
+  }, [residents, searchTerm, filterType, showArchived, user, can]);
+
+  const archivedCount = residents.filter(r => r.status === 'Inactive' && can(user, 'resident.view', r)).length;
+
+  // A unit that reached its occupancy limit doesn't take more active residents
+  const occupancyError = (unitNumber: string) => {
+    const unit = findUnit(units, unitNumber);
+    return isUnitFull(unit, residents) ? `La unidad ${unit.number} alcanzó su límite de ocupación (${unit.occupancyLimit} residentes activos).` : '';
+  };
 
   const handleAdd = () => {
     // Validation
@@ -61,6 +88,23 @@ const UserManagement: React.FC<UserManagementProps> = ({ user, residents, setRes
       setFormError('Nombre y Unidad son obligatorios.');
       return;
     }
+    // The account's own unit is trusted; anything else must be a registered unit
+    if (!createUnitLocked && !findUnit(units, newResident.unit)) {
+      setFormError(`La unidad ${newResident.unit} no está registrada.`);
+      return;
+    }
+    const fullError = occupancyError(newResident.unit);
+    if (fullError) {
+      setFormError(fullError);
+      return;
+    }
+    // Recurring windows only apply to visitors (e.g. cleaning staff)
+    const schedule = newResident.type === 'Visitor' ? newResident.schedule : undefined;
+    const scheduleError = schedule && validateSchedule(schedule);
+    if (scheduleError) {
+      setFormError(scheduleError);
+      return;
+    }
     setFormError('');
     
     const resident: Resident = {
@@ -71,18 +115,20 @@ const UserManagement: React.FC<UserManagementProps> = ({ user, residents, setRes
       type: newResident.type,
       status: 'Active',
       licensePlate: newResident.licensePlate.trim() || undefined,
-      expirationDate: newResident.expirationDate || undefined
+      expirationDate: newResident.expirationDate || undefined,
+      schedule
     };
     
-    setResidents(prev => [...prev, resident]);
+    residentActions.save(resident);
     
-    // Reset form, keeping unit if Role B
+    // Reset form, keeping unit if it is locked
     setNewResident({ 
       name: '', 
-      unit: user.role === 'B' ? (user.unit || '') : '', 
+      unit: createUnitLocked ? (user.unit || '') : '', 
       type: 'Family',
       licensePlate: '',
-      expirationDate: ''
+      expirationDate: '',
+      schedule: undefined
     });
   };
 
@@ -94,16 +140,11 @@ const UserManagement: React.FC<UserManagementProps> = ({ user, residents, setRes
       e.stopPropagation();
     }
 
-    // Role check: Only X and B can delete
-    if (user.role !== 'X' && user.role !== 'B') return;
-    
-    // Permission check for B: Only own unit
-    if (user.role === 'B') {
-      const target = residents.find(r => r.id === id);
-      if (target && target.unit !== user.unit) {
-        alert("No tienes permiso para eliminar residentes de otra unidad.");
-        return;
-      }
+    // Permission check ('own' scope: only the user's unit)
+    const target = residents.find(r => r.id === id);
+    if (!target || !can(user, 'resident.delete', target)) {
+      alert("No tienes permiso para eliminar este residente.");
+      return;
     }
     
     setDeletingId(id);
@@ -113,8 +154,7 @@ const UserManagement: React.FC<UserManagementProps> = ({ user, residents, setRes
   const confirmDelete = () => {
     if (!deletingId) return;
 
-    // Functional update ensuring we filter from the latest state
-    setResidents(prev => prev.filter(r => r.id !== deletingId));
+    residentActions.remove(deletingId);
     
     // Clean up local UI states if we deleted the item being edited
     if (editingId === deletingId) setEditingId(null);
@@ -123,16 +163,13 @@ const UserManagement: React.FC<UserManagementProps> = ({ user, residents, setRes
     setDeletingId(null);
   };
 
-  // --- Full Edit Logic (Role X & B) ---
+  // --- Full Edit Logic ('resident.edit') ---
   const handleEditClick = (e: React.MouseEvent, resident: Resident) => {
     e.preventDefault();
     e.stopPropagation();
 
-    // Allow X and B
-    if (user.role !== 'X' && user.role !== 'B') return;
-    
-    // Safety for B: Only edit own unit
-    if (user.role === 'B' && resident.unit !== user.unit) return;
+    // Safety for 'own' scope: Only edit own unit
+    if (!can(user, 'resident.edit', resident)) return;
 
     setEditingId(resident.id);
     setEditForm({ ...resident });
@@ -146,20 +183,33 @@ const UserManagement: React.FC<UserManagementProps> = ({ user, residents, setRes
 
   const handleSaveEdit = () => {
     if (!editingId || !editForm.name || !editForm.unit) return;
+    const schedule = editForm.type === 'Visitor' ? editForm.schedule : undefined;
+    const scheduleError = schedule && validateSchedule(schedule);
+    if (scheduleError) {
+      alert(scheduleError);
+      return;
+    }
+    // Moving someone active into another unit counts against that unit's limit
+    const current = residents.find(r => r.id === editingId);
+    if (current?.status === 'Active' && current.unit !== editForm.unit && occupancyError(editForm.unit)) {
+      alert(occupancyError(editForm.unit));
+      return;
+    }
 
-    setResidents(prev => prev.map(r => 
-      r.id === editingId ? { ...r, ...editForm } as Resident : r
-    ));
+    residentActions.update(editingId, { ...editForm, schedule });
     setEditingId(null);
     setEditForm({});
   };
 
-  // --- Extension Logic (Role X & B) ---
+  // --- Extension Logic ('resident.edit') ---
   const handleExtendClick = (e: React.MouseEvent, resident: Resident) => {
     e.preventDefault();
     e.stopPropagation();
-    
-    if (user.role !== 'X' && user.role !== 'B') return;
+    startExtension(resident);
+  };
+
+  const startExtension = (resident: Resident) => {
+    if (!can(user, 'resident.edit', resident)) return;
     setExtendingId(resident.id);
     
     const dateObj = resident.expirationDate ? new Date(resident.expirationDate) : new Date();
@@ -170,23 +220,59 @@ const UserManagement: React.FC<UserManagementProps> = ({ user, residents, setRes
     setEditingId(null);
   };
 
+  // "Aplazar" from the notification center lands here with the resident to extend
+  useEffect(() => {
+    if (!pendingExtensionId) return;
+    const resident = residents.find(r => r.id === pendingExtensionId);
+    if (resident && can(user, 'resident.edit', resident)) {
+      setShowArchived(resident.status === 'Inactive');
+      setSearchTerm('');
+      setFilterType('ALL');
+      startExtension(resident);
+    }
+    onPendingExtensionHandled?.();
+  }, [pendingExtensionId]);
+
   const handleCancelExtension = () => {
     setExtendingId(null);
     setExtensionDate('');
   };
 
+  // Also restores archived residents: they come back as 'Active' with the new (future or empty) expiration
   const handleSaveExtension = (id: string) => {
-    setResidents(prev => prev.map(r => 
-      r.id === id ? { ...r, expirationDate: extensionDate || undefined } : r
-    ));
+    const target = residents.find(r => r.id === id);
+    if (target?.status === 'Inactive') {
+      if (extensionDate && new Date(extensionDate) <= new Date()) {
+        alert('Para restaurar, el nuevo vencimiento debe ser una fecha futura (o dejarse vacío).');
+        return;
+      }
+      if (occupancyError(target.unit)) {
+        alert(occupancyError(target.unit));
+        return;
+      }
+      residentActions.update(id, { status: 'Active', archivedAt: undefined, expirationDate: extensionDate || undefined });
+    } else {
+      residentActions.update(id, { expirationDate: extensionDate || undefined });
+    }
     setExtendingId(null);
     setExtensionDate('');
   };
 
+  // --- Retention Setting ('tenant.settings') ---
+  const handleSaveRetention = () => {
+    const days = Number(retentionDays);
+    if (!tenant || !Number.isInteger(days) || days <= 0) {
+      alert('La retención debe ser un número entero de días mayor a 0.');
+      return;
+    }
+    tenantActions.update(tenant.id, { residentRetentionDays: days });
+    setRetentionDays('');
+  };
+
 
   const getRoleTitle = () => {
-    if (user.role === 'B') return 'Mi Hogar';
-    if (user.role === 'A') return 'Directorio Global';
+    if (unitScoped) return 'Mi Hogar';
+    if (!can(user, 'resident.edit')) return 'Directorio Global';
     return 'Gestión Global de Residentes';
   };
 
@@ -226,23 +312,66 @@ const UserManagement: React.FC<UserManagementProps> = ({ user, residents, setRes
     return date.toLocaleString('es-ES', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
   };
 
+  // Visitors with a recurring window, and whether they may come in right now
+  const renderSchedule = (r: Resident) => {
+    if (r.type !== 'Visitor' || !r.schedule) return null;
+    const inside = isWithinSchedule(r.schedule, new Date(), tenant);
+    return (
+      <div className={`flex items-center gap-1.5 px-2 py-1 rounded text-xs border ${inside ? 'bg-green-50 text-green-700 border-green-100' : 'bg-gray-50 text-gray-500 border-gray-200'}`} title={inside ? 'Dentro de horario' : 'Fuera de horario'}>
+        <CalendarClock size={12} />
+        {formatSchedule(r.schedule)}
+      </div>
+    );
+  };
+
+  // Toggle + editor for a visitor's recurring window
+  const renderScheduleField = (schedule: AccessSchedule | undefined, onChange: (schedule?: AccessSchedule) => void, compact?: boolean) => (
+    <div className="space-y-2">
+      <label className="flex items-center gap-2 text-xs text-gray-600 cursor-pointer">
+        <input type="checkbox" checked={!!schedule} onChange={e => onChange(e.target.checked ? { ...EMPTY_SCHEDULE } : undefined)} />
+        <CalendarClock size={14} className="text-gray-400" /> Horario recurrente (solo puede ingresar en estos días y horas)
+      </label>
+      {schedule && <ScheduleEditor value={schedule} onChange={onChange} compact={compact} />}
+    </div>
+  );
+
+  const renderStatus = (r: Resident) => {
+    if (r.status !== 'Inactive') {
+      return (
+        <span className="text-xs px-2 py-1 rounded-full bg-green-100 text-green-700 border border-green-200 font-medium">
+          {r.status}
+        </span>
+      );
+    }
+    const purgeDate = getPurgeDate(r, tenant);
+    return (
+      <div className="flex flex-col items-start gap-1">
+        <span className="text-xs px-2 py-1 rounded-full bg-gray-100 text-gray-600 border border-gray-200 font-medium flex items-center gap-1">
+          <Archive size={12} /> Archivado
+        </span>
+        {r.archivedAt && <span className="text-[11px] text-gray-400">Desde {formatDate(r.archivedAt)}</span>}
+        {purgeDate && <span className="text-[11px] text-red-400">Se elimina {formatDate(purgeDate.toISOString())}</span>}
+      </div>
+    );
+  };
+
   return (
     <div className="space-y-6 relative">
       <div className="flex flex-col gap-4">
         <div>
           <h2 className="text-xl md:text-2xl font-bold text-gray-800 flex items-center gap-2">
-            {user.role === 'B' ? <Home className="text-blue-600" /> : <Search className="text-blue-600" />}
+            {unitScoped ? <Home className="text-blue-600" /> : <Search className="text-blue-600" />}
             {getRoleTitle()}
           </h2>
           <p className="text-sm md:text-base text-gray-500">
-            {user.role === 'B' 
+            {unitScoped 
               ? `Unidad: ${user.unit} - Gestiona a las personas autorizadas.` 
-              : `Tenant: ${user.tenantId} - Búsqueda en todo el condominio.`}
+              : `${tenant?.name || user.tenantId} - Búsqueda en todo el condominio.`}
           </p>
         </div>
         
-        {/* Add Form: Available for X and B */}
-        {(user.role === 'X' || user.role === 'B') && !editingId && !extendingId && (
+        {/* Add Form: 'resident.create' */}
+        {can(user, 'resident.create') && !editingId && !extendingId && (
            <div className={`bg-white p-4 rounded-xl shadow-sm border ${formError ? 'border-red-300 ring-2 ring-red-50' : 'border-gray-200'} transition-all`}>
              <div className="flex justify-between items-center mb-3">
                <h3 className="text-sm font-semibold text-gray-700">Agregar Nueva Persona</h3>
@@ -264,19 +393,16 @@ const UserManagement: React.FC<UserManagementProps> = ({ user, residents, setRes
                    />
                  </div>
                  
-                 {/* Unit input: Always visible. Locked for B, Editable for X */}
-                 <div className="w-full md:w-24">
+                 {/* Unit picker: Always visible. Locked with an 'own' grant */}
+                 <div className="w-full md:w-40">
                    <label className="text-xs text-gray-500 mb-1 block">Unidad <span className="text-red-400">*</span></label>
-                   <input 
-                     placeholder="101" 
-                     className={`w-full border p-2 rounded-lg text-sm outline-none transition-all ${
-                       user.role === 'B' 
-                         ? 'bg-gray-100 text-gray-500 cursor-not-allowed' 
-                         : 'focus:border-blue-500 focus:ring-1 focus:ring-blue-500'
-                     }`}
+                   <UnitPicker
+                     units={units}
+                     tenant={tenant}
                      value={newResident.unit}
-                     onChange={e => user.role === 'X' && setNewResident({...newResident, unit: e.target.value})}
-                     disabled={user.role === 'B'}
+                     onChange={unit => !createUnitLocked && setNewResident({...newResident, unit})}
+                     disabled={createUnitLocked}
+                     className={`w-full transition-all ${createUnitLocked ? 'cursor-not-allowed' : 'focus:ring-1 focus:ring-blue-500'}`}
                    />
                  </div>
 
@@ -332,6 +458,8 @@ const UserManagement: React.FC<UserManagementProps> = ({ user, residents, setRes
                    Agregar
                  </button>
                </div>
+
+               {newResident.type === 'Visitor' && renderScheduleField(newResident.schedule, schedule => setNewResident({...newResident, schedule}))}
              </div>
            </div>
         )}
@@ -344,7 +472,7 @@ const UserManagement: React.FC<UserManagementProps> = ({ user, residents, setRes
             <Search className="text-gray-400" size={20} />
             <input 
               className="flex-1 outline-none text-gray-700 text-sm md:text-base bg-transparent placeholder-gray-400"
-              placeholder={user.role === 'B' ? "Buscar en mi familia..." : "Buscar nombre, unidad o patente..."}
+              placeholder={unitScoped ? "Buscar en mi familia..." : "Buscar nombre, unidad o patente..."}
               value={searchTerm}
               onChange={e => setSearchTerm(e.target.value)}
             />
@@ -367,7 +495,55 @@ const UserManagement: React.FC<UserManagementProps> = ({ user, residents, setRes
                <option value="Delivery">Delivery</option>
              </select>
           </div>
+
+          {/* Active / Archived Toggle */}
+          <div className="flex bg-gray-100 p-1 rounded-lg text-sm font-medium">
+            <button
+              onClick={() => { setShowArchived(false); handleCancelExtension(); }}
+              type="button"
+              className={`flex-1 px-3 py-1.5 rounded-md transition-colors ${!showArchived ? 'bg-white shadow-sm text-gray-800' : 'text-gray-500'}`}
+            >
+              Activos
+            </button>
+            <button
+              onClick={() => { setShowArchived(true); handleCancelEdit(); handleCancelExtension(); }}
+              type="button"
+              className={`flex-1 px-3 py-1.5 rounded-md transition-colors flex items-center justify-center gap-1 ${showArchived ? 'bg-white shadow-sm text-gray-800' : 'text-gray-500'}`}
+            >
+              <Archive size={14} /> Archivados ({archivedCount})
+            </button>
+          </div>
         </div>
+
+        {/* Retention Notice / Setting (editable with 'tenant.settings') */}
+        {showArchived && (
+          <div className="px-4 py-3 border-b border-gray-200 bg-gray-50 flex flex-col md:flex-row md:items-center gap-3 text-sm text-gray-600">
+            <span className="flex items-center gap-2">
+              <Clock size={14} className="text-gray-400" />
+              Los registros vencidos se conservan {getRetentionDays(tenant)} días antes de eliminarse definitivamente.
+            </span>
+            {can(user, 'tenant.settings') && (
+              <div className="flex items-center gap-2 md:ml-auto">
+                <input
+                  type="number"
+                  min={1}
+                  placeholder={String(getRetentionDays(tenant))}
+                  className="w-24 border p-1.5 rounded text-sm bg-white outline-none focus:border-blue-500"
+                  value={retentionDays}
+                  onChange={e => setRetentionDays(e.target.value)}
+                />
+                <button
+                  onClick={handleSaveRetention}
+                  disabled={!retentionDays}
+                  type="button"
+                  className="bg-blue-600 text-white px-3 py-1.5 rounded text-sm flex items-center gap-1 font-medium disabled:opacity-50"
+                >
+                  <Save size={14} /> Guardar días
+                </button>
+              </div>
+            )}
+          </div>
+        )}
         
         {/* Mobile View: Cards */}
         <div className="md:hidden bg-gray-50 p-4 space-y-4">
@@ -406,6 +582,7 @@ const UserManagement: React.FC<UserManagementProps> = ({ user, residents, setRes
                         onChange={e => setEditForm({...editForm, licensePlate: e.target.value.toUpperCase()})}
                       />
                     </div>
+                    {editForm.type === 'Visitor' && renderScheduleField(editForm.schedule, schedule => setEditForm({...editForm, schedule}))}
                     <div className="flex justify-end gap-2 pt-2 items-center">
                        <button 
                          onClick={(e) => initiateDelete(e, r.id)}
@@ -439,9 +616,7 @@ const UserManagement: React.FC<UserManagementProps> = ({ user, residents, setRes
                           </span>
                         </div>
                       </div>
-                      <span className="text-xs px-2 py-1 rounded-full bg-green-100 text-green-700 border border-green-200 font-medium">
-                          {r.status}
-                      </span>
+                      {renderStatus(r)}
                    </div>
                    
                    <div className="space-y-2 text-sm text-gray-600 mt-3 border-t pt-3 border-gray-100">
@@ -460,11 +635,12 @@ const UserManagement: React.FC<UserManagementProps> = ({ user, residents, setRes
                           <span className="text-gray-300">-</span>
                         )}
                      </div>
+                     {renderSchedule(r)}
 
                      {/* Expiration Display OR Edit Mode */}
                      {extendingId === r.id ? (
                         <div className="bg-orange-50 p-3 rounded border border-orange-200 animate-in fade-in">
-                          <label className="text-xs text-orange-700 font-bold mb-1 block">Nuevo Vencimiento:</label>
+                          <label className="text-xs text-orange-700 font-bold mb-1 block">{showArchived ? 'Restaurar hasta (vacío = sin límite):' : 'Nuevo Vencimiento:'}</label>
                           <input 
                             type="datetime-local"
                             className="w-full border p-1.5 rounded text-sm bg-white mb-2"
@@ -481,7 +657,7 @@ const UserManagement: React.FC<UserManagementProps> = ({ user, residents, setRes
                           </div>
                         </div>
                      ) : (
-                        (r.expirationDate || user.role === 'B') && (
+                        (r.expirationDate || can(user, 'resident.edit', r)) && (
                           <div className="flex justify-between items-center bg-gray-50 p-2 rounded border border-gray-100">
                             <span className="text-gray-500 flex items-center gap-1 text-xs">
                                <Clock size={12} /> Vencimiento:
@@ -497,20 +673,20 @@ const UserManagement: React.FC<UserManagementProps> = ({ user, residents, setRes
                    </div>
 
                    <div className="flex justify-end gap-3 mt-4 pt-2 border-t border-gray-50">
-                      {/* Extend Button: X and B */}
-                      {(user.role === 'X' || user.role === 'B') && !extendingId && (
+                      {/* Extend / Restore Button: 'resident.edit' */}
+                      {can(user, 'resident.edit', r) && !extendingId && (
                         <button 
                           onClick={(e) => handleExtendClick(e, r)}
                           type="button"
                           className="flex items-center gap-1 text-orange-600 text-sm font-medium hover:bg-orange-50 px-3 py-1.5 rounded transition-colors"
-                          title="Aplazar Vencimiento"
+                          title={showArchived ? 'Restaurar con nuevo vencimiento' : 'Aplazar Vencimiento'}
                         >
-                          <History size={16} /> Aplazar
+                          {showArchived ? <><RotateCcw size={16} /> Restaurar</> : <><History size={16} /> Aplazar</>}
                         </button>
                       )}
 
-                      {/* Edit Button: X and B */}
-                      {(user.role === 'X' || user.role === 'B') && !extendingId && (
+                      {/* Edit Button: 'resident.edit' */}
+                      {can(user, 'resident.edit', r) && !extendingId && !showArchived && (
                         <button 
                           onClick={(e) => handleEditClick(e, r)}
                           type="button"
@@ -520,8 +696,8 @@ const UserManagement: React.FC<UserManagementProps> = ({ user, residents, setRes
                         </button>
                       )}
                       
-                      {/* Delete Button: X and B */}
-                      {(user.role === 'X' || user.role === 'B') && !extendingId && (
+                      {/* Delete Button: 'resident.delete' */}
+                      {can(user, 'resident.delete', r) && !extendingId && (
                         <button 
                           onClick={(e) => initiateDelete(e, r.id)}
                           type="button" 
@@ -566,11 +742,13 @@ const UserManagement: React.FC<UserManagementProps> = ({ user, residents, setRes
                       </td>
                       <td className="p-4">
                         {/* Unit: Read-only for B */}
-                        <input 
-                          className={`w-full border p-2 rounded text-sm w-24 outline-none ${user.role === 'B' ? 'bg-gray-100 text-gray-500 cursor-not-allowed' : 'focus:border-blue-500'}`}
-                          value={editForm.unit}
-                          onChange={e => setEditForm({...editForm, unit: e.target.value})}
-                          disabled={user.role === 'B'}
+                        <UnitPicker
+                          units={units}
+                          tenant={tenant}
+                          value={editForm.unit || ''}
+                          onChange={unit => setEditForm({...editForm, unit})}
+                          disabled={editUnitLocked}
+                          className={`w-full ${editUnitLocked ? 'cursor-not-allowed' : ''}`}
                         />
                       </td>
                       <td className="p-4">
@@ -593,6 +771,7 @@ const UserManagement: React.FC<UserManagementProps> = ({ user, residents, setRes
                             onChange={e => setEditForm({...editForm, licensePlate: e.target.value.toUpperCase()})}
                             placeholder="Patente"
                           />
+                          {editForm.type === 'Visitor' && renderScheduleField(editForm.schedule, schedule => setEditForm({...editForm, schedule}), true)}
                         </div>
                       </td>
                       <td className="p-4"><span className="text-gray-400 text-sm">Editando...</span></td>
@@ -661,40 +840,39 @@ const UserManagement: React.FC<UserManagementProps> = ({ user, residents, setRes
                                   {r.licensePlate}
                                 </div>
                               ) : null}
+                              {renderSchedule(r)}
                               {r.expirationDate ? (
                                 <div className="flex items-center gap-1.5 text-red-600 bg-red-50 px-2 py-1 rounded text-xs border border-red-100 font-medium" title="Expiración Automática">
                                   <Clock size={12} />
                                   {formatDate(r.expirationDate)}
                                 </div>
                               ) : (
-                                (user.role === 'X' || user.role === 'B') && !r.licensePlate && <span className="text-gray-300 text-xs">-</span>
+                                can(user, 'resident.edit', r) && !r.licensePlate && !r.schedule && <span className="text-gray-300 text-xs">-</span>
                               )}
                           </div>
                         )}
                       </td>
                       
                       <td className="p-4">
-                        <span className="text-xs px-2 py-1 rounded-full bg-green-100 text-green-700 border border-green-200 font-medium">
-                          {r.status}
-                        </span>
+                        {renderStatus(r)}
                       </td>
                       <td className="p-4 text-right">
                         <div className="flex justify-end gap-2">
                           
-                          {/* Extend Button: X and B (Only if not already extending) */}
-                          {(user.role === 'X' || user.role === 'B') && !extendingId && (
+                          {/* Extend / Restore Button: 'resident.edit' (Only if not already extending) */}
+                          {can(user, 'resident.edit', r) && !extendingId && (
                             <button 
                               onClick={(e) => handleExtendClick(e, r)}
                               type="button"
                               className="text-orange-400 hover:text-orange-600 hover:bg-orange-50 p-1.5 rounded transition-colors"
-                              title="Aplazar / Modificar Vencimiento"
+                              title={showArchived ? 'Restaurar con nuevo vencimiento' : 'Aplazar / Modificar Vencimiento'}
                             >
-                              <History size={18} />
+                              {showArchived ? <RotateCcw size={18} /> : <History size={18} />}
                             </button>
                           )}
 
-                          {/* Edit Button: X and B */}
-                          {(user.role === 'X' || user.role === 'B') && !extendingId && (
+                          {/* Edit Button: 'resident.edit' */}
+                          {can(user, 'resident.edit', r) && !extendingId && !showArchived && (
                             <button 
                               onClick={(e) => handleEditClick(e, r)}
                               type="button"
@@ -705,8 +883,8 @@ const UserManagement: React.FC<UserManagementProps> = ({ user, residents, setRes
                             </button>
                           )}
                           
-                          {/* Delete Button: X and B */}
-                          {(user.role === 'X' || user.role === 'B') && !extendingId ? (
+                          {/* Delete Button: 'resident.delete' */}
+                          {can(user, 'resident.delete', r) && !extendingId ? (
                             <button 
                               onClick={(e) => initiateDelete(e, r.id)}
                               type="button" 
@@ -716,7 +894,7 @@ const UserManagement: React.FC<UserManagementProps> = ({ user, residents, setRes
                               <Trash2 size={18} />
                             </button>
                           ) : (
-                            !extendingId && user.role === 'A' && <span className="text-gray-400 cursor-not-allowed" title="Solo lectura"><ShieldAlert size={18} /></span>
+                            !extendingId && !can(user, 'resident.edit', r) && <span className="text-gray-400 cursor-not-allowed" title="Solo lectura"><ShieldAlert size={18} /></span>
                           )}
                         </div>
                       </td>
@@ -732,7 +910,7 @@ const UserManagement: React.FC<UserManagementProps> = ({ user, residents, setRes
             <div className="p-12 text-center text-gray-400 flex flex-col items-center">
               <UserCheck size={48} className="mb-4 opacity-20" />
               <p className="font-medium">No se encontraron registros.</p>
-              {user.role === 'B' && <p className="text-sm mt-1 text-gray-500">Agrega residentes, familiares o visitas frecuentes usando el formulario arriba.</p>}
+              {unitScoped && can(user, 'resident.create') && <p className="text-sm mt-1 text-gray-500">Agrega residentes, familiares o visitas frecuentes usando el formulario arriba.</p>}
             </div>
           )}
       </div>
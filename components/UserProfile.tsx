@@ -1,14 +1,41 @@
 import React, { useState, useRef, useMemo } from 'react';
-import { User, Role } from '../types';
-import { User as UserIcon, Camera, Save, Shield, Edit, Upload, Image as ImageIcon, Lock } from 'lucide-react';
+import { User, Role, UserCredential, Tenant, Resident, Unit } from '../types';
+import { User as UserIcon, Camera, Save, Shield, Edit, Upload, Image as ImageIcon, Lock, UserX, UserCheck, Trash2 } from 'lucide-react';
+import SecuritySettings from './SecuritySettings';
+import UnitDelegation from './UnitDelegation';
+import UserAccounts from './UserAccounts';
+import { CollectionActions } from '../hooks';
+import { AuditRecorder } from '../audit';
+import { PermissionCheck, ANY_RESOURCE, ROLES, ROLE_LABELS } from '../permissions';
+import { isUserActive } from '../users';
+
+const ROLE_BADGE_STYLES: Record<Role, string> = {
+  X: 'bg-purple-50 text-purple-700 border-purple-100',
+  A: 'bg-blue-50 text-blue-700 border-blue-100',
+  B: 'bg-green-50 text-green-700 border-green-100',
+  M: 'bg-indigo-50 text-indigo-700 border-indigo-100',
+  C: 'bg-amber-50 text-amber-700 border-amber-100',
+  R: 'bg-teal-50 text-teal-700 border-teal-100',
+};
 
 interface UserProfileProps {
   currentUser: User;
+  tenant?: Tenant;
+  can: PermissionCheck;
   systemUsers: User[];
-  setSystemUsers: (users: User[]) => void;
+  userActions: CollectionActions<User>;
+  residents: Resident[];
+  residentActions: CollectionActions<Resident>;
+  units: Unit[];
+  unitActions: CollectionActions<Unit>;
+  credentials: UserCredential[];
+  setCredentials: (value: UserCredential[] | ((val: UserCredential[]) => UserCredential[])) => void;
+  activeSessionCount: number;
+  onLogoutAllSessions: () => void;
+  onAudit: AuditRecorder;
 }
 
-const UserProfile: React.FC<UserProfileProps> = ({ currentUser, systemUsers, setSystemUsers }) => {
+const UserProfile: React.FC<UserProfileProps> = ({ currentUser, tenant, can, systemUsers, userActions, residents, residentActions, units, unitActions, credentials, setCredentials, activeSessionCount, onLogoutAllSessions, onAudit }) => {
   const [selectedUserId, setSelectedUserId] = useState<string>(currentUser.id);
   const [editForm, setEditForm] = useState<Partial<User>>({});
   const [isEditing, setIsEditing] = useState(false);
@@ -19,23 +46,29 @@ const UserProfile: React.FC<UserProfileProps> = ({ currentUser, systemUsers, set
     systemUsers.filter(u => u.tenantId === currentUser.tenantId),
   [systemUsers, currentUser.tenantId]);
 
-  // 2. Determine who is being viewed/edited
-  // SECURITY: If Role B, ALWAYS force targetUser to be currentUser to prevent viewing others.
-  // For Role X and A, allow selection from the list.
-  const targetUser = currentUser.role === 'B' 
-    ? currentUser 
-    : (tenantUsers.find(u => u.id === selectedUserId) || currentUser);
+  // 2. Visibility Rules (User List)
+  // Only with 'user.view' over everyone ('own' scope = just your profile)
+  const showUserList = can(currentUser, 'user.view', ANY_RESOURCE);
 
-  const isSelf = targetUser.id === currentUser.id;
+  // 3. Determine who is being viewed/edited
+  // SECURITY: Without the list, ALWAYS force targetUser to be currentUser to prevent viewing others.
+  const selectedUser = tenantUsers.find(u => u.id === selectedUserId);
+  const targetUser = selectedUser && can(currentUser, 'user.view', { userId: selectedUser.id })
+    ? selectedUser
+    : currentUser;
 
-  // 3. Visibility Rules (User List)
-  // Role X and A can see the list. Role B cannot.
-  const showUserList = currentUser.role === 'X' || currentUser.role === 'A';
+  const isSelf = targetUser.id === currentUser.id;
 
   // 4. Edit Permission Rules
-  // - Admin (X) can edit anyone.
-  // - Others (A, B) can only edit themselves.
-  const canEdit = currentUser.role === 'X' || isSelf;
+  // - 'user.edit' over everyone can edit anyone.
+  // - 'own' scope can only edit themselves.
+  const canEdit = can(currentUser, 'user.edit', { userId: targetUser.id });
+
+  // 5. Lifecycle Rules (never on your own account)
+  // - Deactivating/reactivating needs 'user.edit' over everyone; deleting needs 'user.delete'.
+  const canChangeStatus = !isSelf && can(currentUser, 'user.edit', ANY_RESOURCE);
+  const canDelete = !isSelf && can(currentUser, 'user.delete');
+  const isTargetActive = isUserActive(targetUser);
 
   const handleEditClick = () => {
     setEditForm({
@@ -47,21 +80,29 @@ const UserProfile: React.FC<UserProfileProps> = ({ currentUser, systemUsers, set
   };
 
   const handleSave = () => {
-    const updatedUsers = systemUsers.map(u => {
-      if (u.id === targetUser.id) {
-        return { ...u, ...editForm } as User;
-      }
-      return u;
-    });
-
-    setSystemUsers(updatedUsers);
+    userActions.update(targetUser.id, editForm);
     setIsEditing(false);
     setEditForm({});
   };
 
+  const handleToggleStatus = () => {
+    if (isTargetActive && !confirm(`¿Desactivar a ${targetUser.name}? No podrá ingresar hasta que lo reactives.`)) return;
+    userActions.update(targetUser.id, isTargetActive
+      ? { status: 'Inactive', deactivatedAt: new Date().toISOString() }
+      : { status: 'Active', deactivatedAt: undefined });
+  };
+
+  const handleDelete = () => {
+    if (!confirm(`¿Eliminar definitivamente la cuenta de ${targetUser.name}? Para quien se mudó, es preferible desactivarla.`)) return;
+    userActions.remove(targetUser.id);
+    setCredentials(prev => prev.filter(c => c.userId !== targetUser.id));
+    setSelectedUserId(currentUser.id);
+    setIsEditing(false);
+  };
+
   const handleUserSelect = (userId: string) => {
-    // Double check: Role B should not be able to switch users
-    if (currentUser.role === 'B') return;
+    // Double check: users without the list should not be able to switch users
+    if (!showUserList) return;
     
     setSelectedUserId(userId);
     setIsEditing(false); // Cancel edit mode when switching users
@@ -92,9 +133,9 @@ const UserProfile: React.FC<UserProfileProps> = ({ currentUser, systemUsers, set
             {showUserList ? 'Directorio de Usuarios' : 'Mi Perfil'}
           </h2>
           <p className="text-gray-500">
-            {currentUser.role === 'X' 
-              ? 'Administra perfiles y permisos.'
-              : currentUser.role === 'A' 
+            {can(currentUser, 'user.edit', ANY_RESOURCE) 
+              ? 'Administra cuentas, perfiles y permisos.'
+              : showUserList 
                 ? 'Visualiza usuarios del dominio y gestiona tu perfil.'
                 : 'Gestiona tu información personal.'}
           </p>
@@ -102,13 +143,13 @@ const UserProfile: React.FC<UserProfileProps> = ({ currentUser, systemUsers, set
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-        {/* Left Column: User List (Visible for X and A) */}
+        {/* Left Column: User List ('user.view') */}
         {showUserList && (
           <div className="lg:col-span-1 bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden flex flex-col h-[500px]">
             <div className="p-4 border-b border-gray-100 bg-gray-50 flex justify-between items-center">
               <h3 className="font-bold text-gray-700">Usuarios ({tenantUsers.length})</h3>
               <span className="text-xs text-blue-600 bg-blue-100 px-2 py-0.5 rounded">
-                {currentUser.tenantId}
+                {tenant?.name || currentUser.tenantId}
               </span>
             </div>
             <div className="overflow-y-auto flex-1 p-2 space-y-1">
@@ -120,7 +161,7 @@ const UserProfile: React.FC<UserProfileProps> = ({ currentUser, systemUsers, set
                     ${targetUser.id === user.id ? 'bg-blue-50 border border-blue-200' : 'hover:bg-gray-50 border border-transparent'}
                   `}
                 >
-                  <img src={user.avatar} alt={user.name} className="w-10 h-10 rounded-full bg-gray-200 object-cover" />
+                  <img src={user.avatar} alt={user.name} className={`w-10 h-10 rounded-full bg-gray-200 object-cover ${isUserActive(user) ? '' : 'grayscale opacity-60'}`} />
                   <div className="overflow-hidden flex-1">
                     <div className="flex justify-between items-center">
                       <p className={`font-medium truncate text-sm ${targetUser.id === user.id ? 'text-blue-700' : 'text-gray-800'}`}>
@@ -129,13 +170,11 @@ const UserProfile: React.FC<UserProfileProps> = ({ currentUser, systemUsers, set
                       {user.id === currentUser.id && <span className="text-[10px] bg-gray-200 text-gray-600 px-1 rounded">Tú</span>}
                     </div>
                     <div className="flex items-center gap-2 mt-0.5">
-                      <span className={`text-[10px] px-1.5 py-0.5 rounded border ${
-                        user.role === 'X' ? 'bg-purple-50 text-purple-700 border-purple-100' :
-                        user.role === 'A' ? 'bg-blue-50 text-blue-700 border-blue-100' : 'bg-green-50 text-green-700 border-green-100'
-                      }`}>
-                        {user.role === 'X' ? 'Admin' : user.role === 'A' ? 'Portería' : 'Residente'}
+                      <span className={`text-[10px] px-1.5 py-0.5 rounded border ${ROLE_BADGE_STYLES[user.role]}`}>
+                        {ROLE_LABELS[user.role]}
                       </span>
                       {user.unit && <span className="text-[10px] text-gray-400">U:{user.unit}</span>}
+                      {!isUserActive(user) && <span className="text-[10px] text-red-500">Inactivo</span>}
                     </div>
                   </div>
                 </button>
@@ -179,8 +218,13 @@ const UserProfile: React.FC<UserProfileProps> = ({ currentUser, systemUsers, set
               <p className="text-gray-500 text-sm">{targetUser.email}</p>
               <div className="mt-2 inline-flex items-center gap-1.5 px-3 py-1 rounded-full bg-blue-50 text-blue-700 text-xs font-medium border border-blue-100">
                 <Shield size={12} />
-                {targetUser.role === 'X' ? 'Administrador' : targetUser.role === 'A' ? 'Seguridad / Portería' : `Residente ${targetUser.unit ? `(U: ${targetUser.unit})` : ''}`}
+                {ROLE_LABELS[targetUser.role]}{targetUser.unit ? ` (U: ${targetUser.unit})` : ''}
               </div>
+              {!isTargetActive && (
+                <p className="mt-2 text-xs text-red-600">
+                  Cuenta desactivada{targetUser.deactivatedAt ? ` el ${new Date(targetUser.deactivatedAt).toLocaleDateString('es-ES')}` : ''}
+                </p>
+              )}
             </div>
 
             {/* Read-Only Message for Role A viewing others */}
@@ -247,8 +291,8 @@ const UserProfile: React.FC<UserProfileProps> = ({ currentUser, systemUsers, set
                 )}
               </div>
 
-              {/* Role Field - ONLY VISIBLE TO ADMIN (Role X) when editing */}
-              {currentUser.role === 'X' && (
+              {/* Role Field - ONLY VISIBLE WITH 'user.role' */}
+              {can(currentUser, 'user.role') && (
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Rol de Usuario</label>
                   {isEditing ? (
@@ -259,16 +303,14 @@ const UserProfile: React.FC<UserProfileProps> = ({ currentUser, systemUsers, set
                           className="w-full border p-3 rounded-lg outline-none focus:ring-2 focus:ring-blue-500 bg-white"
                           disabled={isSelf} // Prevent admin from demoting themselves by accident easily
                         >
-                          <option value="X">X - Administrador (Dueño)</option>
-                          <option value="A">A - Portería (Seguridad)</option>
-                          <option value="B">B - Residente</option>
+                          {ROLES.map(role => <option key={role} value={role}>{role} - {ROLE_LABELS[role]}</option>)}
                         </select>
                         {isSelf && <p className="text-xs text-yellow-600 mt-1">No puedes cambiar tu propio rol.</p>}
                      </div>
                   ) : (
                     <div className="p-3 bg-gray-50 rounded-lg text-gray-700 border border-gray-100 flex items-center justify-between">
                        <span>
-                         {targetUser.role === 'X' ? 'Administrador' : targetUser.role === 'A' ? 'Portería' : 'Residente'}
+                         {ROLE_LABELS[targetUser.role]}
                        </span>
                     </div>
                   )}
@@ -303,10 +345,63 @@ const UserProfile: React.FC<UserProfileProps> = ({ currentUser, systemUsers, set
                   )}
                 </div>
               )}
+
+              {/* Lifecycle: deactivate / reactivate / delete someone else's account */}
+              {!isEditing && (canChangeStatus || canDelete) && (
+                <div className="pt-4 border-t border-gray-100 flex flex-col sm:flex-row justify-end gap-3">
+                  {canChangeStatus && (
+                    <button
+                      onClick={handleToggleStatus}
+                      className={`px-4 py-2 rounded-lg border text-sm font-medium transition-colors flex items-center justify-center gap-2 ${isTargetActive ? 'border-yellow-300 text-yellow-700 hover:bg-yellow-50' : 'border-green-300 text-green-700 hover:bg-green-50'}`}
+                    >
+                      {isTargetActive ? <><UserX size={16} /> Desactivar cuenta</> : <><UserCheck size={16} /> Reactivar cuenta</>}
+                    </button>
+                  )}
+                  {canDelete && (
+                    <button
+                      onClick={handleDelete}
+                      className="px-4 py-2 rounded-lg border border-red-200 text-red-600 text-sm font-medium hover:bg-red-50 transition-colors flex items-center justify-center gap-2"
+                    >
+                      <Trash2 size={16} /> Eliminar usuario
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {/* Credentials & Sessions: only for your own account */}
+              {isSelf && !isEditing && (
+                <SecuritySettings
+                  user={currentUser}
+                  can={can}
+                  credentials={credentials}
+                  setCredentials={setCredentials}
+                  activeSessionCount={activeSessionCount}
+                  onLogoutAllSessions={onLogoutAllSessions}
+                  onAudit={onAudit}
+                />
+              )}
             </div>
           </div>
         </div>
       </div>
+
+      {/* Account lifecycle: new users, unit transfer and offboarding */}
+      <UserAccounts
+        currentUser={currentUser}
+        can={can}
+        systemUsers={systemUsers}
+        userActions={userActions}
+        residents={residents}
+        residentActions={residentActions}
+        units={units}
+        unitActions={unitActions}
+        tenant={tenant}
+        setCredentials={setCredentials}
+        onAudit={onAudit}
+      />
+
+      {/* Owner -> renter delegation of unit rights */}
+      <UnitDelegation currentUser={currentUser} can={can} tenantUsers={tenantUsers} userActions={userActions} />
     </div>
   );
 };
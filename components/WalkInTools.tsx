@@ -0,0 +1,243 @@
+import React, { useState, useMemo } from 'react';
+import { User, Resident, Visit } from '../types';
+import { UserPlus, Clock, CheckCircle, XCircle, DoorOpen, Car, AlertCircle, BellRing } from 'lucide-react';
+import { isValidRut, formatRut } from '../validation';
+import { CollectionActions } from '../hooks';
+import { PermissionCheck } from '../permissions';
+
+const formatTime = (iso: string) => {
+  return new Date(iso).toLocaleString('es-ES', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+};
+
+// Sub-component for Portería ('qr.validate': Role A & X by default): register visitors arriving without a QR.
+// `gateId` is the access point bound to the guard's session (picked in the validator next to it).
+export const WalkInRegistration: React.FC<{ user: User, can: PermissionCheck, residents: Resident[], visits: Visit[], visitActions: CollectionActions<Visit>, gateId?: string }> = ({ user, can, residents, visits, visitActions, gateId }) => {
+  const [form, setForm] = useState({ visitorName: '', visitorRut: '', licensePlate: '', residentId: '' });
+  const [formError, setFormError] = useState('');
+
+  // Walk-in requests from the last 24 hours, newest first
+  const recentRequests = useMemo(() => {
+    const since = Date.now() - 24 * 60 * 60 * 1000;
+    return visits
+      .filter(v => v.source === 'WalkIn' && new Date(v.date).getTime() >= since)
+      .sort((a, b) => b.date.localeCompare(a.date));
+  }, [visits]);
+
+  if (!can(user, 'qr.validate')) return null;
+
+  const handleRegister = () => {
+    if (!form.visitorName.trim() || !form.residentId) {
+      setFormError('Nombre del visitante y residente son obligatorios.');
+      return;
+    }
+    if (form.visitorRut.trim() && !isValidRut(form.visitorRut)) {
+      setFormError('RUT inválido. Revisa el dígito verificador.');
+      return;
+    }
+    setFormError('');
+
+    const visit: Visit = {
+      id: crypto.randomUUID(),
+      tenantId: user.tenantId,
+      visitorName: form.visitorName.trim(),
+      residentId: form.residentId,
+      date: new Date().toISOString(),
+      status: 'Pending',
+      code: '-',
+      guard: { id: user.id, name: user.name },
+      visitorRut: form.visitorRut.trim() ? formatRut(form.visitorRut) : undefined,
+      licensePlate: form.licensePlate.trim() || undefined,
+      source: 'WalkIn',
+      gateId
+    };
+    visitActions.save(visit);
+    setForm({ visitorName: '', visitorRut: '', licensePlate: '', residentId: '' });
+  };
+
+  const handleCheckIn = (id: string) => {
+    const checkInAt = new Date().toISOString();
+    visitActions.update(id, { checkInAt });
+  };
+
+  return (
+    <div className="max-w-md mx-auto bg-white rounded-xl shadow-lg border border-gray-100 overflow-hidden">
+      <div className="p-5 border-b border-gray-100 flex items-center gap-2 bg-orange-50/30">
+        <UserPlus className="text-orange-500" size={20} />
+        <h3 className="text-lg font-bold text-gray-800">Visita sin Invitación</h3>
+      </div>
+
+      <div className="p-5 space-y-3">
+        <div>
+          <label className="text-xs text-gray-500 mb-1 block">Nombre del Visitante <span className="text-red-400">*</span></label>
+          <input
+            className="w-full border p-2 rounded-lg text-sm outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+            placeholder="Ej. Juan Pérez"
+            value={form.visitorName}
+            onChange={e => setForm({ ...form, visitorName: e.target.value })}
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="text-xs text-gray-500 mb-1 block">RUT <span className="text-gray-300">(Opc)</span></label>
+            <input
+              className="w-full border p-2 rounded-lg text-sm outline-none focus:border-blue-500"
+              placeholder="12.345.678-5"
+              value={form.visitorRut}
+              onChange={e => setForm({ ...form, visitorRut: e.target.value })}
+            />
+          </div>
+          <div>
+            <label className="text-xs text-gray-500 mb-1 block">Patente <span className="text-gray-300">(Opc)</span></label>
+            <div className="relative">
+              <input
+                className="w-full border p-2 pl-7 rounded-lg text-sm outline-none focus:border-blue-500 uppercase"
+                placeholder="ABC-123"
+                value={form.licensePlate}
+                onChange={e => setForm({ ...form, licensePlate: e.target.value.toUpperCase() })}
+              />
+              <Car size={14} className="absolute left-2 top-2.5 text-gray-400" />
+            </div>
+          </div>
+        </div>
+        <div>
+          <label className="text-xs text-gray-500 mb-1 block">Visita a <span className="text-red-400">*</span></label>
+          <select
+            className="w-full border p-2 rounded-lg text-sm outline-none focus:border-blue-500 bg-white"
+            value={form.residentId}
+            onChange={e => setForm({ ...form, residentId: e.target.value })}
+          >
+            <option value="">Seleccionar residente...</option>
+            {residents.filter(r => r.status === 'Active').map(r => (
+              <option key={r.id} value={r.id}>{r.name} - {r.unit}</option>
+            ))}
+          </select>
+        </div>
+
+        {formError && (
+          <p className="text-xs text-red-600 flex items-center gap-1 font-medium">
+            <AlertCircle size={12} /> {formError}
+          </p>
+        )}
+
+        <button
+          onClick={handleRegister}
+          className="w-full bg-orange-500 hover:bg-orange-600 text-white font-semibold py-2 rounded-lg transition-colors shadow-sm"
+        >
+          Solicitar Autorización
+        </button>
+      </div>
+
+      {recentRequests.length > 0 && (
+        <div className="border-t border-gray-100">
+          {recentRequests.map(visit => {
+            const resident = residents.find(r => r.id === visit.residentId);
+            return (
+              <div key={visit.id} className="flex items-center justify-between p-4 border-b border-gray-50 last:border-0">
+                <div>
+                  <p className="font-semibold text-gray-800 text-sm">{visit.visitorName}</p>
+                  <p className="text-xs text-gray-500 mt-0.5">
+                    {resident ? `${resident.name} • Unidad ${resident.unit}` : 'Residente desconocido'}
+                  </p>
+                  {visit.decision && (
+                    <p className="text-[10px] text-gray-400 mt-0.5">
+                      {visit.status === 'Rejected' ? 'Rechazado' : 'Aprobado'} por {visit.decision.by.name} • {formatTime(visit.decision.at)}
+                    </p>
+                  )}
+                </div>
+                <div className="text-right">
+                  {visit.status === 'Pending' && (
+                    <span className="text-xs px-2.5 py-1 rounded-full font-medium border bg-yellow-50 text-yellow-700 border-yellow-200 inline-flex items-center gap-1">
+                      <Clock size={12} /> Esperando
+                    </span>
+                  )}
+                  {visit.status === 'Rejected' && (
+                    <span className="text-xs px-2.5 py-1 rounded-full font-medium border bg-red-50 text-red-700 border-red-200 inline-flex items-center gap-1">
+                      <XCircle size={12} /> Rechazado
+                    </span>
+                  )}
+                  {visit.status !== 'Pending' && visit.status !== 'Rejected' && (
+                    visit.checkInAt ? (
+                      <span className="text-xs px-2.5 py-1 rounded-full font-medium border bg-green-50 text-green-700 border-green-200 inline-flex items-center gap-1">
+                        <CheckCircle size={12} /> Ingresó {formatTime(visit.checkInAt)}
+                      </span>
+                    ) : (
+                      <button
+                        onClick={() => handleCheckIn(visit.id)}
+                        className="text-xs px-3 py-1.5 rounded-lg font-medium bg-green-600 text-white hover:bg-green-700 inline-flex items-center gap-1 shadow-sm"
+                      >
+                        <DoorOpen size={12} /> Registrar Ingreso
+                      </button>
+                    )
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Sub-component for Residents ('visit.approve': Role B by default): approve or deny walk-in requests for their unit
+export const WalkInApprovals: React.FC<{ user: User, can: PermissionCheck, residents: Resident[], visits: Visit[], visitActions: CollectionActions<Visit> }> = ({ user, can, residents, visits, visitActions }) => {
+  const pendingRequests = useMemo(() =>
+    visits.filter(v =>
+      v.source === 'WalkIn' &&
+      v.status === 'Pending' &&
+      residents.some(r => r.id === v.residentId && can(user, 'visit.approve', r))
+    )
+  , [visits, residents, user, can]);
+
+  if (pendingRequests.length === 0) return null;
+
+  const handleDecision = (id: string, approved: boolean) => {
+    const decision = { by: { id: user.id, name: user.name }, at: new Date().toISOString() };
+    visitActions.update(id, v => {
+      // Ignore if another unit member already answered
+      if (v.status !== 'Pending') return v;
+      return approved
+        ? { ...v, status: 'Approved', decision }
+        : { ...v, status: 'Rejected', decision, rejectionReason: `Rechazado por ${user.name}.`, rejectionCode: 'denied' };
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-orange-200 overflow-hidden animate-in fade-in slide-in-from-top-4 duration-300">
+      <div className="p-4 border-b border-orange-100 flex items-center gap-2 bg-orange-50">
+        <BellRing className="text-orange-500 animate-pulse" size={20} />
+        <h3 className="font-bold text-gray-800">Visitas esperando en Portería</h3>
+      </div>
+      {pendingRequests.map(visit => {
+        const resident = residents.find(r => r.id === visit.residentId);
+        return (
+          <div key={visit.id} className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 border-b border-gray-50 last:border-0">
+            <div>
+              <p className="font-semibold text-gray-800">{visit.visitorName}</p>
+              <p className="text-xs text-gray-500 mt-0.5">
+                Para: {resident?.name} • {formatTime(visit.date)}
+                {visit.visitorRut && <> • RUT {visit.visitorRut}</>}
+                {visit.licensePlate && <> • Patente {visit.licensePlate}</>}
+              </p>
+              {visit.guard && <p className="text-[10px] text-gray-400 mt-0.5">Registrado por {visit.guard.name}</p>}
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => handleDecision(visit.id, true)}
+                className="flex items-center gap-1 bg-green-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-green-700 shadow-sm"
+              >
+                <CheckCircle size={16} /> Aprobar
+              </button>
+              <button
+                onClick={() => handleDecision(visit.id, false)}
+                className="flex items-center gap-1 bg-white border border-red-200 text-red-600 px-4 py-2 rounded-lg text-sm font-medium hover:bg-red-50"
+              >
+                <XCircle size={16} /> Rechazar
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
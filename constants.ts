@@ -1,4 +1,4 @@
-import { User } from './types';
+import { User, Tenant, UserCredential, Resident, Unit, Visit, PermissionMatrix } from './types';
 
 export const MASTER_PROMPT = `
 Eres la inteligencia artificial central de una aplicación multiplataforma para seguridad de condominios, construida con arquitectura multi-tenant.
@@ -6,7 +6,10 @@ Eres la inteligencia artificial central de una aplicación multiplataforma para
 ROLES DE USUARIO:
 1. Usuario X (Dueño de Condominio / Admin): Tiene todos los permisos. Puede crear, editar, eliminar y visualizar todo.
 2. Usuario A (Portería / Seguridad): Se encarga de validar accesos y visualizar datos en tiempo real. NO puede editar ni eliminar datos (solo valida QR).
-3. Usuario B (Residente Propietario): Gestiona su propia unidad. Puede agregar y ELIMINAR a su familia/residentes de su unidad. Genera códigos QR para visitas.
+3. Usuario B (Residente Propietario): Gestiona su propia unidad. Puede agregar y ELIMINAR a su familia/residentes de su unidad. Genera códigos QR para visitas. Decide qué derechos de su unidad delega a su arrendatario.
+4. Usuario M (Gerente / Administración del Edificio): Opera el condominio sin ser dueño: gestiona residentes, invitaciones, alertas y portería. NO administra usuarios, roles ni permisos.
+5. Usuario C (Comité de Administración): Supervisión de solo lectura: consulta residentes, visitas, estadísticas y auditoría. NO crea, edita ni elimina nada.
+6. Usuario R (Arrendatario): Vive en una unidad que no es suya. Solo puede hacer lo que el propietario le delegó (p. ej. generar QR o agregar familiares de su unidad).
 
 REGLAS GENERALES:
 - Trabaja siempre dentro del tenant_id del usuario actual.
@@ -14,6 +17,9 @@ REGLAS GENERALES:
 - El usuario A (Portería) es los "ojos" del condominio: consulta residentes y valida visitas.
 - El usuario B (Residente) gestiona su núcleo familiar y sus visitas.
 - El usuario X supervisa todo.
+- El usuario M responde como operador del edificio; el usuario C recibe reportes y observaciones, nunca instrucciones para modificar datos.
+- Si el usuario R pide algo que no le fue delegado, indícale que debe solicitarlo al propietario de la unidad.
+- Los permisos exactos de cada rol los configura el administrador de cada condominio (pantalla Permisos).
 
 FORMATO OBLIGATORIO DE RESPUESTA:
 1. Resumen breve (1–2 líneas)
@@ -21,13 +27,112 @@ FORMATO OBLIGATORIO DE RESPUESTA:
 3. Opciones o próximos pasos
 `;
 
-export const MOCK_TENANTS = [
-  { id: 't1', name: 'Edificio Los Alerces', domain: 'alerces.condoguard.com' },
-  { id: 't2', name: 'Torres del Parque', domain: 'torres.condoguard.com' }
+// Archived (Inactive) residents are purged after this many days unless the tenant overrides it
+export const DEFAULT_RESIDENT_RETENTION_DAYS = 90;
+
+// Residents' owners are warned this many hours before an expirationDate (tenants may override it)
+export const DEFAULT_EXPIRY_WARNING_HOURS = [72, 24, 1];
+
+export const DEFAULT_TENANT_TIMEZONE = 'America/Santiago';
+
+// The X/A/B rules of MASTER_PROMPT as capabilities; each tenant's admin can adjust them (Permisos)
+export const DEFAULT_PERMISSIONS: Required<PermissionMatrix> = {
+  X: {
+    'resident.view': 'all', 'resident.create': 'all', 'resident.edit': 'all', 'resident.delete': 'all',
+    'qr.generate': 'all', 'qr.validate': 'all',
+    'visit.view': 'all', 'visit.delete': 'all',
+    'alert.manage': 'all', 'blacklist.manage': 'all', 'audit.view': 'all', 'notification.view': 'all',
+    'user.view': 'all', 'user.edit': 'all', 'user.role': 'all', 'user.delete': 'all',
+    'unit.view': 'all', 'unit.manage': 'all', 'unit.delegate': 'all',
+    'auth.pin': 'all', 'tenant.settings': 'all', 'permission.manage': 'all',
+  },
+  A: {
+    'resident.view': 'all',
+    'qr.validate': 'all',
+    'visit.view': 'all',
+    'alert.manage': 'all',
+    'user.view': 'all', 'user.edit': 'own',
+    'unit.view': 'all',
+    'auth.pin': 'all',
+  },
+  B: {
+    'resident.view': 'own', 'resident.create': 'own', 'resident.edit': 'own', 'resident.delete': 'own',
+    'qr.generate': 'own',
+    'visit.view': 'own', 'visit.approve': 'own',
+    'notification.view': 'own',
+    'user.view': 'own', 'user.edit': 'own',
+    'unit.view': 'own', 'unit.delegate': 'own',
+  },
+  M: {
+    'resident.view': 'all', 'resident.create': 'all', 'resident.edit': 'all', 'resident.delete': 'all',
+    'qr.generate': 'all', 'qr.validate': 'all',
+    'visit.view': 'all',
+    'alert.manage': 'all', 'blacklist.manage': 'all', 'audit.view': 'all', 'notification.view': 'all',
+    'user.view': 'all', 'user.edit': 'own',
+    'unit.view': 'all', 'unit.manage': 'all',
+    'auth.pin': 'all', 'tenant.settings': 'all',
+  },
+  C: {
+    'resident.view': 'all',
+    'visit.view': 'all',
+    'audit.view': 'all',
+    'user.view': 'all', 'user.edit': 'own',
+    'unit.view': 'all',
+  },
+  // The most a renter can get; delegable capabilities also need the owner's delegation
+  R: {
+    'resident.view': 'own', 'resident.create': 'own', 'resident.edit': 'own', 'resident.delete': 'own',
+    'qr.generate': 'own',
+    'visit.view': 'own', 'visit.approve': 'own',
+    'notification.view': 'own',
+    'user.view': 'own', 'user.edit': 'own',
+    'unit.view': 'own',
+  },
+};
+
+// No QR keys here (they would ship in the bundle): each install generates its tenants' key pairs on first run
+export const MOCK_TENANTS: Tenant[] = [
+  { id: 't1', name: 'Edificio Los Alerces', domain: 'alerces.condoguard.com', address: 'Av. Los Alerces 1240, Ñuñoa', timezone: 'America/Santiago', status: 'Active',
+    towers: [{ id: 'tower-a', name: 'A' }, { id: 'tower-b', name: 'B' }],
+    gates: [{ id: 'gate-main', name: 'Acceso principal' }, { id: 'gate-parking', name: 'Estacionamiento' }] },
+  { id: 't2', name: 'Torres del Parque', domain: 'torres.condoguard.com', address: 'Calle del Parque 455, Providencia', timezone: 'America/Santiago', status: 'Active', branding: { displayName: 'Torres del Parque', primaryColor: '#047857', welcomeText: 'Bienvenido a tu comunidad' },
+    towers: [{ id: 'tower-north', name: 'Norte' }, { id: 'tower-south', name: 'Sur' }],
+    gates: [{ id: 'gate-north', name: 'Portón Norte' }, { id: 'gate-south', name: 'Portón Sur' }, { id: 'gate-pedestrian', name: 'Peatonal' }] }
 ];
 
 export const MOCK_USERS: User[] = [
-  { id: 'u1', name: 'Carlos Admin', email: 'carlos@alerces.com', role: 'X', tenantId: 't1', avatar: 'https://picsum.photos/seed/u1/200' },
+  { id: 'u1', name: 'Carlos Admin', email: 'carlos@alerces.com', role: 'X', tenantId: 't1', avatar: 'https://picsum.photos/seed/u1/200', superAdmin: true },
   { id: 'u2', name: 'Ana Portería', email: 'ana@alerces.com', role: 'A', tenantId: 't1', avatar: 'https://picsum.photos/seed/u2/200' },
   { id: 'u3', name: 'Beto Residente', email: 'beto@alerces.com', role: 'B', tenantId: 't1', avatar: 'https://picsum.photos/seed/u3/200', unit: '101' },
-];
\ No newline at end of file
+  { id: 'u4', name: 'Marta Gerente', email: 'marta@alerces.com', role: 'M', tenantId: 't1', avatar: 'https://picsum.photos/seed/u4/200' },
+  { id: 'u5', name: 'Claudio Comité', email: 'claudio@alerces.com', role: 'C', tenantId: 't1', avatar: 'https://picsum.photos/seed/u5/200' },
+  { id: 'u6', name: 'Rita Arrendataria', email: 'rita@alerces.com', role: 'R', tenantId: 't1', avatar: 'https://picsum.photos/seed/u6/200', unit: '101',
+    delegation: { capabilities: ['qr.generate'], grantedBy: { id: 'u3', name: 'Beto Residente' }, grantedAt: '2024-01-01T00:00:00.000Z' } },
+];
+
+// Demo credentials (password "alerces2024" for all; Ana's tablet PIN is "1234")
+export const MOCK_CREDENTIALS: UserCredential[] = [
+  { userId: 'u1', passwordSalt: 'zL/oq4Ohc15cCb68DH3Bmw==', passwordHash: 'VKSuFRs9R7HvZ10j4YFrCz1bbt4AwcIN3W1SC4K4z58=', failedAttempts: 0 },
+  { userId: 'u2', passwordSalt: 'Wt/AMyhvdn4PlVuE2OIeiw==', passwordHash: 'd2cyUb3AwRvDJsgy9kUpSZdkMDNlCxlPrgD6W0AAppE=', pinSalt: 'T0UKvvOYxBVWUe26jOC/Vg==', pinHash: '2nMEMXbfrYLOV440BM1EjhqqRMeQHVt/pP3yo27e64c=', failedAttempts: 0 },
+  { userId: 'u3', passwordSalt: '4MpXsANu1EkyAOk7xYCghw==', passwordHash: 'I+sm9ThpXgNQyHnnY9/mJrWxIe8kfOGefrxgdqYZ/Qo=', failedAttempts: 0 },
+  { userId: 'u4', passwordSalt: 'kzFpgEvv+Do+Mi0mkzKQUw==', passwordHash: 'Iw/YRZ/dJKee/15fRMBHSK4bC7YGoJLAuXce6zjKgLw=', failedAttempts: 0 },
+  { userId: 'u5', passwordSalt: '22KyODG0vfxiTHKTZqwHiw==', passwordHash: 'zej+n54kwkdxEQ4JbRlL9mECiPvF6CHGjb0K8TETe44=', failedAttempts: 0 },
+  { userId: 'u6', passwordSalt: 'Qetne1uL8fbNYuKcpX1bEw==', passwordHash: 'HV+xC8JEaa/jOBZdsf6NsjPEFRJ6qGNmd8Ank3CL/mM=', failedAttempts: 0 },
+];
+
+export const MOCK_UNITS: Unit[] = [
+  { id: 'unit-101', tenantId: 't1', number: '101', towerId: 'tower-a', floor: 1, ownerIds: ['u3'], occupancyLimit: 6, parkingSpots: ['E-12'] },
+  { id: 'unit-202', tenantId: 't1', number: '202', towerId: 'tower-a', floor: 2, ownerIds: [], occupancyLimit: 4, parkingSpots: ['E-20', 'E-21'] },
+];
+
+export const MOCK_RESIDENTS: Resident[] = [
+  { id: '1', tenantId: 't1', name: 'Juan Perez', unit: '101', type: 'Resident', status: 'Active', licensePlate: 'GH-45-22' },
+  { id: '2', tenantId: 't1', name: 'Maria Lopez', unit: '202', type: 'Resident', status: 'Active' },
+  { id: '3', tenantId: 't1', name: 'Hijo de Beto', unit: '101', type: 'Family', status: 'Active' }, // Family of User B
+  { id: '4', tenantId: 't1', name: 'Pedro Repartidor', unit: '101', type: 'Delivery', status: 'Active', licensePlate: 'DL-99-00' }, 
+  { id: '5', tenantId: 't1', name: 'Rosa Asesora del Hogar', unit: '101', type: 'Visitor', status: 'Active', schedule: { days: [1, 3, 5], from: '09:00', to: '13:00' } },
+];
+
+export const MOCK_VISITS: Visit[] = [
+  { id: 'v1', tenantId: 't1', residentId: '1', visitorName: 'Pedro Delivery', date: new Date().toISOString(), status: 'Completed', code: '123' }
+];
@@ -0,0 +1,169 @@
+import { User, PublicTenant, Invitation, QRPayload } from '../types';
+import { Repository, DataStore } from './repository';
+import type { NewUserInput } from '../users';
+
+// REST client for a future backend: GET/PUT/DELETE under `${baseUrl}/${collection}`
+function createHttpRepository<T extends { id: string }>(baseUrl: string, collection: string): Repository<T> {
+  const url = (path = '') => `${baseUrl.replace(/\/$/, '')}/${collection}${path}`;
+
+  const request = async (input: string, init?: RequestInit) => {
+    const response = await fetch(input, {
+      ...init,
+      credentials: 'include',
+      headers: { 'Content-Type': 'application/json', ...init?.headers },
+    });
+    if (!response.ok) {
+      // The API server explains rejected writes in `{ error }`
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.error || `Error ${response.status} en ${init?.method || 'GET'} ${input}`);
+    }
+    return response;
+  };
+
+  return {
+    list: async () => (await request(url())).json(),
+    save: async item => {
+      await request(url(`/${encodeURIComponent(item.id)}`), { method: 'PUT', body: JSON.stringify(item) });
+    },
+    saveMany: async items => {
+      await Promise.all(items.map(item => request(url(`/${encodeURIComponent(item.id)}`), { method: 'PUT', body: JSON.stringify(item) })));
+    },
+    remove: async id => {
+      await request(url(`/${encodeURIComponent(id)}`), { method: 'DELETE' });
+    },
+    removeMany: async ids => {
+      await Promise.all(ids.map(id => request(url(`/${encodeURIComponent(id)}`), { method: 'DELETE' })));
+    },
+  };
+}
+
+export function createHttpStore(baseUrl: string): DataStore {
+  return {
+    residents: createHttpRepository(baseUrl, 'residents'),
+    visits: createHttpRepository(baseUrl, 'visits'),
+    users: createHttpRepository(baseUrl, 'users'),
+    units: createHttpRepository(baseUrl, 'units'),
+    invitations: createHttpRepository(baseUrl, 'invitations'),
+    alerts: createHttpRepository(baseUrl, 'alerts'),
+    blacklist: createHttpRepository(baseUrl, 'blacklist'),
+    notifications: createHttpRepository(baseUrl, 'notifications'),
+    tenants: createHttpRepository(baseUrl, 'tenants'),
+    audit: createHttpRepository(baseUrl, 'audit'),
+  };
+}
+
+// Session login against the API server; it answers with the user and sets an HttpOnly session cookie
+export async function loginWithServer(
+  baseUrl: string,
+  email: string,
+  secret: string,
+  method: 'password' | 'pin',
+  tenant?: string | null // `?tenant=` override; the server otherwise resolves the tenant from the hostname
+): Promise<{ user: User } | { error: string }> {
+  const response = await fetch(`${baseUrl.replace(/\/$/, '')}/auth/login`, {
+    method: 'POST',
+    credentials: 'include',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, secret, method, tenant: tenant || undefined }),
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) return { error: body.error || `Error ${response.status} al iniciar sesión.` };
+  return { user: body.user };
+}
+
+// Tenant served on this hostname, readable before login (undefined when none matches)
+export async function fetchResolvedTenant(baseUrl: string, override?: string | null): Promise<PublicTenant | undefined> {
+  const query = override ? `?tenant=${encodeURIComponent(override)}` : '';
+  const response = await fetch(`${baseUrl.replace(/\/$/, '')}/auth/tenant${query}`, { credentials: 'include' });
+  return response.ok ? response.json() : undefined;
+}
+
+export async function logoutFromServer(baseUrl: string): Promise<void> {
+  await fetch(`${baseUrl.replace(/\/$/, '')}/auth/logout`, { method: 'POST', credentials: 'include' });
+}
+
+// The logged-in user's PIN status and open sessions on every device (the cookie identifies the user)
+export async function fetchSecurityStatus(baseUrl: string): Promise<{ hasPin: boolean; activeSessionCount: number } | undefined> {
+  const response = await fetch(`${baseUrl.replace(/\/$/, '')}/auth/security`, { credentials: 'include' });
+  return response.ok ? response.json() : undefined;
+}
+
+// Own credential changes: the server checks the current password and hashes the new secret
+export async function changePasswordOnServer(baseUrl: string, current: string, next: string): Promise<{ ok: true } | { error: string }> {
+  const response = await fetch(`${baseUrl.replace(/\/$/, '')}/auth/password`, {
+    method: 'PUT',
+    credentials: 'include',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ current, next }),
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) return { error: body.error || `Error ${response.status} al cambiar la contraseña.` };
+  return { ok: true };
+}
+
+// `null` removes the PIN
+export async function setPinOnServer(baseUrl: string, pin: string | null): Promise<{ ok: true } | { error: string }> {
+  const response = await fetch(`${baseUrl.replace(/\/$/, '')}/auth/pin`, {
+    method: pin === null ? 'DELETE' : 'PUT',
+    credentials: 'include',
+    headers: { 'Content-Type': 'application/json' },
+    body: pin === null ? undefined : JSON.stringify({ pin }),
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) return { error: body.error || `Error ${response.status} al guardar el PIN.` };
+  return { ok: true };
+}
+
+// Revokes every session of the logged-in user, on every device
+export async function logoutAllSessionsOnServer(baseUrl: string): Promise<void> {
+  await fetch(`${baseUrl.replace(/\/$/, '')}/auth/logout-all`, { method: 'POST', credentials: 'include' });
+}
+
+// Super-admin only: creates a tenant's first Role X user; the server hashes the initial password
+export async function provisionAdminOnServer(
+  baseUrl: string,
+  tenantId: string,
+  admin: { name: string; email: string; password: string }
+): Promise<{ user: User } | { error: string }> {
+  const response = await fetch(`${baseUrl.replace(/\/$/, '')}/tenants/${encodeURIComponent(tenantId)}/admins`, {
+    method: 'POST',
+    credentials: 'include',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(admin),
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) return { error: body.error || `Error ${response.status} al crear el administrador.` };
+  return { user: body };
+}
+
+// New tenant user (invited by an admin) with an initial password, hashed server-side
+export async function createUserOnServer(
+  baseUrl: string,
+  account: NewUserInput & { password: string }
+): Promise<{ user: User } | { error: string }> {
+  const response = await fetch(`${baseUrl.replace(/\/$/, '')}/users`, {
+    method: 'POST',
+    credentials: 'include',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(account),
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) return { error: body.error || `Error ${response.status} al crear el usuario.` };
+  return { user: body };
+}
+
+// Invitation signed server-side (the tenant key stays on the server); the server broadcasts it to the unit's devices
+export async function issueInvitationOnServer(
+  baseUrl: string,
+  request: Pick<QRPayload, 'residentId' | 'visitorName' | 'visitorRut' | 'licensePlate' | 'companions' | 'expiresAt' | 'maxUses' | 'schedule' | 'gateIds'>
+): Promise<{ invitation: Invitation } | { error: string }> {
+  const response = await fetch(`${baseUrl.replace(/\/$/, '')}/invitations`, {
+    method: 'POST',
+    credentials: 'include',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) return { error: body.error || `Error ${response.status} al generar la invitación.` };
+  return { invitation: body };
+}
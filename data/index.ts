@@ -0,0 +1,29 @@
+import { DataStore, DataSeeds, DataBackend } from './repository';
+import { createLocalStorageStore } from './localStorageAdapter';
+import { createIndexedDbStore } from './indexedDbAdapter';
+import { createHttpStore } from './httpAdapter';
+import { withSync, createBroadcastTransport, createWebSocketTransport } from './sync';
+
+export {
+  loginWithServer, logoutFromServer, fetchSecurityStatus, changePasswordOnServer, setPinOnServer, logoutAllSessionsOnServer,
+  provisionAdminOnServer, createUserOnServer, issueInvitationOnServer, fetchResolvedTenant,
+} from './httpAdapter';
+
+export type { Repository, DataStore, DataSeeds, DataBackend, CollectionChange } from './repository';
+
+// Selected at build time via .env.local (DATA_BACKEND, API_BASE_URL). Defaults to localStorage.
+export const DATA_BACKEND = (process.env.DATA_BACKEND || 'localStorage') as DataBackend;
+export const API_BASE_URL = process.env.API_BASE_URL || '/api';
+
+export function createDataStore(backend: DataBackend, seeds: DataSeeds): DataStore {
+  switch (backend) {
+    case 'indexedDB':
+      return withSync(createIndexedDbStore(seeds), createBroadcastTransport());
+    case 'http':
+      // Other tabs are connected to the server too, so the WebSocket covers them as well
+      return withSync(createHttpStore(API_BASE_URL), createWebSocketTransport(API_BASE_URL));
+    case 'localStorage':
+    default:
+      return withSync(createLocalStorageStore(seeds), createBroadcastTransport());
+  }
+}
@@ -0,0 +1,69 @@
+import { Repository, DataStore, DataSeeds, COLLECTIONS } from './repository';
+
+const DB_NAME = 'condoguard';
+const DB_VERSION = 6; // 2: audit store, 3: units store, 4: invitations store, 5: alerts and blacklist stores, 6: notifications store
+
+// Wraps an IDBRequest in a Promise
+const promisify = <R>(request: IDBRequest<R>) => new Promise<R>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+// One object store per collection (keyPath "id"). Seeds are written only when the database is first created.
+function openDatabase(seeds: DataSeeds): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      COLLECTIONS.forEach(name => {
+        if (!db.objectStoreNames.contains(name)) {
+          const store = db.createObjectStore(name, { keyPath: 'id' });
+          (seeds[name] as { id: string }[]).forEach(item => store.put(item));
+        }
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function createIndexedDbRepository<T extends { id: string }>(db: Promise<IDBDatabase>, storeName: string): Repository<T> {
+  const write = async (fn: (store: IDBObjectStore) => void) => {
+    const tx = (await db).transaction(storeName, 'readwrite');
+    fn(tx.objectStore(storeName));
+    await transactionDone(tx);
+  };
+
+  return {
+    list: async () => {
+      const tx = (await db).transaction(storeName, 'readonly');
+      return promisify<T[]>(tx.objectStore(storeName).getAll());
+    },
+    save: item => write(store => store.put(item)),
+    saveMany: items => write(store => items.forEach(item => store.put(item))),
+    remove: id => write(store => store.delete(id)),
+    removeMany: ids => write(store => ids.forEach(id => store.delete(id))),
+  };
+}
+
+export function createIndexedDbStore(seeds: DataSeeds): DataStore {
+  const db = openDatabase(seeds);
+  return {
+    residents: createIndexedDbRepository(db, 'residents'),
+    visits: createIndexedDbRepository(db, 'visits'),
+    users: createIndexedDbRepository(db, 'users'),
+    units: createIndexedDbRepository(db, 'units'),
+    invitations: createIndexedDbRepository(db, 'invitations'),
+    alerts: createIndexedDbRepository(db, 'alerts'),
+    blacklist: createIndexedDbRepository(db, 'blacklist'),
+    notifications: createIndexedDbRepository(db, 'notifications'),
+    tenants: createIndexedDbRepository(db, 'tenants'),
+    audit: createIndexedDbRepository(db, 'audit'),
+  };
+}
@@ -0,0 +1,66 @@
+import { Repository, DataStore, DataSeeds } from './repository';
+
+// Keys kept from the original useLocalStorage setup so existing browser data is preserved
+const STORAGE_KEYS: Record<keyof DataStore, string> = {
+  residents: 'condoguard_residents',
+  visits: 'condoguard_visits',
+  users: 'condoguard_users',
+  units: 'condoguard_units',
+  invitations: 'condoguard_invitations',
+  alerts: 'condoguard_alerts',
+  blacklist: 'condoguard_plate_blacklist',
+  notifications: 'condoguard_notifications',
+  tenants: 'condoguard_tenants',
+  audit: 'condoguard_audit',
+};
+
+// Whole-array JSON per collection. Simple and synchronous under the hood; fine for small datasets.
+function createLocalStorageRepository<T extends { id: string }>(key: string, seed: T[]): Repository<T> {
+  const read = (): T[] => {
+    try {
+      const item = window.localStorage.getItem(key);
+      return item ? JSON.parse(item) : seed;
+    } catch (error) {
+      console.warn(`Error reading localStorage key “${key}”:`, error);
+      return seed;
+    }
+  };
+
+  const write = (items: T[]) => {
+    try {
+      window.localStorage.setItem(key, JSON.stringify(items));
+    } catch (error) {
+      console.warn(`Error setting localStorage key “${key}”:`, error);
+    }
+  };
+
+  const upsert = (items: T[], changes: T[]) => {
+    const byId = new Map(changes.map(c => [c.id, c]));
+    const updated = items.map(i => byId.get(i.id) || i);
+    const added = changes.filter(c => !items.some(i => i.id === c.id));
+    return [...updated, ...added];
+  };
+
+  return {
+    list: async () => read(),
+    save: async item => write(upsert(read(), [item])),
+    saveMany: async items => write(upsert(read(), items)),
+    remove: async id => write(read().filter(i => i.id !== id)),
+    removeMany: async ids => write(read().filter(i => !ids.includes(i.id))),
+  };
+}
+
+export function createLocalStorageStore(seeds: DataSeeds): DataStore {
+  return {
+    residents: createLocalStorageRepository(STORAGE_KEYS.residents, seeds.residents),
+    visits: createLocalStorageRepository(STORAGE_KEYS.visits, seeds.visits),
+    users: createLocalStorageRepository(STORAGE_KEYS.users, seeds.users),
+    units: createLocalStorageRepository(STORAGE_KEYS.units, seeds.units),
+    invitations: createLocalStorageRepository(STORAGE_KEYS.invitations, seeds.invitations),
+    alerts: createLocalStorageRepository(STORAGE_KEYS.alerts, seeds.alerts),
+    blacklist: createLocalStorageRepository(STORAGE_KEYS.blacklist, seeds.blacklist),
+    notifications: createLocalStorageRepository(STORAGE_KEYS.notifications, seeds.notifications),
+    tenants: createLocalStorageRepository(STORAGE_KEYS.tenants, seeds.tenants),
+    audit: createLocalStorageRepository(STORAGE_KEYS.audit, seeds.audit),
+  };
+}
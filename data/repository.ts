@@ -0,0 +1,50 @@
+import { Resident, Visit, User, Unit, Invitation, Alert, BlacklistedPlate, AppNotification, Tenant, AuditEntry } from '../types';
+
+// Minimal async CRUD contract every storage backend implements.
+// Items are upserted by `id`; tenant scoping is applied by the caller (or the server for the HTTP backend).
+export interface Repository<T extends { id: string }> {
+  list(): Promise<T[]>;
+  save(item: T): Promise<void>;
+  saveMany(items: T[]): Promise<void>;
+  remove(id: string): Promise<void>;
+  removeMany(ids: string[]): Promise<void>;
+  // Changes made elsewhere (other tabs or devices). Returns an unsubscribe function.
+  subscribe?(listener: (change: CollectionChange<T>) => void): () => void;
+}
+
+// 'reset' means the sender could not describe the change; the subscriber should list() again
+export type CollectionChange<T> =
+  | { type: 'saved'; items: T[] }
+  | { type: 'removed'; ids: string[] }
+  | { type: 'reset' };
+
+export interface DataStore {
+  residents: Repository<Resident>;
+  visits: Repository<Visit>;
+  users: Repository<User>;
+  units: Repository<Unit>;
+  invitations: Repository<Invitation>;
+  alerts: Repository<Alert>;
+  blacklist: Repository<BlacklistedPlate>;
+  notifications: Repository<AppNotification>;
+  tenants: Repository<Tenant>;
+  audit: Repository<AuditEntry>; // Append-only: only save() of new entries is ever used
+}
+
+// Initial data written the first time a local backend is opened
+export interface DataSeeds {
+  residents: Resident[];
+  visits: Visit[];
+  users: User[];
+  units: Unit[];
+  invitations: Invitation[];
+  alerts: Alert[];
+  blacklist: BlacklistedPlate[];
+  notifications: AppNotification[];
+  tenants: Tenant[];
+  audit: AuditEntry[];
+}
+
+export type DataBackend = 'localStorage' | 'indexedDB' | 'http';
+
+export const COLLECTIONS: (keyof DataStore)[] = ['residents', 'visits', 'users', 'units', 'invitations', 'alerts', 'blacklist', 'notifications', 'tenants', 'audit'];
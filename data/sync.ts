@@ -0,0 +1,164 @@
+import { Repository, DataStore, CollectionChange, COLLECTIONS } from './repository';
+
+// Live propagation of collection changes between tabs (BroadcastChannel) and devices (WebSocket).
+// Only changes made through the wrapped repositories are published; received changes are never re-published.
+
+export interface SyncMessage {
+  collection: string; // keyof DataStore for the browser; the server may also send other collections
+  change: CollectionChange<{ id: string }>;
+}
+
+export interface SyncTransport {
+  publish(message: SyncMessage): void;
+  subscribe(listener: (message: SyncMessage) => void): () => void;
+}
+
+const CHANNEL_NAME = 'condoguard_sync';
+
+// Same-browser transport. Falls back to `storage` events where BroadcastChannel is missing.
+export function createBroadcastTransport(): SyncTransport {
+  const listeners = new Set<(message: SyncMessage) => void>();
+  const emit = (message: SyncMessage) => listeners.forEach(listener => listener(message));
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = event => emit(event.data as SyncMessage);
+    return {
+      publish: message => channel.postMessage(message),
+      subscribe: listener => {
+        listeners.add(listener);
+        return () => { listeners.delete(listener); };
+      },
+    };
+  }
+
+  // `storage` only fires in *other* tabs, and only when the value changes (hence the nonce)
+  window.addEventListener('storage', event => {
+    if (event.key !== CHANNEL_NAME || !event.newValue) return;
+    try {
+      emit(JSON.parse(event.newValue).message);
+    } catch (error) {
+      console.warn('Error reading sync message:', error);
+    }
+  });
+  return {
+    publish: message => {
+      try {
+        window.localStorage.setItem(CHANNEL_NAME, JSON.stringify({ message, nonce: crypto.randomUUID() }));
+      } catch (error) {
+        console.warn('Error publishing sync message:', error);
+      }
+    },
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+}
+
+const RECONNECT_MIN_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+const toWebSocketUrl = (baseUrl: string) => {
+  const absolute = new URL(`${baseUrl.replace(/\/$/, '')}/sync`, window.location.href);
+  absolute.protocol = absolute.protocol === 'https:' ? 'wss:' : 'ws:';
+  return absolute.toString();
+};
+
+// Cross-device transport for the API server. The server publishes every accepted write to the
+// clients of the same tenant, so this side only listens. Reconnects with backoff and asks for a
+// full reload afterwards, since changes may have been missed while offline.
+export function createWebSocketTransport(baseUrl: string): SyncTransport {
+  const listeners = new Set<(message: SyncMessage) => void>();
+  const emit = (message: SyncMessage) => listeners.forEach(listener => listener(message));
+  let socket: WebSocket | null = null;
+  let retryMs = RECONNECT_MIN_MS;
+  let hasConnected = false;
+
+  const connect = () => {
+    const ws = new WebSocket(toWebSocketUrl(baseUrl));
+    socket = ws;
+    ws.onopen = () => {
+      retryMs = RECONNECT_MIN_MS;
+      if (hasConnected) COLLECTIONS.forEach(collection => emit({ collection, change: { type: 'reset' } }));
+      hasConnected = true;
+    };
+    ws.onmessage = event => {
+      try {
+        emit(JSON.parse(event.data));
+      } catch (error) {
+        console.warn('Error reading sync message:', error);
+      }
+    };
+    ws.onclose = () => {
+      if (socket !== ws) return; // Replaced by a newer connection
+      socket = null;
+      if (listeners.size === 0) return;
+      setTimeout(() => { if (!socket && listeners.size > 0) connect(); }, retryMs);
+      retryMs = Math.min(retryMs * 2, RECONNECT_MAX_MS);
+    };
+  };
+
+  return {
+    publish: () => {},
+    subscribe: listener => {
+      listeners.add(listener);
+      if (!socket) connect();
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0 && socket) {
+          const closing = socket;
+          socket = null;
+          closing.close();
+        }
+      };
+    },
+  };
+}
+
+function withSyncRepository<T extends { id: string }>(
+  repository: Repository<T>,
+  collection: keyof DataStore,
+  transport: SyncTransport
+): Repository<T> {
+  const publish = (change: CollectionChange<T>) => transport.publish({ collection, change });
+
+  return {
+    list: () => repository.list(),
+    save: async item => {
+      await repository.save(item);
+      publish({ type: 'saved', items: [item] });
+    },
+    saveMany: async items => {
+      await repository.saveMany(items);
+      publish({ type: 'saved', items });
+    },
+    remove: async id => {
+      await repository.remove(id);
+      publish({ type: 'removed', ids: [id] });
+    },
+    removeMany: async ids => {
+      await repository.removeMany(ids);
+      publish({ type: 'removed', ids });
+    },
+    subscribe: listener => transport.subscribe(message => {
+      if (message.collection === collection) listener(message.change as CollectionChange<T>);
+    }),
+  };
+}
+
+// Wraps every repository of a store so writes are published and remote changes can be subscribed to
+export function withSync(store: DataStore, transport: SyncTransport): DataStore {
+  return {
+    residents: withSyncRepository(store.residents, 'residents', transport),
+    visits: withSyncRepository(store.visits, 'visits', transport),
+    users: withSyncRepository(store.users, 'users', transport),
+    units: withSyncRepository(store.units, 'units', transport),
+    invitations: withSyncRepository(store.invitations, 'invitations', transport),
+    alerts: withSyncRepository(store.alerts, 'alerts', transport),
+    blacklist: withSyncRepository(store.blacklist, 'blacklist', transport),
+    notifications: withSyncRepository(store.notifications, 'notifications', transport),
+    tenants: withSyncRepository(store.tenants, 'tenants', transport),
+    audit: withSyncRepository(store.audit, 'audit', transport),
+  };
+}
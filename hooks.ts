@@ -1,4 +1,5 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Repository } from './data';
 
 // Custom hook for localStorage persistence with error handling and SSR safety
 export function useLocalStorage<T>(key: string, initialValue: T) {
@@ -30,10 +31,134 @@ export function useLocalStorage<T>(key: string, initialValue: T) {
     }
   }, [key, storedValue]);
 
-  // 3. Stable setter function
+  // 3. Follow writes made by other tabs (`storage` never fires in the tab that wrote)
+  // Writing the same value back in step 2 is a no-op, so tabs don't ping-pong.
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== key) return;
+      try {
+        setStoredValue(event.newValue ? JSON.parse(event.newValue) : initialValue);
+      } catch (error) {
+        console.warn(`Error reading localStorage key “${key}”:`, error);
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+    // initialValue is only the fallback for a cleared key; don't resubscribe when callers pass a new literal
+  }, [key]);
+
+  // 4. Stable setter function
   const setValue = useCallback((value: T | ((val: T) => T)) => {
     setStoredValue(value);
   }, []);
 
   return [storedValue, setValue] as const;
-}
\ No newline at end of file
+}
+
+// Mutations exposed to components instead of raw array setters
+export interface CollectionActions<T extends { id: string }> {
+  save: (item: T) => void; // Insert or replace by id
+  update: (id: string, changes: Partial<T> | ((item: T) => T)) => void;
+  remove: (id: string) => void;
+  removeMany: (ids: string[]) => void;
+}
+
+// In-memory view of a repository: loads once (and again whenever reloadKey changes),
+// applies changes optimistically and persists them in the background. A write the store rejects
+// (e.g. the API server's permission checks) is undone by reloading the collection and reported to onError.
+export function useCollection<T extends { id: string }>(repository: Repository<T>, reloadKey?: unknown, onError?: (error: unknown) => void) {
+  const [items, setItems] = useState<T[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  // Latest items, readable synchronously by the actions below
+  const itemsRef = useRef<T[]>([]);
+  // Latest error handler, so callers may pass an inline function without resetting the actions
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoaded(false);
+    // Remote changes (other tabs/devices) are applied to the in-memory view only; the store already has them
+    const unsubscribe = repository.subscribe?.(change => {
+      if (cancelled) return;
+      if (change.type === 'reset') {
+        repository.list()
+          .then(loaded => {
+            if (cancelled) return;
+            itemsRef.current = loaded;
+            setItems(loaded);
+          })
+          .catch(error => console.warn('Error reloading collection:', error));
+        return;
+      }
+      const next = change.type === 'saved'
+        ? [
+            ...itemsRef.current.map(i => change.items.find(c => c.id === i.id) || i),
+            ...change.items.filter(c => !itemsRef.current.some(i => i.id === c.id)),
+          ]
+        : itemsRef.current.filter(i => !change.ids.includes(i.id));
+      itemsRef.current = next;
+      setItems(next);
+    });
+
+    repository.list()
+      .then(loaded => {
+        if (cancelled) return;
+        itemsRef.current = loaded;
+        setItems(loaded);
+      })
+      .catch(error => console.warn('Error loading collection:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoaded(true);
+      });
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, [repository, reloadKey]);
+
+  const actions = useMemo<CollectionActions<T>>(() => {
+    const commit = (next: T[]) => {
+      itemsRef.current = next;
+      setItems(next);
+    };
+    const persist = (operation: Promise<void>) => {
+      operation.catch(error => {
+        console.warn('Error persisting collection:', error);
+        onErrorRef.current?.(error);
+        // Drop the optimistic change: the store still holds what it accepted
+        repository.list()
+          .then(commit)
+          .catch(reloadError => console.warn('Error reloading collection:', reloadError));
+      });
+    };
+
+    return {
+      save: item => {
+        const exists = itemsRef.current.some(i => i.id === item.id);
+        commit(exists ? itemsRef.current.map(i => i.id === item.id ? item : i) : [...itemsRef.current, item]);
+        persist(repository.save(item));
+      },
+      update: (id, changes) => {
+        const current = itemsRef.current.find(i => i.id === id);
+        if (!current) return;
+        const next = typeof changes === 'function' ? changes(current) : { ...current, ...changes };
+        if (next === current) return; // Updater chose not to change anything
+        commit(itemsRef.current.map(i => i.id === id ? next : i));
+        persist(repository.save(next));
+      },
+      remove: id => {
+        commit(itemsRef.current.filter(i => i.id !== id));
+        persist(repository.remove(id));
+      },
+      removeMany: ids => {
+        if (ids.length === 0) return;
+        commit(itemsRef.current.filter(i => !ids.includes(i.id)));
+        persist(repository.removeMany(ids));
+      },
+    };
+  }, [repository]);
+
+  return [items, actions, isLoaded] as const;
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { Invitation, QRPayload, Visit } from './types';
+import { countInvitationUses, getInvitationStatus, isInvitationRevocable, revokeInvitation, formatRevocation } from './invitations';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+const makeInvitation = (payload: Partial<QRPayload> = {}): Invitation => ({
+  id: 'qr-1',
+  tenantId: 't1',
+  residentId: 'r1',
+  payload: {
+    id: 'qr-1',
+    tenantId: 't1',
+    residentId: 'r1',
+    residentName: 'Beto Residente',
+    residentUnit: '101',
+    visitorName: 'Juan Pérez',
+    createdBy: { id: 'u3', name: 'Beto Residente', role: 'B' },
+    expiresAt: '2026-10-20T12:00:00.000Z',
+    generatedAt: 0,
+    ...payload,
+  },
+  qrValue: '',
+  createdAt: '2026-10-18T12:00:00.000Z',
+});
+
+let visitCount = 0;
+const makeVisit = (overrides: Partial<Visit> = {}): Visit => ({
+  id: `v${++visitCount}`,
+  tenantId: 't1',
+  visitorName: 'Juan Pérez',
+  residentId: 'r1',
+  date: '2026-10-19T10:00:00.000Z',
+  status: 'Approved',
+  code: 'QR-1',
+  qrId: 'qr-1',
+  checkInAt: '2026-10-19T10:00:00.000Z',
+  source: 'QR',
+  ...overrides,
+});
+
+const revoked = (invitation: Invitation) =>
+  revokeInvitation(invitation, { id: 'u3', name: 'Beto Residente' }, 'Visita cancelada', NOW);
+
+describe('invitation uses', () => {
+  it('counts only accepted entries of the same code', () => {
+    const visits = [
+      makeVisit(),
+      makeVisit({ status: 'Rejected', checkInAt: undefined, rejectionCode: 'used' }),
+      makeVisit({ qrId: 'qr-2' }),
+      makeVisit({ checkInAt: undefined }),
+    ];
+    expect(countInvitationUses(makeInvitation(), visits)).toBe(1);
+  });
+});
+
+describe('getInvitationStatus', () => {
+  it('is unused until the first accepted entry, then used', () => {
+    expect(getInvitationStatus(makeInvitation(), [], NOW)).toBe('unused');
+    expect(getInvitationStatus(makeInvitation(), [makeVisit({ status: 'Rejected' })], NOW)).toBe('unused');
+    expect(getInvitationStatus(makeInvitation(), [makeVisit()], NOW)).toBe('used');
+  });
+
+  it('is expired once its expiry has passed', () => {
+    expect(getInvitationStatus(makeInvitation({ expiresAt: '2026-10-19T11:59:00.000Z' }), [], NOW)).toBe('expired');
+  });
+
+  it('reports revocation over every other status', () => {
+    const expiredAndUsed = makeInvitation({ expiresAt: '2026-10-19T11:59:00.000Z' });
+    expect(getInvitationStatus(revoked(expiredAndUsed), [makeVisit()], NOW)).toBe('revoked');
+  });
+});
+
+describe('isInvitationRevocable', () => {
+  it('allows revoking codes the gate would still accept', () => {
+    expect(isInvitationRevocable(makeInvitation(), [], NOW)).toBe(true);
+    expect(isInvitationRevocable(makeInvitation({ maxUses: 3 }), [makeVisit()], NOW)).toBe(true);
+    // Recurring passes have no use limit
+    expect(isInvitationRevocable(makeInvitation({ schedule: { days: [1], from: '09:00', to: '18:00' } }), [makeVisit(), makeVisit()], NOW)).toBe(true);
+  });
+
+  it('does not offer revoking used up, expired or already revoked codes', () => {
+    expect(isInvitationRevocable(makeInvitation(), [makeVisit()], NOW)).toBe(false);
+    expect(isInvitationRevocable(makeInvitation({ maxUses: 2 }), [makeVisit(), makeVisit()], NOW)).toBe(false);
+    expect(isInvitationRevocable(makeInvitation({ expiresAt: '2026-10-19T11:59:00.000Z' }), [], NOW)).toBe(false);
+    expect(isInvitationRevocable(revoked(makeInvitation()), [], NOW)).toBe(false);
+  });
+});
+
+describe('revokeInvitation', () => {
+  it('records who revoked the code, when and why, without changing the original', () => {
+    const invitation = makeInvitation();
+    const result = revokeInvitation(invitation, { id: 'u3', name: 'Beto Residente' }, '  Teléfono perdido ', NOW);
+    expect(result.revocation).toEqual({ at: NOW.toISOString(), by: { id: 'u3', name: 'Beto Residente' }, reason: 'Teléfono perdido' });
+    expect(result.payload).toBe(invitation.payload);
+    expect(invitation.revocation).toBeUndefined();
+  });
+
+  it('is described to the gate with the revoker and reason', () => {
+    const message = formatRevocation(revoked(makeInvitation()).revocation!);
+    expect(message).toMatch(/^Código revocado el .+ por Beto Residente: Visita cancelada\.$/);
+  });
+});
@@ -0,0 +1,49 @@
+import { Invitation, User, Visit } from './types';
+
+export type InvitationStatus = 'unused' | 'used' | 'expired' | 'revoked';
+
+export const INVITATION_STATUS_LABELS: Record<InvitationStatus, string> = {
+  unused: 'Sin usar',
+  used: 'Usada',
+  expired: 'Caducada',
+  revoked: 'Revocada',
+};
+
+// Quick picks in the revoke form; any other text is accepted too
+export const REVOCATION_REASONS = ['Cambio de planes', 'Teléfono perdido', 'Visita cancelada'];
+
+// Entries at the gate with a code, oldest first: its accepted scans. The visit log is synced to every gate
+// device (and the server), so a code used up at one gate is also used up at the others.
+export const findCodeEntries = (qrId: string, visits: Visit[]) =>
+  visits
+    .filter(v => v.qrId === qrId && v.status !== 'Rejected' && v.checkInAt)
+    .sort((a, b) => a.checkInAt!.localeCompare(b.checkInAt!));
+
+export const countInvitationUses = (invitation: Invitation, visits: Visit[]) =>
+  findCodeEntries(invitation.id, visits).length;
+
+// Recurring passes are limited by their window instead of a number of uses
+export const getInvitationMaxUses = (invitation: Invitation) =>
+  invitation.payload.schedule ? Infinity : invitation.payload.maxUses ?? 1;
+
+// Revocation wins over everything else, then expiry; a code with entries left is 'used' but still valid
+export function getInvitationStatus(invitation: Invitation, visits: Visit[], now: Date): InvitationStatus {
+  if (invitation.revocation) return 'revoked';
+  if (new Date(invitation.payload.expiresAt) < now) return 'expired';
+  return countInvitationUses(invitation, visits) > 0 ? 'used' : 'unused';
+}
+
+// Whether the gate would still let the holder in, so revoking it makes a difference
+export const isInvitationRevocable = (invitation: Invitation, visits: Visit[], now: Date) => {
+  const status = getInvitationStatus(invitation, visits, now);
+  return status === 'unused' || (status === 'used' && countInvitationUses(invitation, visits) < getInvitationMaxUses(invitation));
+};
+
+export const revokeInvitation = (invitation: Invitation, user: Pick<User, 'id' | 'name'>, reason: string, now: Date): Invitation => ({
+  ...invitation,
+  revocation: { at: now.toISOString(), by: { id: user.id, name: user.name }, reason: reason.trim() },
+});
+
+// Shown by the gate when a revoked code is scanned
+export const formatRevocation = (revocation: NonNullable<Invitation['revocation']>) =>
+  `Código revocado el ${new Date(revocation.at).toLocaleString()} por ${revocation.by.name}: ${revocation.reason}.`;
@@ -0,0 +1,60 @@
+import { AppNotification, Resident, Tenant, User } from './types';
+import { DEFAULT_EXPIRY_WARNING_HOURS } from './constants';
+import { PermissionCheck } from './permissions';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const getWarningHours = (tenant?: Tenant) =>
+  tenant?.expiryWarningHours?.length ? tenant.expiryWarningHours : DEFAULT_EXPIRY_WARNING_HOURS;
+
+const formatRemaining = (ms: number) => {
+  const hours = Math.floor(ms / HOUR_MS);
+  if (hours >= 48) return `${Math.floor(hours / 24)} días`;
+  if (hours >= 1) return `${hours} h`;
+  return `${Math.max(1, Math.ceil(ms / 60000))} min`;
+};
+
+// Returns only the NEW expiry warnings to add (same contract as evaluateAlertRules).
+// Only the closest threshold crossed fires, so a resident added 30 min before expiry gets one notice, not three.
+export function evaluateExpiryWarnings(residents: Resident[], tenants: Tenant[], existing: AppNotification[], now: Date): AppNotification[] {
+  const knownKeys = new Set(existing.map(n => n.key));
+  const raised: AppNotification[] = [];
+
+  residents
+    .filter(r => r.status === 'Active' && r.expirationDate)
+    .forEach(r => {
+      const remaining = new Date(r.expirationDate!).getTime() - now.getTime();
+      if (remaining <= 0) return; // Already handled by the archiving job
+
+      const crossed = getWarningHours(tenants.find(t => t.id === r.tenantId)).filter(h => remaining <= h * HOUR_MS);
+      if (crossed.length === 0) return;
+
+      const key = `resident_expiring:${r.id}:${r.expirationDate}:${Math.min(...crossed)}`;
+      if (knownKeys.has(key)) return;
+      knownKeys.add(key);
+      raised.push({
+        id: key, // Engines running at the same time (several tabs) write the same notice
+        tenantId: r.tenantId,
+        key,
+        kind: 'resident_expiring',
+        unit: r.unit,
+        residentId: r.id,
+        expirationDate: r.expirationDate!,
+        message: `La autorización de ${r.name} (Unidad ${r.unit}) vence en ${formatRemaining(remaining)}.`,
+        createdAt: now.toISOString(),
+        readBy: [],
+      });
+    });
+
+  return raised;
+}
+
+// A warning is stale once the resident was extended, archived or removed
+export const isNotificationStale = (notification: AppNotification, residents: Resident[]) => {
+  const resident = residents.find(r => r.id === notification.residentId);
+  return !resident || resident.status !== 'Active' || resident.expirationDate !== notification.expirationDate;
+};
+
+// Users with 'notification.view' get the tenant's warnings ('own' scope: only their unit's)
+export const isNotificationForUser = (notification: AppNotification, user: User, can: PermissionCheck) =>
+  notification.tenantId === user.tenantId && can(user, 'notification.view', { unit: notification.unit });
@@ -0,0 +1,115 @@
+import { User, Role, Tenant, Capability, PermissionScope, PermissionMatrix } from './types';
+import { DEFAULT_PERMISSIONS } from './constants';
+
+// What a check is about: a unit (residents, visits, invitations) or a user profile
+export interface PermissionResource {
+  unit?: string;
+  userId?: string;
+}
+
+// Owned by nobody, so only 'all' grants pass: "can the user do this beyond their own unit/profile?"
+export const ANY_RESOURCE: PermissionResource = {};
+
+export type PermissionCheck = (user: User, capability: Capability, resource?: PermissionResource) => boolean;
+
+export const ROLES: Role[] = ['X', 'A', 'B', 'M', 'C', 'R'];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  X: 'Administrador',
+  A: 'Portería',
+  B: 'Residente',
+  M: 'Gerente',
+  C: 'Comité',
+  R: 'Arrendatario',
+};
+
+// Rows of the Permisos screen; `ownLabel` is set for capabilities that can be limited to the user's own unit/profile
+export const CAPABILITIES: { id: Capability; label: string; ownLabel?: string }[] = [
+  { id: 'resident.view', label: 'Ver directorio de residentes', ownLabel: 'Su unidad' },
+  { id: 'resident.create', label: 'Agregar residentes', ownLabel: 'Su unidad' },
+  { id: 'resident.edit', label: 'Editar, aplazar y restaurar residentes', ownLabel: 'Su unidad' },
+  { id: 'resident.delete', label: 'Eliminar residentes', ownLabel: 'Su unidad' },
+  { id: 'qr.generate', label: 'Generar invitaciones QR', ownLabel: 'Su unidad' },
+  { id: 'qr.validate', label: 'Validar QR y registrar visitas en portería' },
+  { id: 'visit.view', label: 'Ver visitas y estadísticas', ownLabel: 'Su unidad' },
+  { id: 'visit.approve', label: 'Responder solicitudes de visita', ownLabel: 'Su unidad' },
+  { id: 'visit.delete', label: 'Eliminar visitas del registro' },
+  { id: 'alert.manage', label: 'Gestionar alertas de seguridad' },
+  { id: 'blacklist.manage', label: 'Gestionar lista negra de patentes' },
+  { id: 'audit.view', label: 'Ver auditoría' },
+  { id: 'notification.view', label: 'Recibir avisos de vencimiento', ownLabel: 'Su unidad' },
+  { id: 'user.view', label: 'Ver usuarios del sistema', ownLabel: 'Su perfil' },
+  { id: 'user.edit', label: 'Crear y editar usuarios', ownLabel: 'Su perfil' },
+  { id: 'user.role', label: 'Cambiar roles de usuarios' },
+  { id: 'user.delete', label: 'Eliminar usuarios' },
+  { id: 'unit.view', label: 'Ver unidades y su historial', ownLabel: 'Su unidad' },
+  { id: 'unit.manage', label: 'Crear y editar unidades' },
+  { id: 'unit.delegate', label: 'Delegar derechos de la unidad a arrendatarios', ownLabel: 'Su unidad' },
+  { id: 'auth.pin', label: 'Usar PIN de acceso (tablets)' },
+  { id: 'tenant.settings', label: 'Configurar retención y avisos' },
+  { id: 'permission.manage', label: 'Administrar permisos' },
+];
+
+// What an owner can hand to the renter of their unit. A renter (Role R) only gets these once delegated,
+// on top of the renter's own row of the matrix.
+export const DELEGABLE_CAPABILITIES: Capability[] = [
+  'resident.create', 'resident.edit', 'resident.delete', 'qr.generate', 'visit.approve', 'notification.view',
+];
+
+const isDelegationPending = (user: User, capability: Capability) =>
+  user.role === 'R' && DELEGABLE_CAPABILITIES.includes(capability) && !user.delegation?.capabilities.includes(capability);
+
+// Admins always keep access to this screen, so a tenant can't lock itself out
+const LOCKED_GRANTS: PermissionMatrix = { X: { 'permission.manage': 'all' } };
+
+export const isLockedGrant = (role: Role, capability: Capability) => !!LOCKED_GRANTS[role]?.[capability];
+
+// The tenant's grants for a role (a role missing from the tenant's matrix uses the defaults)
+export function getRoleGrants(tenant: Tenant | undefined, role: Role): Partial<Record<Capability, PermissionScope>> {
+  return { ...(tenant?.permissions?.[role] ?? DEFAULT_PERMISSIONS[role]), ...LOCKED_GRANTS[role] };
+}
+
+export const getPermissionMatrix = (tenant?: Tenant) =>
+  Object.fromEntries(ROLES.map(role => [role, getRoleGrants(tenant, role)])) as Required<PermissionMatrix>;
+
+const ownsResource = (user: User, resource: PermissionResource) =>
+  (resource.unit !== undefined && resource.unit === user.unit) ||
+  (resource.userId !== undefined && resource.userId === user.id);
+
+// The single permission check of the app (and the API server), bound to the tenant's matrix.
+// Without a resource it answers "may the user do this at all"; with one, 'own' grants must own it.
+export function createPermissionCheck(tenant?: Tenant): PermissionCheck {
+  const matrix = getPermissionMatrix(tenant);
+  return (user, capability, resource) => {
+    const scope = matrix[user.role]?.[capability];
+    if (!scope || isDelegationPending(user, capability)) return false;
+    return scope === 'all' || !resource || ownsResource(user, resource);
+  };
+}
+
+// Shared by the Permisos screen and the API server; returns the first problem found
+export function validatePermissionMatrix(matrix: unknown): string | null {
+  // 1. Structure
+  if (!matrix || typeof matrix !== 'object' || Array.isArray(matrix)) return 'La matriz de permisos no es válida.';
+  // 2. Known roles, capabilities and scopes
+  for (const [role, grants] of Object.entries(matrix)) {
+    if (!ROLES.includes(role as Role) || !grants || typeof grants !== 'object') return `Rol desconocido: ${role}.`;
+    for (const [capability, scope] of Object.entries(grants)) {
+      const definition = CAPABILITIES.find(c => c.id === capability);
+      if (!definition) return `Permiso desconocido: ${capability}.`;
+      if (scope !== 'all' && !(scope === 'own' && definition.ownLabel)) return `Alcance no válido para ${definition.label}.`;
+    }
+  }
+  return null;
+}
+
+// Owners can only delegate, to a renter of their unit, what they may do in that unit themselves
+export function validateDelegation(owner: User, renter: User, capabilities: unknown, can: PermissionCheck): string | null {
+  // 1. Parties
+  if (renter.role !== 'R' || !renter.unit || !can(owner, 'unit.delegate', { unit: renter.unit })) return 'Solo puedes delegar a arrendatarios de tu unidad.';
+  // 2. Capabilities
+  if (!Array.isArray(capabilities)) return 'La delegación no es válida.';
+  const invalid = capabilities.find(c => !DELEGABLE_CAPABILITIES.includes(c) || !can(owner, c, { unit: renter.unit }));
+  if (invalid) return `No puedes delegar: ${CAPABILITIES.find(c => c.id === invalid)?.label || invalid}.`;
+  return null;
+}
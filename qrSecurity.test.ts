@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { QRPayload, Tenant } from './types';
+import { generateQrKeyPair, signQRPayload, decodeSignedQR, verifyQRSignature } from './qrSecurity';
+
+type KeyedTenant = Pick<Tenant, 'id' | 'qrSigningKey' | 'qrPublicKey'>;
+
+const payload: QRPayload = {
+  id: 'qr-1',
+  tenantId: 't1',
+  residentId: 'r1',
+  residentName: 'Beto Residente',
+  residentUnit: '101',
+  visitorName: 'Juan Pérez',
+  createdBy: { id: 'u3', name: 'Beto Residente', role: 'B' },
+  expiresAt: '2026-10-20T12:00:00.000Z',
+  generatedAt: 1760000000000,
+};
+
+describe('QR signatures', () => {
+  let tenant: KeyedTenant;
+  let otherTenant: KeyedTenant;
+
+  beforeAll(async () => {
+    tenant = { id: 't1', ...(await generateQrKeyPair()) };
+    otherTenant = { id: 't2', ...(await generateQrKeyPair()) };
+  });
+
+  it('accepts a code signed with the tenant key and returns its payload', async () => {
+    const { payload: decoded, envelope } = decodeSignedQR(await signQRPayload(payload, tenant));
+    expect(decoded).toEqual(payload);
+    expect(await verifyQRSignature(envelope, tenant)).toBe(true);
+  });
+
+  it('rejects a code whose payload was edited after signing', async () => {
+    const { envelope } = decodeSignedQR(await signQRPayload(payload, tenant));
+    const tampered = { ...envelope, data: envelope.data.replace('Juan Pérez', 'Otra Persona') };
+    expect(await verifyQRSignature(tampered, tenant)).toBe(false);
+  });
+
+  it('rejects a code signed by another tenant', async () => {
+    const { envelope } = decodeSignedQR(await signQRPayload({ ...payload, tenantId: 't2' }, otherTenant));
+    expect(await verifyQRSignature(envelope, tenant)).toBe(false);
+  });
+
+  it('rejects malformed signatures and tenants without a public key', async () => {
+    const { envelope } = decodeSignedQR(await signQRPayload(payload, tenant));
+    expect(await verifyQRSignature({ ...envelope, sig: '%%%' }, tenant)).toBe(false);
+    expect(await verifyQRSignature(envelope, { qrPublicKey: undefined })).toBe(false);
+  });
+
+  it('refuses to sign for another tenant or without a signing key', async () => {
+    await expect(signQRPayload(payload, otherTenant)).rejects.toThrow();
+    await expect(signQRPayload(payload, { id: 't1' })).rejects.toThrow();
+  });
+
+  it('refuses to decode unsigned codes', () => {
+    expect(() => decodeSignedQR(JSON.stringify(payload))).toThrow('Formato de QR inválido o sin firma.');
+    expect(() => decodeSignedQR('not json')).toThrow();
+  });
+});
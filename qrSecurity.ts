@@ -0,0 +1,71 @@
+import { QRPayload, Tenant } from './types';
+
+// Envelope actually encoded in the QR image.
+// `data` is the exact JSON string that was signed, so the signature never depends on key ordering.
+interface SignedQREnvelope {
+  data: string;
+  sig: string;
+}
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (buffer: ArrayBuffer) =>
+  btoa(String.fromCharCode(...new Uint8Array(buffer)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const fromBase64Url = (value: string) => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  return Uint8Array.from(atob(padded), c => c.charCodeAt(0));
+};
+
+const ALGORITHM = { name: 'Ed25519' };
+
+// New Ed25519 key pair for a tenant: the private half signs (server, or the browser in local mode),
+// the public half is all a validator needs, so it can be handed to every gate device
+export async function generateQrKeyPair(): Promise<Required<Pick<Tenant, 'qrSigningKey' | 'qrPublicKey'>>> {
+  const keys = await crypto.subtle.generateKey(ALGORITHM, true, ['sign', 'verify']) as CryptoKeyPair;
+  return {
+    qrSigningKey: toBase64Url(await crypto.subtle.exportKey('pkcs8', keys.privateKey)),
+    qrPublicKey: toBase64Url(await crypto.subtle.exportKey('raw', keys.publicKey)),
+  };
+}
+
+// Serializes and signs a payload with its tenant's private key, producing the string to encode in the QR.
+export async function signQRPayload(payload: QRPayload, tenant: Pick<Tenant, 'id' | 'qrSigningKey'>): Promise<string> {
+  if (payload.tenantId !== tenant.id) {
+    throw new Error(`El payload no pertenece al tenant ${tenant.id}.`);
+  }
+  if (!tenant.qrSigningKey) {
+    throw new Error(`El tenant ${tenant.id} no tiene clave de firma QR.`);
+  }
+  const key = await crypto.subtle.importKey('pkcs8', fromBase64Url(tenant.qrSigningKey), ALGORITHM, false, ['sign']);
+
+  const data = JSON.stringify(payload);
+  const signature = await crypto.subtle.sign(ALGORITHM, key, encoder.encode(data));
+  const envelope: SignedQREnvelope = { data, sig: toBase64Url(signature) };
+  return JSON.stringify(envelope);
+}
+
+// Parses a scanned QR string. Throws if it is not a signed CondoGuard envelope.
+// NOTE: The returned payload is NOT trusted until verifyQRSignature succeeds.
+export function decodeSignedQR(rawData: string): { payload: QRPayload; envelope: SignedQREnvelope } {
+  const envelope = JSON.parse(rawData) as Partial<SignedQREnvelope>;
+  if (typeof envelope.data !== 'string' || typeof envelope.sig !== 'string') {
+    throw new Error('Formato de QR inválido o sin firma.');
+  }
+  return { payload: JSON.parse(envelope.data) as QRPayload, envelope: envelope as SignedQREnvelope };
+}
+
+// Verifies the envelope signature against the given tenant's public key.
+export async function verifyQRSignature(envelope: SignedQREnvelope, tenant: Pick<Tenant, 'qrPublicKey'>): Promise<boolean> {
+  if (!tenant.qrPublicKey) return false;
+  try {
+    const key = await crypto.subtle.importKey('raw', fromBase64Url(tenant.qrPublicKey), ALGORITHM, false, ['verify']);
+    return await crypto.subtle.verify(ALGORITHM, key, fromBase64Url(envelope.sig), encoder.encode(envelope.data));
+  } catch {
+    return false; // Malformed signature (bad base64, etc.)
+  }
+}
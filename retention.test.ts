@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { Resident, Tenant } from './types';
+import { runRetention } from './retention';
+
+const tenant = { id: 't1', residentRetentionDays: 30 } as Tenant;
+
+const resident: Resident = {
+  id: 'r9',
+  tenantId: 't1',
+  name: 'Invitado Temporal',
+  unit: '101',
+  type: 'Visitor',
+  status: 'Active',
+  expirationDate: '2026-10-01T00:00:00.000Z',
+};
+
+describe('runRetention', () => {
+  it('archives expired residents and audits it as the system', () => {
+    const now = new Date('2026-10-19T12:00:00Z');
+    const { archived, purged, entries } = runRetention([resident], [tenant], now);
+    expect(archived).toEqual([{ ...resident, status: 'Inactive', archivedAt: now.toISOString() }]);
+    expect(purged).toEqual([]);
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ action: 'update', entity: 'resident', entityId: 'r9', actor: { id: 'system' }, before: resident, after: archived[0] });
+  });
+
+  it('purges archived residents once the retention period lapses', () => {
+    const archived: Resident = { ...resident, status: 'Inactive', archivedAt: '2026-09-01T00:00:00.000Z' };
+    const { purged, entries } = runRetention([archived], [tenant], new Date('2026-10-19T12:00:00Z'));
+    expect(purged).toEqual([archived]);
+    expect(entries[0]).toMatchObject({ action: 'delete', entityId: 'r9', before: archived });
+    expect(runRetention([archived], [tenant], new Date('2026-09-20T00:00:00Z')).purged).toEqual([]);
+  });
+
+  it('writes a new audit entry each time the same resident is archived again after a restore', () => {
+    const first = runRetention([resident], [tenant], new Date('2026-10-19T12:00:00Z')).entries[0];
+    const second = runRetention([resident], [tenant], new Date('2026-10-19T12:05:00Z')).entries[0];
+    expect(first.id).not.toBe(second.id);
+  });
+});
@@ -0,0 +1,64 @@
+import { AuditEntry, Resident, Tenant } from './types';
+import { DEFAULT_RESIDENT_RETENTION_DAYS } from './constants';
+import { SYSTEM_ACTOR } from './audit';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const getRetentionDays = (tenant?: Tenant) =>
+  tenant?.residentRetentionDays ?? DEFAULT_RESIDENT_RETENTION_DAYS;
+
+// When an archived resident will be purged (undefined if it isn't archived)
+export function getPurgeDate(resident: Resident, tenant?: Tenant): Date | undefined {
+  if (resident.status !== 'Inactive' || !resident.archivedAt) return undefined;
+  return new Date(new Date(resident.archivedAt).getTime() + getRetentionDays(tenant) * DAY_MS);
+}
+
+// Active residents whose authorization has lapsed and must be archived
+export const findExpiredResidents = (residents: Resident[], now: Date) =>
+  residents.filter(r => r.status === 'Active' && r.expirationDate && new Date(r.expirationDate) <= now);
+
+// Archived residents past their tenant's retention period
+export const findPurgeableResidents = (residents: Resident[], tenants: Tenant[], now: Date) =>
+  residents.filter(r => {
+    const purgeDate = getPurgeDate(r, tenants.find(t => t.id === r.tenantId));
+    return !!purgeDate && purgeDate <= now;
+  });
+
+// One pass of the automatic cleanup: expired residents archived (status 'Inactive') and archived ones past
+// retention purged, each with its audit entry. Entry ids include the run time: the same resident can be archived
+// again after a restore, and each time is a new entry in the append-only trail.
+export function runRetention(residents: Resident[], tenants: Tenant[], now: Date) {
+  const at = now.toISOString();
+
+  // 1. Archive expired authorizations
+  const expired = findExpiredResidents(residents, now);
+  const archived = expired.map((r): Resident => ({ ...r, status: 'Inactive', archivedAt: at }));
+  const archiveEntries = expired.map((r, i): AuditEntry => ({
+    id: `retention:archive:${r.id}:${at}`,
+    tenantId: r.tenantId,
+    at,
+    actor: SYSTEM_ACTOR,
+    action: 'update',
+    entity: 'resident',
+    entityId: r.id,
+    summary: `Archivado automático por vencimiento: ${r.name} (Unidad ${r.unit})`,
+    before: r,
+    after: archived[i],
+  }));
+
+  // 2. Purge archived records past retention
+  const purged = findPurgeableResidents(residents, tenants, now);
+  const purgeEntries = purged.map((r): AuditEntry => ({
+    id: `retention:purge:${r.id}:${at}`,
+    tenantId: r.tenantId,
+    at,
+    actor: SYSTEM_ACTOR,
+    action: 'delete',
+    entity: 'resident',
+    entityId: r.id,
+    summary: `Eliminación por fin de retención: ${r.name} (Unidad ${r.unit})`,
+    before: r,
+  }));
+
+  return { archived, purged, entries: [...archiveEntries, ...purgeEntries] };
+}
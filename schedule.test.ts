@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { AccessSchedule } from './types';
+import { getScheduleError, isWithinSchedule, validateSchedule, getEndOfDay } from './schedule';
+
+const SANTIAGO = { timezone: 'America/Santiago' }; // UTC-3 in October (DST)
+const UTC = { timezone: 'UTC' };
+
+// Weekdays 09:00–18:00; 2026-10-19 is a Monday
+const office: AccessSchedule = { days: [1, 2, 3, 4, 5], from: '09:00', to: '18:00' };
+
+describe('access windows', () => {
+  it('allows entry inside the window, in the tenant timezone', () => {
+    expect(isWithinSchedule(office, new Date('2026-10-19T13:00:00Z'), SANTIAGO)).toBe(true); // 10:00
+    expect(getScheduleError(office, new Date('2026-10-19T12:00:00Z'), SANTIAGO)).toBeNull(); // 09:00, inclusive
+  });
+
+  it('rejects entry before the start and from the end time on', () => {
+    expect(getScheduleError(office, new Date('2026-10-19T11:59:00Z'), SANTIAGO)).toMatch(/^Fuera de horario: acceso permitido solo/);
+    expect(isWithinSchedule(office, new Date('2026-10-19T21:00:00Z'), SANTIAGO)).toBe(false); // 18:00, exclusive
+  });
+
+  it('rejects entry on days outside the pass', () => {
+    expect(isWithinSchedule(office, new Date('2026-10-24T15:00:00Z'), SANTIAGO)).toBe(false); // Saturday
+  });
+
+  it('uses the tenant day, not the UTC one', () => {
+    const mondayEvening: AccessSchedule = { days: [1], from: '20:00', to: '23:00' };
+    const at = new Date('2026-10-20T01:00:00Z'); // Monday 22:00 in Santiago, Tuesday 01:00 in UTC
+    expect(isWithinSchedule(mondayEvening, at, SANTIAGO)).toBe(true);
+    expect(isWithinSchedule(mondayEvening, at, UTC)).toBe(false);
+  });
+
+  it('rejects entry before the first and after the last day', () => {
+    const at = new Date('2026-10-19T13:00:00Z');
+    expect(getScheduleError({ ...office, startDate: '2026-10-20' }, at, SANTIAGO)).toBe('Fuera de horario: el pase comienza el 20-10-2026.');
+    expect(getScheduleError({ ...office, endDate: '2026-10-18' }, at, SANTIAGO)).toBe('Fuera de horario: el pase ya terminó.');
+    expect(isWithinSchedule({ ...office, startDate: '2026-10-19', endDate: '2026-10-19' }, at, SANTIAGO)).toBe(true);
+  });
+});
+
+describe('validateSchedule', () => {
+  it('accepts a well-formed schedule', () => {
+    expect(validateSchedule({ ...office, startDate: '2026-10-01', endDate: '2026-12-31' })).toBeNull();
+  });
+
+  it('reports the first problem found', () => {
+    expect(validateSchedule(null)).toBe('El horario no es válido.');
+    expect(validateSchedule({ ...office, days: [] })).toBe('Elige al menos un día de la semana.');
+    expect(validateSchedule({ ...office, days: [1, 1] })).toBe('Los días del horario no son válidos.');
+    expect(validateSchedule({ ...office, from: '9:00' })).toBe('Las horas deben tener el formato HH:MM.');
+    expect(validateSchedule({ ...office, from: '18:00', to: '09:00' })).toBe('La hora de término debe ser posterior a la de inicio.');
+    expect(validateSchedule({ ...office, endDate: '31-12-2026' })).toBe('Las fechas del horario no son válidas.');
+    expect(validateSchedule({ ...office, startDate: '2026-12-31', endDate: '2026-10-01' })).toBe('La fecha de término debe ser posterior a la de inicio.');
+  });
+});
+
+describe('getEndOfDay', () => {
+  it('returns the last instant of the day in the tenant timezone', () => {
+    expect(getEndOfDay('2026-12-31', SANTIAGO).toISOString()).toBe('2027-01-01T02:59:59.999Z');
+    expect(getEndOfDay('2026-12-31', UTC).toISOString()).toBe('2026-12-31T23:59:59.999Z');
+  });
+
+  it('handles days when daylight saving time changes', () => {
+    expect(getEndOfDay('2026-04-04', SANTIAGO).toISOString()).toBe('2026-04-05T02:59:59.999Z'); // DST ends at midnight
+    expect(getEndOfDay('2026-09-05', SANTIAGO).toISOString()).toBe('2026-09-06T03:59:59.999Z'); // DST starts at midnight
+  });
+});
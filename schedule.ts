@@ -0,0 +1,84 @@
+import { AccessSchedule, Tenant } from './types';
+import { DEFAULT_TENANT_TIMEZONE } from './constants';
+
+// Monday first, as shown in the forms
+export const WEEKDAYS: { day: number; label: string }[] = [
+  { day: 1, label: 'Lun' }, { day: 2, label: 'Mar' }, { day: 3, label: 'Mié' }, { day: 4, label: 'Jue' },
+  { day: 5, label: 'Vie' }, { day: 6, label: 'Sáb' }, { day: 0, label: 'Dom' },
+];
+
+export const EMPTY_SCHEDULE: AccessSchedule = { days: [1, 2, 3, 4, 5], from: '09:00', to: '18:00' };
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const WEEKDAY_INDEX: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+// 'YYYY-MM-DD' -> 'DD-MM-YYYY'
+const formatDay = (date: string) => date.split('-').reverse().join('-');
+
+// Day, weekday and time at `at` in the tenant's timezone (the gate and the residents share it, the browser may not)
+function getLocalParts(at: Date, tenant?: Pick<Tenant, 'timezone'>) {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: tenant?.timezone || DEFAULT_TENANT_TIMEZONE,
+    year: 'numeric', month: '2-digit', day: '2-digit', weekday: 'short', hour: '2-digit', minute: '2-digit', hourCycle: 'h23',
+  }).formatToParts(at);
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value || '';
+  return { date: `${get('year')}-${get('month')}-${get('day')}`, weekday: WEEKDAY_INDEX[get('weekday')], time: `${get('hour')}:${get('minute')}` };
+}
+
+// Last instant (23:59:59.999) of a 'YYYY-MM-DD' day in the tenant's timezone, e.g. when a recurring pass expires.
+// The offset is read at the first guess and again at the result, in case a DST change falls in between.
+export function getEndOfDay(date: string, tenant?: Pick<Tenant, 'timezone'>): Date {
+  const wallClock = Date.parse(`${date}T23:59:00Z`);
+  const offsetAt = (instant: number) => {
+    const local = getLocalParts(new Date(instant), tenant);
+    return Date.parse(`${local.date}T${local.time}:00Z`) - instant;
+  };
+  const guess = wallClock - offsetAt(wallClock);
+  return new Date(wallClock - offsetAt(guess) + 59999);
+}
+
+// e.g. "Lun, Mié, Vie · 09:00–13:00 · hasta 31-12-2026"
+export function formatSchedule(schedule: AccessSchedule): string {
+  const days = WEEKDAYS.filter(w => schedule.days.includes(w.day)).map(w => w.label).join(', ');
+  const range = [
+    schedule.startDate && `desde ${formatDay(schedule.startDate)}`,
+    schedule.endDate && `hasta ${formatDay(schedule.endDate)}`,
+  ].filter(Boolean).join(' ');
+  return [days, `${schedule.from}–${schedule.to}`, range].filter(Boolean).join(' · ');
+}
+
+export const isWithinSchedule = (schedule: AccessSchedule, at: Date, tenant?: Pick<Tenant, 'timezone'>) =>
+  getScheduleError(schedule, at, tenant) === null;
+
+// Why `at` falls outside the window ("fuera de horario"), or null when access is allowed
+export function getScheduleError(schedule: AccessSchedule, at: Date, tenant?: Pick<Tenant, 'timezone'>): string | null {
+  const now = getLocalParts(at, tenant);
+  if (schedule.startDate && now.date < schedule.startDate) return `Fuera de horario: el pase comienza el ${formatDay(schedule.startDate)}.`;
+  if (schedule.endDate && now.date > schedule.endDate) return 'Fuera de horario: el pase ya terminó.';
+  if (!schedule.days.includes(now.weekday) || now.time < schedule.from || now.time >= schedule.to) {
+    return `Fuera de horario: acceso permitido solo ${formatSchedule({ ...schedule, startDate: undefined, endDate: undefined })}.`;
+  }
+  return null;
+}
+
+// Shared by the forms and the API server; returns the first problem found
+export function validateSchedule(schedule: unknown): string | null {
+  const s = schedule as AccessSchedule;
+  // 1. Structure
+  if (!s || typeof s !== 'object' || !Array.isArray(s.days) || typeof s.from !== 'string' || typeof s.to !== 'string') {
+    return 'El horario no es válido.';
+  }
+  // 2. Days
+  if (s.days.length === 0) return 'Elige al menos un día de la semana.';
+  if (s.days.some(d => !Number.isInteger(d) || d < 0 || d > 6) || new Set(s.days).size !== s.days.length) return 'Los días del horario no son válidos.';
+  // 3. Time Range
+  if (!TIME_PATTERN.test(s.from) || !TIME_PATTERN.test(s.to)) return 'Las horas deben tener el formato HH:MM.';
+  if (s.from >= s.to) return 'La hora de término debe ser posterior a la de inicio.';
+  // 4. Date Range
+  if ((s.startDate !== undefined && !DATE_PATTERN.test(s.startDate)) || (s.endDate !== undefined && !DATE_PATTERN.test(s.endDate))) {
+    return 'Las fechas del horario no son válidas.';
+  }
+  if (s.startDate && s.endDate && s.startDate > s.endDate) return 'La fecha de término debe ser posterior a la de inicio.';
+  return null;
+}
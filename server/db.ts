@@ -0,0 +1,147 @@
+import Database from 'better-sqlite3';
+import { Resident, Visit, User, Unit, Tenant, Invitation, Alert, BlacklistedPlate, AppNotification, AuditEntry, UserCredential, Session } from '../types';
+import { MOCK_RESIDENTS, MOCK_VISITS, MOCK_USERS, MOCK_UNITS, MOCK_TENANTS, MOCK_CREDENTIALS } from '../constants';
+
+// Each table keeps the domain object as JSON, with the columns used for lookups pulled out.
+// That way the rows always round-trip to the exact interfaces in types.ts.
+export interface TenantTable<T extends { id: string; tenantId: string }> {
+  list(tenantId: string): T[];
+  get(id: string): T | undefined;
+  save(item: T): void;
+  remove(id: string): void;
+}
+
+export interface ServerDatabase {
+  residents: TenantTable<Resident>;
+  visits: TenantTable<Visit>;
+  users: TenantTable<User>;
+  units: TenantTable<Unit>;
+  invitations: TenantTable<Invitation>;
+  alerts: TenantTable<Alert>;
+  blacklist: TenantTable<BlacklistedPlate>;
+  notifications: TenantTable<AppNotification>;
+  audit: TenantTable<AuditEntry>;
+  tenants: {
+    list(): Tenant[];
+    get(id: string): Tenant | undefined;
+    save(tenant: Tenant): void;
+  };
+  credentials: {
+    get(userId: string): UserCredential | undefined;
+    save(credential: UserCredential): void;
+    remove(userId: string): void;
+  };
+  sessions: {
+    get(id: string): Session | undefined;
+    listForUser(userId: string): Session[];
+    save(session: Session): void;
+    remove(id: string): void;
+    removeForUser(userId: string): void;
+  };
+  findUserByEmail(email: string): User | undefined;
+}
+
+const TENANT_TABLES = ['residents', 'visits', 'users', 'units', 'invitations', 'alerts', 'blacklist', 'notifications', 'audit'] as const;
+
+// Append-only tables never overwrite a row: saving an id that already exists is a no-op
+function createTenantTable<T extends { id: string; tenantId: string }>(db: Database.Database, table: string, appendOnly = false): TenantTable<T> {
+  const listStmt = db.prepare(`SELECT data FROM ${table} WHERE tenant_id = ? ORDER BY rowid`);
+  const getStmt = db.prepare(`SELECT data FROM ${table} WHERE id = ?`);
+  const saveStmt = db.prepare(appendOnly
+    ? `INSERT OR IGNORE INTO ${table} (id, tenant_id, data) VALUES (?, ?, ?)`
+    : `INSERT INTO ${table} (id, tenant_id, data) VALUES (?, ?, ?)
+     ON CONFLICT(id) DO UPDATE SET tenant_id = excluded.tenant_id, data = excluded.data`
+  );
+  const removeStmt = db.prepare(`DELETE FROM ${table} WHERE id = ?`);
+
+  return {
+    list: tenantId => (listStmt.all(tenantId) as { data: string }[]).map(row => JSON.parse(row.data)),
+    get: id => {
+      const row = getStmt.get(id) as { data: string } | undefined;
+      return row ? JSON.parse(row.data) : undefined;
+    },
+    save: item => { saveStmt.run(item.id, item.tenantId, JSON.stringify(item)); },
+    remove: id => { removeStmt.run(id); },
+  };
+}
+
+export function openDatabase(filename: string): ServerDatabase {
+  const db = new Database(filename);
+  db.pragma('journal_mode = WAL');
+
+  // 1. Schema
+  for (const table of TENANT_TABLES) {
+    db.exec(`CREATE TABLE IF NOT EXISTS ${table} (id TEXT PRIMARY KEY, tenant_id TEXT NOT NULL, data TEXT NOT NULL)`);
+    db.exec(`CREATE INDEX IF NOT EXISTS ${table}_tenant ON ${table} (tenant_id)`);
+  }
+  db.exec(`CREATE TABLE IF NOT EXISTS tenants (id TEXT PRIMARY KEY, data TEXT NOT NULL)`);
+  db.exec(`CREATE TABLE IF NOT EXISTS credentials (user_id TEXT PRIMARY KEY, data TEXT NOT NULL)`);
+  db.exec(`CREATE TABLE IF NOT EXISTS sessions (id TEXT PRIMARY KEY, user_id TEXT NOT NULL, data TEXT NOT NULL)`);
+
+  const residents = createTenantTable<Resident>(db, 'residents');
+  const visits = createTenantTable<Visit>(db, 'visits');
+  const users = createTenantTable<User>(db, 'users');
+  const units = createTenantTable<Unit>(db, 'units');
+  const invitations = createTenantTable<Invitation>(db, 'invitations');
+  const alerts = createTenantTable<Alert>(db, 'alerts');
+  const blacklist = createTenantTable<BlacklistedPlate>(db, 'blacklist');
+  const notifications = createTenantTable<AppNotification>(db, 'notifications');
+  const audit = createTenantTable<AuditEntry>(db, 'audit', true);
+
+  const saveTenant = db.prepare(`INSERT OR REPLACE INTO tenants (id, data) VALUES (?, ?)`);
+  const saveCredential = db.prepare(`INSERT OR REPLACE INTO credentials (user_id, data) VALUES (?, ?)`);
+
+  // 2. Seed the demo data on first run (same data the browser backends start with)
+  const isEmpty = (db.prepare(`SELECT COUNT(*) AS count FROM tenants`).get() as { count: number }).count === 0;
+  if (isEmpty) {
+    db.transaction(() => {
+      MOCK_TENANTS.forEach(t => saveTenant.run(t.id, JSON.stringify(t)));
+      MOCK_USERS.forEach(users.save);
+      MOCK_UNITS.forEach(units.save);
+      MOCK_CREDENTIALS.forEach(c => saveCredential.run(c.userId, JSON.stringify(c)));
+      MOCK_RESIDENTS.forEach(residents.save);
+      MOCK_VISITS.forEach(visits.save);
+    })();
+  }
+
+  const parseRow = <T>(row: unknown): T | undefined => row ? JSON.parse((row as { data: string }).data) : undefined;
+  const getTenant = db.prepare(`SELECT data FROM tenants WHERE id = ?`);
+  const getCredential = db.prepare(`SELECT data FROM credentials WHERE user_id = ?`);
+  const getSession = db.prepare(`SELECT data FROM sessions WHERE id = ?`);
+  const listUserSessions = db.prepare(`SELECT data FROM sessions WHERE user_id = ?`);
+  const saveSession = db.prepare(`INSERT OR REPLACE INTO sessions (id, user_id, data) VALUES (?, ?, ?)`);
+  const removeSession = db.prepare(`DELETE FROM sessions WHERE id = ?`);
+  const removeCredential = db.prepare(`DELETE FROM credentials WHERE user_id = ?`);
+  const removeUserSessions = db.prepare(`DELETE FROM sessions WHERE user_id = ?`);
+  const findUser = db.prepare(`SELECT data FROM users WHERE lower(json_extract(data, '$.email')) = ?`);
+
+  return {
+    residents,
+    visits,
+    users,
+    units,
+    invitations,
+    alerts,
+    blacklist,
+    notifications,
+    audit,
+    tenants: {
+      list: () => (db.prepare(`SELECT data FROM tenants ORDER BY rowid`).all() as { data: string }[]).map(row => JSON.parse(row.data)),
+      get: id => parseRow<Tenant>(getTenant.get(id)),
+      save: tenant => { saveTenant.run(tenant.id, JSON.stringify(tenant)); },
+    },
+    credentials: {
+      get: userId => parseRow<UserCredential>(getCredential.get(userId)),
+      save: credential => { saveCredential.run(credential.userId, JSON.stringify(credential)); },
+      remove: userId => { removeCredential.run(userId); },
+    },
+    sessions: {
+      get: id => parseRow<Session>(getSession.get(id)),
+      listForUser: userId => (listUserSessions.all(userId) as { data: string }[]).map(row => JSON.parse(row.data)),
+      save: session => { saveSession.run(session.id, session.userId, JSON.stringify(session)); },
+      remove: id => { removeSession.run(id); },
+      removeForUser: userId => { removeUserSessions.run(userId); },
+    },
+    findUserByEmail: email => parseRow<User>(findUser.get(email.trim().toLowerCase())),
+  };
+}
@@ -0,0 +1,51 @@
+import { createServer } from 'http';
+import express from 'express';
+import { openDatabase } from './db';
+import { createSessionRouter, requireSession } from './session';
+import { createApiRouter } from './routes';
+import { attachSyncServer, ChangeNotifier } from './sync';
+import { raiseAlerts, applyRetention, raiseExpiryWarnings } from './jobs';
+import { generateQrKeyPair } from '../qrSecurity';
+
+// MiVilla API server: tenant-scoped REST over SQLite for the `http` data backend.
+// Run with `npm run server`; the Vite dev server proxies /api (and the /api/sync WebSocket) here.
+const PORT = Number(process.env.API_PORT || 4000);
+const DB_PATH = process.env.DB_PATH || 'mivilla.sqlite';
+const JOB_INTERVAL_MS = 10000; // Resident expiry/retention, expiry warnings and time-based alert rules (overstays)
+
+const db = openDatabase(DB_PATH);
+// Tenants seeded (or stored before keys were asymmetric) without a QR key pair get one; the private half stays here
+for (const tenant of db.tenants.list()) {
+  if (!tenant.qrPublicKey) db.tenants.save({ ...tenant, ...(await generateQrKeyPair()) });
+}
+const app = express();
+const server = createServer(app);
+// The WebSocket hub shares the HTTP port; routes notify it after every write
+const broadcast = attachSyncServer(server, db);
+// Writes to the visit log or the blacklist may raise alerts, and resident changes expiry warnings, so those
+// jobs run right after them
+const notify: ChangeNotifier = (tenantId, collection, change) => {
+  broadcast(tenantId, collection, change);
+  if (collection === 'visits' || collection === 'blacklist') raiseAlerts(db, broadcast, tenantId);
+  if (collection === 'residents') raiseExpiryWarnings(db, broadcast, tenantId);
+};
+const runJobs = () => db.tenants.list().forEach(t => {
+  applyRetention(db, broadcast, t.id);
+  raiseExpiryWarnings(db, broadcast, t.id);
+  raiseAlerts(db, broadcast, t.id);
+});
+runJobs();
+setInterval(runJobs, JOB_INTERVAL_MS);
+
+app.use(express.json({ limit: '1mb' }));
+app.use('/api/auth', createSessionRouter(db));
+app.use('/api', requireSession(db), createApiRouter(db, notify));
+
+app.use((error: Error, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+  console.error('Error en la API:', error);
+  res.status(500).json({ error: 'Error interno del servidor.' });
+});
+
+server.listen(PORT, () => {
+  console.log(`API de MiVilla escuchando en http://localhost:${PORT} (base de datos: ${DB_PATH})`);
+});
@@ -0,0 +1,42 @@
+import { ServerDatabase } from './db';
+import { ChangeNotifier } from './sync';
+import { evaluateAlertRules } from '../alerts';
+import { runRetention } from '../retention';
+import { evaluateExpiryWarnings, isNotificationStale } from '../notifications';
+
+// Background work the API server does on behalf of the http backend, so no browser has to (or can) do it.
+
+// Raises the tenant's new alerts from its visit log and plate blacklist and pushes them to connected clients.
+// Safe to run repeatedly: the rules engine deduplicates by alert key.
+export function raiseAlerts(db: ServerDatabase, notify: ChangeNotifier, tenantId: string) {
+  const raised = evaluateAlertRules(db.visits.list(tenantId), db.blacklist.list(tenantId), db.alerts.list(tenantId), new Date());
+  if (raised.length === 0) return;
+  raised.forEach(db.alerts.save);
+  notify(tenantId, 'alerts', { type: 'saved', items: raised });
+}
+
+// Archives the tenant's expired residents and purges those past retention, audited as the system.
+// The entries go straight to the audit table: the append-only policy only governs what users write.
+export function applyRetention(db: ServerDatabase, notify: ChangeNotifier, tenantId: string) {
+  const { archived, purged, entries } = runRetention(db.residents.list(tenantId), db.tenants.list(), new Date());
+  if (entries.length === 0) return;
+  archived.forEach(db.residents.save);
+  purged.forEach(r => db.residents.remove(r.id));
+  entries.forEach(db.audit.save);
+  if (archived.length > 0) notify(tenantId, 'residents', { type: 'saved', items: archived });
+  if (purged.length > 0) notify(tenantId, 'residents', { type: 'removed', ids: purged.map(r => r.id) });
+  notify(tenantId, 'audit', { type: 'saved', items: entries });
+}
+
+// Drops the expiry warnings that went stale (resident extended, archived or removed) and raises the new ones
+export function raiseExpiryWarnings(db: ServerDatabase, notify: ChangeNotifier, tenantId: string) {
+  const residents = db.residents.list(tenantId);
+  const existing = db.notifications.list(tenantId);
+  const stale = existing.filter(n => isNotificationStale(n, residents));
+  const fresh = existing.filter(n => !stale.includes(n));
+  const raised = evaluateExpiryWarnings(residents, db.tenants.list(), fresh, new Date());
+  stale.forEach(n => db.notifications.remove(n.id));
+  raised.forEach(db.notifications.save);
+  if (stale.length > 0) notify(tenantId, 'notifications', { type: 'removed', ids: stale.map(n => n.id) });
+  if (raised.length > 0) notify(tenantId, 'notifications', { type: 'saved', items: raised });
+}
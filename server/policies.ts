@@ -0,0 +1,175 @@
+import { User, Resident, Unit, Visit, Invitation, Alert, BlacklistedPlate, AppNotification, AuditEntry, Tenant } from '../types';
+import { PermissionCheck, ANY_RESOURCE, validatePermissionMatrix, validateDelegation } from '../permissions';
+import { validateUnit } from '../units';
+import { getTowers, isTowerInUse, validateSiteLayout } from '../site';
+import { validateSchedule } from '../schedule';
+
+// Server-side version of the permission checks the UI applies (the tenant's matrix, see permissions.ts).
+// Tenant scoping is enforced by the routes before these checks run.
+
+export interface PolicyContext {
+  residents: Resident[]; // Residents of the caller's tenant, to resolve units
+  units: Unit[]; // Units of the caller's tenant
+  can: PermissionCheck; // Bound to the caller's tenant matrix
+}
+
+export interface CollectionPolicy<T> {
+  canRead(user: User, item: T, ctx: PolicyContext): boolean;
+  // `previous` is undefined when the item is being created
+  canSave(user: User, next: T, previous: T | undefined, ctx: PolicyContext): boolean;
+  canRemove(user: User, item: T, ctx: PolicyContext): boolean;
+}
+
+const unitOfResident = (residentId: string, ctx: PolicyContext) =>
+  ctx.residents.find(r => r.id === residentId)?.unit;
+
+// True when `next` differs from `previous` only in the given keys
+function onlyChanged<T extends object>(previous: T, next: T, keys: (keyof T)[]): boolean {
+  const allKeys = new Set([...Object.keys(previous), ...Object.keys(next)]) as Set<keyof T>;
+  return [...allKeys].every(key =>
+    keys.includes(key) || JSON.stringify(previous[key]) === JSON.stringify(next[key])
+  );
+}
+
+// Recurring access windows are only for visitors
+const hasValidSchedule = (resident: Resident) =>
+  !resident.schedule || (resident.type === 'Visitor' && validateSchedule(resident.schedule) === null);
+
+export const residentPolicy: CollectionPolicy<Resident> = {
+  // 'own' scopes limit every action to the user's unit (both the stored row and the new one)
+  canRead: (user, item, ctx) => ctx.can(user, 'resident.view', item),
+  canSave: (user, next, previous, ctx) => hasValidSchedule(next) && (previous
+    ? ctx.can(user, 'resident.edit', previous) && ctx.can(user, 'resident.edit', next)
+    : ctx.can(user, 'resident.create', next)),
+  canRemove: (user, item, ctx) => ctx.can(user, 'resident.delete', item),
+};
+
+export const visitPolicy: CollectionPolicy<Visit> = {
+  canRead: (user, item, ctx) => ctx.can(user, 'visit.view', { unit: unitOfResident(item.residentId, ctx) }),
+  canSave: (user, next, previous, ctx) => {
+    // Scans, walk-ins and check-outs are recorded by the gate
+    if (ctx.can(user, 'qr.validate')) return true;
+    // Otherwise only answers to pending walk-in requests
+    if (!previous || previous.status !== 'Pending') return false;
+    if (!ctx.can(user, 'visit.approve', { unit: unitOfResident(previous.residentId, ctx) })) return false;
+    if (next.status !== 'Approved' && next.status !== 'Rejected') return false;
+    return onlyChanged(previous, next, ['status', 'decision', 'rejectionReason', 'rejectionCode']);
+  },
+  // The visit log is evidence; only the admin may delete entries by default
+  canRemove: (user, _item, ctx) => ctx.can(user, 'visit.delete'),
+};
+
+export const userPolicy: CollectionPolicy<User> = {
+  // 'own' scope: just the user's profile. Owners also see the renters they delegate to.
+  canRead: (user, item, ctx) =>
+    ctx.can(user, 'user.view', { userId: item.id }) ||
+    (item.role === 'R' && ctx.can(user, 'unit.delegate', { unit: item.unit })),
+  canSave: (user, next, previous, ctx) => {
+    // Only a super-admin can grant or revoke platform access
+    if (!!next.superAdmin !== !!previous?.superAdmin && !user.superAdmin) return false;
+    // Delegations are granted by whoever signs them, within what they may do in the renter's unit
+    if (previous && JSON.stringify(previous.delegation) !== JSON.stringify(next.delegation)) {
+      if (validateDelegation(user, previous, next.delegation?.capabilities ?? [], ctx.can)) return false;
+      if (next.delegation && next.delegation.grantedBy.id !== user.id) return false;
+      if (onlyChanged(previous, next, ['delegation'])) return true;
+    }
+    // New users are never "own", so creating one needs the 'all' scope
+    if (!ctx.can(user, 'user.edit', { userId: next.id })) return false;
+    if (!previous) return true;
+    // Nobody deactivates their own account
+    if (next.status !== previous.status && (next.id === user.id || !ctx.can(user, 'user.edit', ANY_RESOURCE))) return false;
+    // Nobody changes their own role
+    if (next.role !== previous.role) return next.id !== user.id && ctx.can(user, 'user.role');
+    // With only the 'own' scope, just the personal fields
+    return ctx.can(user, 'user.edit', ANY_RESOURCE) || onlyChanged(previous, next, ['name', 'email', 'avatar']);
+  },
+  canRemove: (user, item, ctx) => item.id !== user.id && ctx.can(user, 'user.delete'),
+};
+
+export const unitPolicy: CollectionPolicy<Unit> = {
+  canRead: (user, item, ctx) => ctx.can(user, 'unit.view', { unit: item.number }),
+  // The number is what users, residents and invitations point to, so it never changes
+  canSave: (user, next, previous, ctx) =>
+    ctx.can(user, 'unit.manage') && (!previous || previous.number === next.number) && !validateUnit(next, ctx.units),
+  canRemove: (user, _item, ctx) => ctx.can(user, 'unit.manage'),
+};
+
+export const invitationPolicy: CollectionPolicy<Invitation> = {
+  // The gate needs every invitation; issuers their own unit's
+  canRead: (user, item, ctx) => ctx.can(user, 'qr.validate') || ctx.can(user, 'qr.generate', { unit: item.payload.residentUnit }),
+  // Invitations are only issued through POST /invitations (signed server-side); the one edit allowed is
+  // revoking it, once, by someone who could have issued it. They are never deleted: the record is what
+  // keeps a revoked code revoked, and the gate rejects codes it has no record of.
+  canSave: (user, next, previous, ctx) =>
+    !!previous && !previous.revocation && onlyChanged(previous, next, ['revocation']) &&
+    next.revocation?.by.id === user.id && !!next.revocation.reason?.trim() && !isNaN(new Date(next.revocation.at).getTime()) &&
+    ctx.can(user, 'qr.generate', { unit: previous.payload.residentUnit }),
+  canRemove: () => false,
+};
+
+// An acknowledgement/resolution stamp is either unchanged or signed by the user making the change
+const isOwnStamp = (user: User, next?: { id: string }, previous?: { id: string }) =>
+  JSON.stringify(next) === JSON.stringify(previous) || next?.id === user.id;
+
+export const alertPolicy: CollectionPolicy<Alert> = {
+  // Whoever handles alerts sees them all; the rest, those of the visits they can see
+  canRead: (user, item, ctx) =>
+    ctx.can(user, 'alert.manage') || ctx.can(user, 'visit.view', { unit: item.residentId ? unitOfResident(item.residentId, ctx) : undefined }),
+  // Alerts are raised by the server's rules engine; users only acknowledge or resolve them
+  canSave: (user, next, previous, ctx) =>
+    !!previous && ctx.can(user, 'alert.manage') && onlyChanged(previous, next, ['status', 'acknowledgedBy', 'resolvedBy']) &&
+    isOwnStamp(user, next.acknowledgedBy, previous.acknowledgedBy) && isOwnStamp(user, next.resolvedBy, previous.resolvedBy),
+  canRemove: () => false,
+};
+
+export const blacklistPolicy: CollectionPolicy<BlacklistedPlate> = {
+  canRead: (user, _item, ctx) => ctx.can(user, 'blacklist.manage') || ctx.can(user, 'alert.manage'),
+  canSave: (user, _next, _previous, ctx) => ctx.can(user, 'blacklist.manage'),
+  canRemove: (user, _item, ctx) => ctx.can(user, 'blacklist.manage'),
+};
+
+// Invitations are generated by admins, and by residents for their own unit (by default)
+export const canIssueInvitation = (user: User, residentId: string, ctx: PolicyContext) =>
+  ctx.can(user, 'qr.generate', { unit: unitOfResident(residentId, ctx) });
+
+// Creating, editing and deactivating tenants is reserved to the platform operator
+export const canManageTenants = (user: User) => !!user.superAdmin;
+
+const isPositiveInteger = (value: unknown) => Number.isInteger(value) && (value as number) > 0;
+
+// Admins tune their own tenant's settings: resident retention, expiry warning intervals, towers and gates, and the permission matrix
+export function canUpdateTenant(user: User, next: Tenant, previous: Tenant, ctx: PolicyContext): boolean {
+  if (previous.id !== user.tenantId || next.id !== previous.id) return false;
+  if (!onlyChanged(previous, next, ['residentRetentionDays', 'expiryWarningHours', 'towers', 'gates', 'permissions'])) return false;
+
+  const settingsChanged = !onlyChanged(previous, next, ['permissions']);
+  if (settingsChanged && !(
+    ctx.can(user, 'tenant.settings') &&
+    (next.residentRetentionDays === undefined || isPositiveInteger(next.residentRetentionDays)) &&
+    (next.expiryWarningHours === undefined || (Array.isArray(next.expiryWarningHours) && next.expiryWarningHours.every(isPositiveInteger))) &&
+    validateSiteLayout(next.towers, next.gates) === null &&
+    getTowers(previous).every(t => getTowers(next).some(other => other.id === t.id) || !isTowerInUse(t.id, ctx.units))
+  )) return false;
+
+  const permissionsChanged = !onlyChanged(previous, next, ['residentRetentionDays', 'expiryWarningHours', 'towers', 'gates']);
+  return !permissionsChanged || (
+    ctx.can(user, 'permission.manage') &&
+    (next.permissions === undefined || validatePermissionMatrix(next.permissions) === null)
+  );
+}
+
+export const notificationPolicy: CollectionPolicy<AppNotification> = {
+  canRead: (user, item, ctx) => ctx.can(user, 'notification.view', { unit: item.unit }),
+  // Expiry warnings are raised (and dropped once stale) by the server; users only mark them read, with their own id
+  canSave: (user, next, previous, ctx) =>
+    !!previous && ctx.can(user, 'notification.view', { unit: previous.unit }) && onlyChanged(previous, next, ['readBy']) &&
+    !previous.readBy.includes(user.id) && JSON.stringify(next.readBy) === JSON.stringify([...previous.readBy, user.id]),
+  canRemove: () => false,
+};
+
+export const auditPolicy: CollectionPolicy<AuditEntry> = {
+  canRead: (user, _item, ctx) => ctx.can(user, 'audit.view'),
+  // Append-only: new entries, written by the caller about themselves. Nothing is edited or deleted.
+  canSave: (user, next, previous) => !previous && next.actor.id === user.id,
+  canRemove: () => false,
+};
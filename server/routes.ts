@@ -0,0 +1,325 @@
+import { Router, Response } from 'express';
+import { QRPayload, Invitation, Tenant, User } from '../types';
+import { generateSalt, hashSecret, MIN_PASSWORD_LENGTH } from '../auth';
+import { validateTenant, toPublicTenant } from '../tenants';
+import { validateNewUser, buildNewUser, UNIT_ROLES } from '../users';
+import { findUnit } from '../units';
+import { getGates } from '../site';
+import { validateSchedule, getEndOfDay } from '../schedule';
+import { createPermissionCheck } from '../permissions';
+import { signQRPayload, generateQrKeyPair } from '../qrSecurity';
+import { isValidRut, formatRut } from '../validation';
+import { ServerDatabase, TenantTable } from './db';
+import { ChangeNotifier, SyncCollection } from './sync';
+import { CollectionPolicy, PolicyContext, residentPolicy, visitPolicy, userPolicy, unitPolicy, invitationPolicy, alertPolicy, blacklistPolicy, notificationPolicy, auditPolicy, canIssueInvitation, canUpdateTenant, canManageTenants } from './policies';
+import { currentUser } from './session';
+
+const forbidden = (res: Response) => res.status(403).json({ error: 'No tienes permisos para esta acción.' });
+const notFound = (res: Response) => res.status(404).json({ error: 'Registro no encontrado.' });
+
+const policyContext = (db: ServerDatabase, tenantId: string): PolicyContext => ({
+  residents: db.residents.list(tenantId),
+  units: db.units.list(tenantId),
+  can: createPermissionCheck(db.tenants.get(tenantId)),
+});
+
+// Tenant-scoped CRUD matching the client's HTTP repository: GET /, PUT /:id, DELETE /:id
+function createCollectionRouter<T extends { id: string; tenantId: string }>(
+  db: ServerDatabase,
+  collection: SyncCollection,
+  table: TenantTable<T>,
+  policy: CollectionPolicy<T>,
+  notify: ChangeNotifier,
+  onRemoved?: (item: T) => void
+) {
+  const router = Router();
+
+  router.get('/', (_req, res) => {
+    const user = currentUser(res);
+    const ctx = policyContext(db, user.tenantId);
+    res.json(table.list(user.tenantId).filter(item => policy.canRead(user, item, ctx)));
+  });
+
+  router.put('/:id', (req, res) => {
+    const user = currentUser(res);
+    const next = req.body as T;
+    // 1. Validate Structure
+    if (!next || typeof next !== 'object' || next.id !== req.params.id) {
+      res.status(400).json({ error: 'El id del cuerpo no coincide con la URL.' });
+      return;
+    }
+    // 2. Validate Tenant (both the stored row and the new one)
+    const previous = table.get(req.params.id);
+    if (next.tenantId !== user.tenantId || (previous && previous.tenantId !== user.tenantId)) {
+      forbidden(res);
+      return;
+    }
+    // 3. Validate Role
+    const ctx = policyContext(db, user.tenantId);
+    if (!policy.canSave(user, next, previous, ctx)) {
+      forbidden(res);
+      return;
+    }
+    table.save(next);
+    notify(user.tenantId, collection, { type: 'saved', items: [next] });
+    res.json(next);
+  });
+
+  router.delete('/:id', (req, res) => {
+    const user = currentUser(res);
+    const item = table.get(req.params.id);
+    if (!item || item.tenantId !== user.tenantId) {
+      notFound(res);
+      return;
+    }
+    if (!policy.canRemove(user, item, policyContext(db, user.tenantId))) {
+      forbidden(res);
+      return;
+    }
+    table.remove(item.id);
+    onRemoved?.(item);
+    notify(user.tenantId, collection, { type: 'removed', ids: [item.id] });
+    res.status(204).end();
+  });
+
+  return router;
+}
+
+// Invitations are created and signed here, so the tenant's private key never has to be trusted to the client
+function createInvitationRouter(db: ServerDatabase, notify: ChangeNotifier) {
+  const router = createCollectionRouter(db, 'invitations', db.invitations, invitationPolicy, notify);
+
+  router.post('/', async (req, res) => {
+    const user = currentUser(res);
+    const { residentId, visitorName, visitorRut, licensePlate, companions, expiresAt, maxUses = 1, gateIds, schedule } = req.body || {};
+
+    // 1. Validate Structure
+    if (typeof visitorName !== 'string' || !visitorName.trim()) {
+      res.status(400).json({ error: 'El nombre del visitante es obligatorio.' });
+      return;
+    }
+    if (visitorRut !== undefined && (typeof visitorRut !== 'string' || !isValidRut(visitorRut))) {
+      res.status(400).json({ error: 'RUT inválido.' });
+      return;
+    }
+    if (!Number.isInteger(maxUses) || maxUses < 1) {
+      res.status(400).json({ error: 'La cantidad de usos debe ser un entero positivo.' });
+      return;
+    }
+    const scheduleError = schedule !== undefined &&
+      (validateSchedule(schedule) || (!schedule.endDate ? 'Un pase recurrente necesita un último día.' : null));
+    if (scheduleError) {
+      res.status(400).json({ error: scheduleError });
+      return;
+    }
+
+    // 2. Validate Tenant
+    const resident = typeof residentId === 'string' ? db.residents.get(residentId) : undefined;
+    const tenant = db.tenants.get(user.tenantId);
+    if (!resident || resident.tenantId !== user.tenantId || !tenant) {
+      notFound(res);
+      return;
+    }
+    // Archived hosts can't receive visitors
+    if (resident.status !== 'Active') {
+      res.status(400).json({ error: 'El residente anfitrión está archivado o inactivo.' });
+      return;
+    }
+    // Recurring passes last until the end of their last day in the tenant timezone, whatever the client says
+    const expiration = schedule ? getEndOfDay(schedule.endDate, tenant) : new Date(expiresAt);
+    if (isNaN(expiration.getTime()) || expiration <= new Date()) {
+      res.status(400).json({ error: 'La fecha de expiración debe ser futura.' });
+      return;
+    }
+    // Optional gate restriction: only the tenant's own access points
+    if (gateIds !== undefined && (!Array.isArray(gateIds) || gateIds.some(id => !getGates(tenant).some(g => g.id === id)))) {
+      res.status(400).json({ error: 'Los accesos seleccionados no son válidos.' });
+      return;
+    }
+    // 3. Validate Role
+    if (!canIssueInvitation(user, resident.id, policyContext(db, user.tenantId))) {
+      forbidden(res);
+      return;
+    }
+
+    const payload: QRPayload = {
+      id: crypto.randomUUID(),
+      tenantId: tenant.id,
+      residentId: resident.id,
+      residentName: resident.name,
+      residentUnit: resident.unit,
+      visitorName: visitorName.trim(),
+      visitorRut: visitorRut ? formatRut(visitorRut) : undefined,
+      licensePlate: typeof licensePlate === 'string' && licensePlate.trim() ? licensePlate.trim() : undefined,
+      companions: Number.isInteger(companions) && companions > 0 ? companions : undefined,
+      createdBy: { name: user.name, role: user.role, id: user.id },
+      expiresAt: expiration.toISOString(),
+      generatedAt: Date.now(),
+      maxUses: schedule ? undefined : maxUses,
+      schedule,
+      gateIds: Array.isArray(gateIds) && gateIds.length > 0 ? gateIds : undefined,
+    };
+    const invitation: Invitation = {
+      id: payload.id,
+      tenantId: tenant.id,
+      residentId: resident.id,
+      payload,
+      qrValue: await signQRPayload(payload, tenant),
+      createdAt: new Date().toISOString(),
+    };
+    db.invitations.save(invitation);
+    notify(tenant.id, 'invitations', { type: 'saved', items: [invitation] });
+    res.status(201).json(invitation);
+  });
+
+  return router;
+}
+
+// Accounts are created here so the initial password is hashed server-side; deleting one also drops its credential and sessions
+function createUserRouter(db: ServerDatabase, notify: ChangeNotifier) {
+  const router = createCollectionRouter(db, 'users', db.users, userPolicy, notify, removed => {
+    db.credentials.remove(removed.id);
+    db.sessions.removeForUser(removed.id);
+  });
+
+  router.post('/', async (req, res) => {
+    const user = currentUser(res);
+    const { name, email, role, unit, password } = req.body || {};
+    // 1. Validate Input
+    if (typeof name !== 'string' || typeof email !== 'string' || (unit !== undefined && typeof unit !== 'string')) {
+      res.status(400).json({ error: 'Nombre, correo y contraseña son obligatorios.' });
+      return;
+    }
+    const error = validateNewUser({ name, email, role, unit }, password, [])
+      || (UNIT_ROLES.includes(role) && !findUnit(db.units.list(user.tenantId), unit) ? `La unidad ${unit} no está registrada.` : null);
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+    // 2. Validate Uniqueness (across tenants: the email is the login)
+    if (db.findUserByEmail(email)) {
+      res.status(409).json({ error: 'Ya existe un usuario con ese correo.' });
+      return;
+    }
+    // 3. Validate Role
+    const created = buildNewUser({ name, email, role, unit }, user.tenantId);
+    if (!userPolicy.canSave(user, created, undefined, policyContext(db, user.tenantId))) {
+      forbidden(res);
+      return;
+    }
+
+    const passwordSalt = generateSalt();
+    db.users.save(created);
+    db.credentials.save({ userId: created.id, passwordSalt, passwordHash: await hashSecret(password, passwordSalt), failedAttempts: 0 });
+    notify(user.tenantId, 'users', { type: 'saved', items: [created] });
+    res.status(201).json(created);
+  });
+
+  return router;
+}
+
+// Tenants: super-admins manage all of them (and provision their first admin); X tunes its own settings and permissions
+function createTenantRouter(db: ServerDatabase, notify: ChangeNotifier) {
+  const router = Router();
+
+  // Everyone else only sees their own tenant. Nobody gets the QR signing key: it never leaves the server.
+  router.get('/', (_req, res) => {
+    const user = currentUser(res);
+    if (canManageTenants(user)) {
+      res.json(db.tenants.list().map(toPublicTenant));
+      return;
+    }
+    const tenant = db.tenants.get(user.tenantId);
+    res.json(tenant ? [toPublicTenant(tenant)] : []);
+  });
+
+  router.put('/:id', async (req, res) => {
+    const user = currentUser(res);
+    const body = req.body as Tenant;
+    const previous = db.tenants.get(req.params.id);
+    // 1. Validate Structure
+    if (!body || typeof body !== 'object' || body.id !== req.params.id) {
+      res.status(400).json({ error: 'El id del cuerpo no coincide con la URL.' });
+      return;
+    }
+    // The key pair is the server's: kept as stored (or created for a new tenant), whatever the client sent
+    const keys = previous ? { qrSigningKey: previous.qrSigningKey, qrPublicKey: previous.qrPublicKey } : await generateQrKeyPair();
+    const next: Tenant = { ...body, ...keys };
+    // 2. Validate Role
+    if (canManageTenants(user)) {
+      const error = validateTenant(next, db.tenants.list());
+      if (error) {
+        res.status(400).json({ error });
+        return;
+      }
+    } else if (!previous || !canUpdateTenant(user, next, previous, policyContext(db, user.tenantId))) {
+      forbidden(res);
+      return;
+    }
+    db.tenants.save(next);
+    res.json(toPublicTenant(next));
+  });
+
+  // First admin (Role X) of a tenant, with an initial password they should change after logging in
+  router.post('/:id/admins', async (req, res) => {
+    const user = currentUser(res);
+    const tenant = db.tenants.get(req.params.id);
+    if (!canManageTenants(user)) {
+      forbidden(res);
+      return;
+    }
+    if (!tenant) {
+      notFound(res);
+      return;
+    }
+    const { name, email, password } = req.body || {};
+    // 1. Validate Input
+    if (typeof name !== 'string' || !name.trim() || typeof email !== 'string' || !email.includes('@') || typeof password !== 'string') {
+      res.status(400).json({ error: 'Nombre, correo y contraseña son obligatorios.' });
+      return;
+    }
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      res.status(400).json({ error: `La contraseña debe tener al menos ${MIN_PASSWORD_LENGTH} caracteres.` });
+      return;
+    }
+    // 2. Validate Uniqueness
+    if (db.findUserByEmail(email)) {
+      res.status(409).json({ error: 'Ya existe un usuario con ese correo.' });
+      return;
+    }
+
+    const admin: User = {
+      id: crypto.randomUUID(),
+      name: name.trim(),
+      email: email.trim().toLowerCase(),
+      role: 'X',
+      tenantId: tenant.id,
+      avatar: `https://picsum.photos/seed/${encodeURIComponent(email)}/200`,
+    };
+    const passwordSalt = generateSalt();
+    db.users.save(admin);
+    db.credentials.save({ userId: admin.id, passwordSalt, passwordHash: await hashSecret(password, passwordSalt), failedAttempts: 0 });
+    notify(tenant.id, 'users', { type: 'saved', items: [admin] });
+    res.status(201).json(admin);
+  });
+
+  return router;
+}
+
+export function createApiRouter(db: ServerDatabase, notify: ChangeNotifier) {
+  const router = Router();
+
+  router.use('/residents', createCollectionRouter(db, 'residents', db.residents, residentPolicy, notify));
+  router.use('/visits', createCollectionRouter(db, 'visits', db.visits, visitPolicy, notify));
+  router.use('/users', createUserRouter(db, notify));
+  router.use('/units', createCollectionRouter(db, 'units', db.units, unitPolicy, notify));
+  router.use('/invitations', createInvitationRouter(db, notify));
+  router.use('/alerts', createCollectionRouter(db, 'alerts', db.alerts, alertPolicy, notify));
+  router.use('/blacklist', createCollectionRouter(db, 'blacklist', db.blacklist, blacklistPolicy, notify));
+  router.use('/notifications', createCollectionRouter(db, 'notifications', db.notifications, notificationPolicy, notify));
+  router.use('/audit', createCollectionRouter(db, 'audit', db.audit, auditPolicy, notify));
+
+  router.use('/tenants', createTenantRouter(db, notify));
+
+  return router;
+}
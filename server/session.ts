@@ -0,0 +1,205 @@
+import { IncomingMessage } from 'http';
+import { Router, Request, Response, NextFunction } from 'express';
+import { User, Session } from '../types';
+import { authenticate, createSession, isSessionActive, isValidPin, generateSalt, hashSecret, MIN_PASSWORD_LENGTH } from '../auth';
+import { isTenantActive, resolveTenant, toPublicTenant, TENANT_INACTIVE_ERROR } from '../tenants';
+import { isUserActive, USER_INACTIVE_ERROR } from '../users';
+import { createPermissionCheck } from '../permissions';
+import { ServerDatabase } from './db';
+
+export const SESSION_COOKIE = 'mivilla_session';
+
+// Authenticated user of the current request (set by requireSession)
+export const currentUser = (res: Response): User => res.locals.user;
+
+export const readSessionId = (req: IncomingMessage) => {
+  const cookies = req.headers.cookie?.split(';') || [];
+  for (const cookie of cookies) {
+    const [name, ...value] = cookie.trim().split('=');
+    if (name === SESSION_COOKIE) return decodeURIComponent(value.join('='));
+  }
+  return undefined;
+};
+
+const setSessionCookie = (res: Response, session: Session) => {
+  res.cookie(SESSION_COOKIE, session.id, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    expires: new Date(session.expiresAt),
+  });
+};
+
+// Rejects requests without a valid, unexpired session cookie
+export function requireSession(db: ServerDatabase) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const sessionId = readSessionId(req);
+    const session = sessionId ? db.sessions.get(sessionId) : undefined;
+    if (!session || !isSessionActive(session)) {
+      if (session) db.sessions.remove(session.id);
+      res.status(401).json({ error: 'Sesión no válida o expirada.' });
+      return;
+    }
+    const user = db.users.get(session.userId);
+    if (!user) {
+      res.status(401).json({ error: 'Usuario no encontrado.' });
+      return;
+    }
+    if (!user.superAdmin && !isTenantActive(db.tenants.get(user.tenantId))) {
+      res.status(403).json({ error: TENANT_INACTIVE_ERROR });
+      return;
+    }
+    if (!isUserActive(user)) {
+      res.status(403).json({ error: USER_INACTIVE_ERROR });
+      return;
+    }
+    // A session only works on its own tenant's domain
+    const hostTenant = resolveTenant(db.tenants.list(), req.hostname);
+    if (hostTenant && hostTenant.id !== user.tenantId) {
+      res.status(401).json({ error: 'La sesión no corresponde a este condominio.' });
+      return;
+    }
+    res.locals.user = user;
+    next();
+  };
+}
+
+// /auth: tenant resolution, login with password or tablet PIN, logout, current user and its own credentials/sessions
+export function createSessionRouter(db: ServerDatabase) {
+  const router = Router();
+
+  // Public: the tenant served on this hostname (or the `?tenant=` dev override), without secrets
+  router.get('/tenant', (req, res) => {
+    const override = typeof req.query.tenant === 'string' ? req.query.tenant : undefined;
+    const tenant = resolveTenant(db.tenants.list(), req.hostname, override);
+    if (!tenant) {
+      res.status(404).json({ error: 'Condominio no encontrado.' });
+      return;
+    }
+    res.json(toPublicTenant(tenant));
+  });
+
+  router.post('/login', async (req, res) => {
+    const { email, secret, method = 'password', tenant: override } = req.body || {};
+    if (typeof email !== 'string' || typeof secret !== 'string' || (method !== 'password' && method !== 'pin')) {
+      res.status(400).json({ error: 'Solicitud inválida.' });
+      return;
+    }
+    if (method === 'pin' && !isValidPin(secret)) {
+      res.status(400).json({ error: 'El PIN debe tener entre 4 y 6 dígitos.' });
+      return;
+    }
+
+    // Users of other tenants don't exist on this tenant's login (same generic error, no attempt counted)
+    const resolved = resolveTenant(db.tenants.list(), req.hostname, typeof override === 'string' ? override : undefined);
+    const found = db.findUserByEmail(email);
+    const user = found && (!resolved || found.tenantId === resolved.id) ? found : undefined;
+    const credential = user && db.credentials.get(user.id);
+    const result = await authenticate(user ? [user] : [], credential ? [credential] : [], email, secret, method);
+    // Persist attempt counters / lockout (or their reset on success)
+    if (result.credential) db.credentials.save(result.credential);
+
+    if ('error' in result) {
+      res.status(401).json({ error: result.error });
+      return;
+    }
+    if (!result.user.superAdmin && !isTenantActive(db.tenants.get(result.user.tenantId))) {
+      res.status(403).json({ error: TENANT_INACTIVE_ERROR });
+      return;
+    }
+    if (!isUserActive(result.user)) {
+      res.status(403).json({ error: USER_INACTIVE_ERROR });
+      return;
+    }
+    const session = createSession(result.user.id, method);
+    db.sessions.save(session);
+    setSessionCookie(res, session);
+    res.json({ user: result.user, session });
+  });
+
+  router.post('/logout', (req, res) => {
+    const sessionId = readSessionId(req);
+    if (sessionId) db.sessions.remove(sessionId);
+    res.clearCookie(SESSION_COOKIE);
+    res.status(204).end();
+  });
+
+  router.get('/me', requireSession(db), (_req, res) => {
+    res.json(currentUser(res));
+  });
+
+  // Account security summary for the profile screen: never the hashes themselves
+  router.get('/security', requireSession(db), (_req, res) => {
+    const user = currentUser(res);
+    res.json({
+      hasPin: !!db.credentials.get(user.id)?.pinHash,
+      activeSessionCount: db.sessions.listForUser(user.id).filter(s => isSessionActive(s)).length,
+    });
+  });
+
+  // Password change. The current password is checked like a login (same attempt counter and lockout), so this
+  // can't be used to guess it; on success every other session of the user is closed.
+  router.put('/password', requireSession(db), async (req, res) => {
+    const user = currentUser(res);
+    const { current, next } = req.body || {};
+    const credential = db.credentials.get(user.id);
+    if (typeof current !== 'string' || typeof next !== 'string' || !credential) {
+      res.status(400).json({ error: 'Solicitud inválida.' });
+      return;
+    }
+    if (next.length < MIN_PASSWORD_LENGTH) {
+      res.status(400).json({ error: `La nueva contraseña debe tener al menos ${MIN_PASSWORD_LENGTH} caracteres.` });
+      return;
+    }
+    const result = await authenticate([user], [credential], user.email, current, 'password');
+    if (result.credential) db.credentials.save(result.credential);
+    if ('error' in result) {
+      res.status(403).json({ error: result.error });
+      return;
+    }
+
+    const passwordSalt = generateSalt();
+    db.credentials.save({ ...result.credential, passwordSalt, passwordHash: await hashSecret(next, passwordSalt) });
+    const sessionId = readSessionId(req);
+    db.sessions.listForUser(user.id).filter(s => s.id !== sessionId).forEach(s => db.sessions.remove(s.id));
+    res.status(204).end();
+  });
+
+  // Tablet PIN: set (or replace) with PUT, remove with DELETE
+  router.put('/pin', requireSession(db), async (req, res) => {
+    const user = currentUser(res);
+    const { pin } = req.body || {};
+    const credential = db.credentials.get(user.id);
+    if (!credential) {
+      res.status(400).json({ error: 'Solicitud inválida.' });
+      return;
+    }
+    // PIN login is meant for shared guard tablets
+    if (!createPermissionCheck(db.tenants.get(user.tenantId))(user, 'auth.pin')) {
+      res.status(403).json({ error: 'No tienes permisos para esta acción.' });
+      return;
+    }
+    if (typeof pin !== 'string' || !isValidPin(pin)) {
+      res.status(400).json({ error: 'El PIN debe tener entre 4 y 6 dígitos.' });
+      return;
+    }
+    const pinSalt = generateSalt();
+    db.credentials.save({ ...credential, pinSalt, pinHash: await hashSecret(pin, pinSalt) });
+    res.status(204).end();
+  });
+
+  router.delete('/pin', requireSession(db), (_req, res) => {
+    const credential = db.credentials.get(currentUser(res).id);
+    if (credential) db.credentials.save({ ...credential, pinSalt: undefined, pinHash: undefined });
+    res.status(204).end();
+  });
+
+  // Global logout: every session of the user, on every device, this one included
+  router.post('/logout-all', requireSession(db), (_req, res) => {
+    db.sessions.removeForUser(currentUser(res).id);
+    res.clearCookie(SESSION_COOKIE);
+    res.status(204).end();
+  });
+
+  return router;
+}
@@ -0,0 +1,95 @@
+import { Server } from 'http';
+import { WebSocketServer, WebSocket } from 'ws';
+import { User } from '../types';
+import { isSessionActive } from '../auth';
+import { createPermissionCheck } from '../permissions';
+import { isUserActive } from '../users';
+import type { CollectionChange } from '../data/repository';
+import { ServerDatabase } from './db';
+import { CollectionPolicy, residentPolicy, visitPolicy, userPolicy, unitPolicy, invitationPolicy, alertPolicy, blacklistPolicy, notificationPolicy, auditPolicy } from './policies';
+import { readSessionId } from './session';
+
+export type SyncCollection = 'residents' | 'visits' | 'users' | 'units' | 'invitations' | 'alerts' | 'blacklist' | 'notifications' | 'audit';
+
+// What every synced item has in common; each collection's policy narrows it to its own type
+type SyncItem = { id: string; tenantId: string };
+
+// Called by the routes after every accepted write
+export type ChangeNotifier = (tenantId: string, collection: SyncCollection, change: CollectionChange<SyncItem>) => void;
+
+const POLICIES: Record<SyncCollection, CollectionPolicy<SyncItem>> = {
+  residents: residentPolicy,
+  visits: visitPolicy,
+  users: userPolicy,
+  units: unitPolicy,
+  invitations: invitationPolicy,
+  alerts: alertPolicy,
+  blacklist: blacklistPolicy,
+  notifications: notificationPolicy,
+  audit: auditPolicy,
+};
+
+interface SyncClient {
+  socket: WebSocket;
+  sessionId: string;
+  tenantId: string;
+}
+
+// WebSocket hub at /api/sync: pushes every change to the connected clients of the same tenant, filtered
+// with the same read rules as GET, so a resident's phone only hears about its own unit.
+// The writer gets its own change back too, which is harmless since clients apply changes as upserts.
+export function attachSyncServer(server: Server, db: ServerDatabase): ChangeNotifier {
+  const wss = new WebSocketServer({ noServer: true });
+  const clients = new Set<SyncClient>();
+
+  server.on('upgrade', (req, socket, head) => {
+    if (req.url?.split('?')[0] !== '/api/sync') {
+      socket.destroy();
+      return;
+    }
+    const sessionId = readSessionId(req);
+    const session = sessionId ? db.sessions.get(sessionId) : undefined;
+    const user = session && isSessionActive(session) ? db.users.get(session.userId) : undefined;
+    if (!session || !isUserActive(user)) {
+      socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
+      socket.destroy();
+      return;
+    }
+    wss.handleUpgrade(req, socket, head, ws => {
+      const client: SyncClient = { socket: ws, sessionId: session.id, tenantId: user.tenantId };
+      clients.add(client);
+      ws.on('close', () => clients.delete(client));
+    });
+  });
+
+  // The session and user are re-read on every push so logouts and role changes apply immediately (and the
+  // tenant's permission matrix on every change)
+  const resolveUser = (client: SyncClient): User | undefined => {
+    const session = db.sessions.get(client.sessionId);
+    if (!session || !isSessionActive(session)) return undefined;
+    const user = db.users.get(session.userId);
+    return isUserActive(user) ? user : undefined;
+  };
+
+  return (tenantId, collection, change) => {
+    const policy = POLICIES[collection];
+    const ctx = { residents: db.residents.list(tenantId), units: db.units.list(tenantId), can: createPermissionCheck(db.tenants.get(tenantId)) };
+
+    for (const client of clients) {
+      if (client.tenantId !== tenantId) continue;
+      const user = resolveUser(client);
+      if (!user) {
+        client.socket.close(4401, 'Sesión expirada');
+        continue;
+      }
+
+      let visibleChange = change;
+      if (change.type === 'saved') {
+        const items = change.items.filter(item => policy.canRead(user, item, ctx));
+        if (items.length === 0) continue;
+        visibleChange = { type: 'saved', items };
+      }
+      client.socket.send(JSON.stringify({ collection, change: visibleChange }));
+    }
+  };
+}
@@ -0,0 +1,44 @@
+import { Tenant, Tower, AccessGate, QRPayload, Unit } from './types';
+
+export const getTowers = (tenant?: Pick<Tenant, 'towers'>): Tower[] => tenant?.towers ?? [];
+
+export const getGates = (tenant?: Pick<Tenant, 'gates'>): AccessGate[] => tenant?.gates ?? [];
+
+export const getTowerName = (tenant: Pick<Tenant, 'towers'> | undefined, towerId?: string) =>
+  towerId ? getTowers(tenant).find(t => t.id === towerId)?.name : undefined;
+
+// A tower can't be removed while units still belong to it
+export const isTowerInUse = (towerId: string, units: Unit[]) => units.some(u => u.towerId === towerId);
+
+// Removed gates keep showing their id so old visits stay traceable
+export const getGateName = (tenant: Pick<Tenant, 'gates'> | undefined, gateId?: string) =>
+  gateId ? getGates(tenant).find(g => g.id === gateId)?.name || gateId : 'Sin acceso asignado';
+
+// The gate a guard scans at: the one bound to the session, or the only gate when there is no choice to make
+export const resolveGateId = (tenant: Pick<Tenant, 'gates'> | undefined, gateId?: string) => {
+  const gates = getGates(tenant);
+  return gateId ?? (gates.length === 1 ? gates[0].id : undefined);
+};
+
+// Invitations without `gateIds` are valid at every access point
+export const isGateAllowed = (payload: Pick<QRPayload, 'gateIds'>, gateId?: string) =>
+  !payload.gateIds?.length || (!!gateId && payload.gateIds.includes(gateId));
+
+// Shared by the Torres y Accesos screen, tenant validation and the API server; returns the first problem found
+export function validateSiteLayout(towers: unknown, gates: unknown): string | null {
+  for (const [list, label] of [[towers, 'torre'], [gates, 'acceso']] as const) {
+    if (list === undefined) continue;
+    // 1. Structure
+    if (!Array.isArray(list) || list.some(item => !item || typeof item.id !== 'string' || typeof item.name !== 'string')) {
+      return `La lista de ${label}s no es válida.`;
+    }
+    // 2. Names
+    if (list.some(item => !item.name.trim())) return `Cada ${label} necesita un nombre.`;
+    // 3. Uniqueness
+    const names = list.map(item => item.name.trim().toLowerCase());
+    if (new Set(names).size !== names.length || new Set(list.map(item => item.id)).size !== list.length) {
+      return `Hay ${label}s repetidos.`;
+    }
+  }
+  return null;
+}
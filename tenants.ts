@@ -0,0 +1,57 @@
+import { Tenant, PublicTenant } from './types';
+import { isValidHexColor } from './branding';
+import { validatePermissionMatrix } from './permissions';
+import { validateSiteLayout } from './site';
+
+export const isTenantActive = (tenant?: Tenant) => tenant?.status !== 'Inactive';
+
+export const TENANT_INACTIVE_ERROR = 'Este condominio está desactivado. Contacta al administrador de la plataforma.';
+
+// Display name for a tenant id (falls back to the id for unknown tenants)
+export const getTenantName = (tenants: Tenant[], tenantId: string) =>
+  tenants.find(t => t.id === tenantId)?.name || tenantId;
+
+export const isValidDomain = (domain: string) => /^(?!-)[a-z0-9-]+(\.[a-z0-9-]+)+$/i.test(domain);
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('es-CL', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Shared by the admin screen and the API server; returns the first problem found
+export function validateTenant(tenant: Tenant, tenants: Tenant[]): string | null {
+  // 1. Required Fields
+  if (!tenant.name?.trim() || !tenant.domain?.trim()) return 'Nombre y dominio son obligatorios.';
+  // 2. Format
+  if (!isValidDomain(tenant.domain)) return 'El dominio no es válido (ej. alerces.condoguard.com).';
+  if (tenant.timezone && !isValidTimezone(tenant.timezone)) return 'La zona horaria no es válida (ej. America/Santiago).';
+  if (tenant.branding?.primaryColor && !isValidHexColor(tenant.branding.primaryColor)) return 'El color debe tener el formato #rrggbb.';
+  if (tenant.permissions !== undefined) {
+    const permissionsError = validatePermissionMatrix(tenant.permissions);
+    if (permissionsError) return permissionsError;
+  }
+  const siteError = validateSiteLayout(tenant.towers, tenant.gates);
+  if (siteError) return siteError;
+  // 3. Uniqueness
+  if (tenants.some(t => t.id !== tenant.id && t.domain.toLowerCase() === tenant.domain.toLowerCase())) {
+    return 'Ya existe un condominio con ese dominio.';
+  }
+  return null;
+}
+
+// The tenant served on this hostname. The `?tenant=` override (id or domain) only applies
+// on hosts that are not a tenant domain themselves (localhost, preview URLs), for local development.
+export function resolveTenant<T extends Pick<Tenant, 'id' | 'domain'>>(tenants: T[], hostname: string, override?: string | null): T | undefined {
+  const fromHost = tenants.find(t => t.domain.toLowerCase() === hostname.toLowerCase());
+  if (fromHost || !override) return fromHost;
+  const key = override.trim().toLowerCase();
+  return tenants.find(t => t.id.toLowerCase() === key || t.domain.toLowerCase() === key);
+}
+
+export const TENANT_OVERRIDE_PARAM = 'tenant';
+
+export const toPublicTenant = ({ qrSigningKey: _secret, ...tenant }: Tenant): PublicTenant => tenant;
@@ -1,11 +1,61 @@
-export type Role = 'X' | 'A' | 'B';
+// X Admin, A Portería, B Residente propietario, M Gerente (manages without owning), C Comité (read-only oversight),
+// R Arrendatario (lives in a unit it doesn't own; rights delegated by the owner)
+export type Role = 'X' | 'A' | 'B' | 'M' | 'C' | 'R';
+
+// What a role may do (see permissions.ts for labels and DEFAULT_PERMISSIONS in constants.ts)
+export type Capability =
+  | 'resident.view' | 'resident.create' | 'resident.edit' | 'resident.delete'
+  | 'qr.generate' | 'qr.validate'
+  | 'visit.view' | 'visit.approve' | 'visit.delete'
+  | 'alert.manage' | 'blacklist.manage' | 'audit.view' | 'notification.view'
+  | 'user.view' | 'user.edit' | 'user.role' | 'user.delete'
+  | 'unit.view' | 'unit.manage' | 'unit.delegate'
+  | 'auth.pin' | 'tenant.settings' | 'permission.manage';
+
+// 'all' = anyone in the tenant; 'own' = only the user's unit (residents, visits, invitations) or profile (users)
+export type PermissionScope = 'all' | 'own';
+
+// Grants per role; a role missing from a tenant's matrix uses the defaults
+export type PermissionMatrix = Partial<Record<Role, Partial<Record<Capability, PermissionScope>>>>;
 
 export interface Tenant {
   id: string;
   name: string;
   domain: string;
+  qrSigningKey?: string; // Ed25519 private key (PKCS#8, base64url) that signs the QR invitations; never leaves the signer
+  qrPublicKey?: string; // Matching public key (raw, base64url) the gate verifies with
+  address?: string;
+  timezone?: string; // IANA zone, e.g. 'America/Santiago' (default DEFAULT_TENANT_TIMEZONE)
+  logo?: string; // Image URL or data URL
+  status?: 'Active' | 'Inactive'; // Inactive tenants cannot log in; undefined = Active
+  branding?: TenantBranding;
+  residentRetentionDays?: number; // How long archived residents are kept before purging (default DEFAULT_RESIDENT_RETENTION_DAYS)
+  expiryWarningHours?: number[]; // Hours before a resident's expirationDate to warn (default DEFAULT_EXPIRY_WARNING_HOURS)
+  permissions?: PermissionMatrix; // Role -> capability mapping (default DEFAULT_PERMISSIONS)
+  towers?: Tower[]; // Towers/blocks grouping the units (see site.ts)
+  gates?: AccessGate[]; // Named entrances where Portería works
+}
+
+export interface Tower {
+  id: string;
+  name: string; // e.g. "A", "Norte"
+}
+
+export interface AccessGate {
+  id: string;
+  name: string; // e.g. "Portón Norte", "Peatonal"
+}
+
+// White-label settings (see branding.ts); the logo lives on Tenant.logo
+export interface TenantBranding {
+  displayName?: string; // Replaces "MiVilla" in the shell, login and invitations
+  primaryColor?: string; // Hex (#rrggbb); becomes the brand-600 shade of the palette
+  welcomeText?: string; // Shown on the login screen and invitation cards
 }
 
+// What the login screen may know about a tenant before anyone is authenticated
+export type PublicTenant = Omit<Tenant, 'qrSigningKey'>;
+
 export interface User {
   id: string;
   name: string;
@@ -13,28 +63,208 @@ export interface User {
   role: Role;
   tenantId: string;
   avatar: string;
-  unit?: string; // Optional: specific for Role B (Residents)
+  unit?: string; // Unit.number; specific for Role B (Residents) and R (Renters)
+  superAdmin?: boolean; // Platform operator: can create and manage every tenant
+  delegation?: UnitDelegation; // Role R: rights handed over by the unit's owner
+  status?: 'Active' | 'Inactive'; // Inactive users (moved out, unit sold) cannot log in; undefined = Active
+  deactivatedAt?: string; // ISO timestamp when the user was deactivated
+}
+
+// Unit rights an owner hands to a renter of the same unit (see DELEGABLE_CAPABILITIES in permissions.ts)
+export interface UnitDelegation {
+  capabilities: Capability[];
+  grantedBy: { id: string; name: string };
+  grantedAt: string; // ISO timestamp
+}
+
+// An apartment/house of the tenant. `User.unit`, `Resident.unit` and invitations refer to it by `number`.
+export interface Unit {
+  id: string;
+  tenantId: string;
+  number: string; // Unique within the tenant, e.g. "101"; can't be changed once created
+  towerId?: string; // Tower.id of the tenant
+  floor?: number;
+  ownerIds: string[]; // Owners (Role B users)
+  occupancyLimit?: number; // Max active residents registered for the unit; undefined = no limit
+  parkingSpots: string[]; // e.g. ["E-12", "E-13"]
 }
 
 export interface Resident {
   id: string;
   tenantId: string;
   name: string;
-  unit: string;
+  unit: string; // Unit.number
   type: 'Resident' | 'Family' | 'Visitor' | 'Delivery'; // Updated types
-  status: 'Active' | 'Inactive';
+  status: 'Active' | 'Inactive'; // Inactive = archived (expired or manually), purged after the tenant's retention period
   licensePlate?: string; // New optional field
-  expirationDate?: string; // New optional field for auto-deletion
+  expirationDate?: string; // New optional field for auto-archiving
+  archivedAt?: string; // ISO timestamp when the resident became Inactive
+  schedule?: AccessSchedule; // Visitors only: recurring days/hours they may come in (e.g. cleaning staff)
 }
 
+// Recurring access window, in the tenant's timezone. Attached to a Visitor resident or to a long-lived QR.
+export interface AccessSchedule {
+  days: number[]; // Weekdays, 0 = Sunday ... 6 = Saturday
+  from: string; // 'HH:MM'
+  to: string; // 'HH:MM', later than `from`
+  startDate?: string; // 'YYYY-MM-DD', first valid day
+  endDate?: string; // 'YYYY-MM-DD', last valid day
+}
+
+// Machine-readable reason a visit was rejected (used by the alerts engine)
+export type RejectionCode = 'format' | 'tenant' | 'signature' | 'unknown' | 'gate' | 'revoked' | 'expired' | 'schedule' | 'used' | 'denied' | 'not_inside';
+
 export interface Visit {
   id: string;
   tenantId: string;
   visitorName: string;
   residentId: string;
-  date: string;
-  status: 'Pending' | 'Approved' | 'Completed';
+  date: string; // Full ISO timestamp of the scan / registration
+  status: 'Pending' | 'Approved' | 'Completed' | 'Rejected';
   code: string;
+  qrId?: string; // QRPayload.id when the visit came from a scanned invitation
+  visitorRut?: string;
+  licensePlate?: string;
+  companions?: number;
+  guard?: { // Portería user who processed the visit
+    id: string;
+    name: string;
+  };
+  rejectionReason?: string;
+  rejectionCode?: RejectionCode;
+  checkInAt?: string; // ISO timestamp of entry (scan)
+  checkOutAt?: string; // ISO timestamp of exit (scan or manual)
+  expiresAt?: string; // Invitation expiry, used to flag overstays
+  source?: 'QR' | 'WalkIn'; // How the visit was registered at the gate
+  gateId?: string; // AccessGate.id where the guard registered it
+  direction?: 'exit'; // Scan made in "Salida" mode; absent for entries
+  decision?: { // Resident's answer to a walk-in request
+    by: { id: string; name: string };
+    at: string;
+  };
+}
+
+// Payload embedded (signed) inside an invitation QR
+export interface QRPayload {
+  id: string;
+  tenantId: string; // Security: Domain lock
+  residentId: string;
+  residentName: string;
+  residentUnit: string;
+  visitorName: string;
+  visitorRut?: string; // National ID (RUT), formatted "12.345.678-5"
+  licensePlate?: string;
+  companions?: number;
+  createdBy: {
+    name: string;
+    role: string;
+    id: string;
+  };
+  expiresAt: string;
+  generatedAt: number;
+  maxUses?: number; // How many scans the code allows. Defaults to 1 (single-use); ignored for recurring passes
+  schedule?: AccessSchedule; // Recurring pass: only accepted inside this window until `expiresAt`
+  gateIds?: string[]; // AccessGate ids where the code is accepted; undefined = every gate
+}
+
+// Invitation issued (and signed) by the API server
+export interface Invitation {
+  id: string; // Same as payload.id
+  tenantId: string;
+  residentId: string;
+  payload: QRPayload;
+  qrValue: string; // Signed envelope to encode in the QR image
+  createdAt: string; // ISO timestamp
+  revocation?: { // Taken back by the issuer or an admin; the gate rejects it from then on
+    at: string; // ISO timestamp
+    by: { id: string; name: string };
+    reason: string;
+  };
+}
+
+export type AlertRule = 'repeated_rejections' | 'expired_code' | 'cross_tenant' | 'forged_code' | 'overstay' | 'blacklisted_plate';
+export type AlertSeverity = 'low' | 'medium' | 'high';
+
+export interface Alert {
+  id: string;
+  tenantId: string;
+  key: string; // Deduplication key (rule + source event), so a rule fires once per event
+  rule: AlertRule;
+  severity: AlertSeverity;
+  message: string;
+  createdAt: string;
+  status: 'Open' | 'Acknowledged' | 'Resolved';
+  visitId?: string;
+  residentId?: string; // Host of the visit, so unit-scoped users only see their own unit's alerts
+  acknowledgedBy?: { id: string; name: string; at: string };
+  resolvedBy?: { id: string; name: string; at: string };
+}
+
+// In-app notice for the owning unit (Role B) and admins (Role X)
+export interface AppNotification {
+  id: string;
+  tenantId: string;
+  key: string; // Deduplication key (resident + expiration + threshold), so each warning fires once
+  kind: 'resident_expiring';
+  unit: string; // Unit that owns the resident; B users only see their own
+  residentId: string;
+  expirationDate: string; // Expiration the warning refers to; once extended the notice is stale
+  message: string;
+  createdAt: string;
+  readBy: string[]; // User ids that dismissed it
+}
+
+export interface BlacklistedPlate {
+  id: string;
+  tenantId: string;
+  plate: string;
+  reason: string;
+  createdAt: string;
+}
+
+// Login secrets, stored apart from User so hashes never travel with user objects (UI, AI context)
+export interface UserCredential {
+  userId: string;
+  passwordSalt: string; // base64
+  passwordHash: string; // base64 PBKDF2-SHA256
+  pinSalt?: string; // Optional 4-6 digit PIN for guard tablets
+  pinHash?: string;
+  failedAttempts: number;
+  lockedUntil?: string; // ISO timestamp; login refused until then
+}
+
+export interface Session {
+  id: string;
+  userId: string;
+  method: 'password' | 'pin' | 'simulated';
+  createdAt: string;
+  expiresAt: string;
+  gateId?: string; // Portería: the access point this session works at, chosen once per session
+}
+
+export type AuditAction =
+  | 'create' | 'update' | 'delete'
+  | 'qr_accepted' | 'qr_rejected' | 'qr_checkout'
+  | 'login' | 'logout';
+
+export type AuditEntity = 'resident' | 'visit' | 'user' | 'unit' | 'tenant' | 'alert' | 'blacklist' | 'credential' | 'session' | 'invitation';
+
+// Append-only trail of every data change and access decision
+export interface AuditEntry {
+  id: string;
+  tenantId: string;
+  at: string; // ISO timestamp
+  actor: {
+    id: string;
+    name: string;
+    role?: Role; // Absent for automatic system jobs
+  };
+  action: AuditAction;
+  entity: AuditEntity;
+  entityId?: string;
+  summary: string; // Human-readable description shown in the audit view
+  before?: unknown;
+  after?: unknown;
 }
 
 export interface ChatMessage {
@@ -0,0 +1,56 @@
+import { Unit, User, Resident, Tenant } from './types';
+import { getTowerName, getTowers } from './site';
+
+// Free text used to be typed everywhere, so compare numbers trimmed and case-insensitively ("101 " = "101")
+export const normalizeUnitNumber = (value: string) => value.trim().toUpperCase();
+
+export const findUnit = (units: Unit[], number?: string) =>
+  number ? units.find(u => normalizeUnitNumber(u.number) === normalizeUnitNumber(number)) : undefined;
+
+// e.g. "Torre A · 101"
+export const formatUnitLabel = (unit: Unit, tenant?: Tenant) => {
+  const tower = getTowerName(tenant, unit.towerId);
+  return tower ? `Torre ${tower} · ${unit.number}` : unit.number;
+};
+
+// By tower (in the tenant's order, units without one last), then by number
+export const sortUnits = (units: Unit[], tenant?: Tenant) => {
+  const towerIds = getTowers(tenant).map(t => t.id);
+  const towerOrder = (unit: Unit) => unit.towerId && towerIds.includes(unit.towerId) ? towerIds.indexOf(unit.towerId) : towerIds.length;
+  return [...units].sort((a, b) => towerOrder(a) - towerOrder(b) || a.number.localeCompare(b.number, 'es', { numeric: true }));
+};
+
+export const countActiveResidents = (unit: Unit, residents: Resident[]) =>
+  residents.filter(r => r.unit === unit.number && r.status === 'Active').length;
+
+// A full unit doesn't accept new (or restored) residents
+export const isUnitFull = (unit: Unit | undefined, residents: Resident[]) =>
+  !!unit?.occupancyLimit && countActiveResidents(unit, residents) >= unit.occupancyLimit;
+
+// Shared by the Unidades screen and the API server; returns the first problem found
+export function validateUnit(unit: Unit, units: Unit[]): string | null {
+  // 1. Required Fields
+  if (!unit.number?.trim()) return 'El número de unidad es obligatorio.';
+  // 2. Uniqueness within the tenant
+  if (units.some(u => u.id !== unit.id && u.tenantId === unit.tenantId && normalizeUnitNumber(u.number) === normalizeUnitNumber(unit.number))) {
+    return `Ya existe la unidad ${unit.number.trim()}.`;
+  }
+  // 3. Numbers
+  if (unit.floor !== undefined && !Number.isInteger(unit.floor)) return 'El piso debe ser un número entero.';
+  if (unit.occupancyLimit !== undefined && (!Number.isInteger(unit.occupancyLimit) || unit.occupancyLimit < 1)) {
+    return 'El límite de ocupación debe ser un entero positivo.';
+  }
+  // 4. Lists
+  if (!Array.isArray(unit.ownerIds) || !Array.isArray(unit.parkingSpots)) return 'La unidad no es válida.';
+  if (unit.parkingSpots.some(p => !p.trim()) || new Set(unit.parkingSpots).size !== unit.parkingSpots.length) {
+    return 'Los estacionamientos no pueden repetirse ni estar vacíos.';
+  }
+  return null;
+}
+
+// Units still only known as free text on users and residents (data from before units existed), to register them
+export function findUnregisteredUnits(units: Unit[], users: User[], residents: Resident[]): string[] {
+  const numbers = [...users.map(u => u.unit), ...residents.map(r => r.unit)].filter((n): n is string => !!n?.trim());
+  const unknown = numbers.filter(n => !findUnit(units, n));
+  return unknown.filter((n, i) => unknown.findIndex(other => normalizeUnitNumber(other) === normalizeUnitNumber(n)) === i);
+}
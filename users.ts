@@ -0,0 +1,67 @@
+import { User, Resident, Role } from './types';
+import { MIN_PASSWORD_LENGTH } from './auth';
+import { ROLES } from './permissions';
+
+export const isUserActive = (user?: User) => !!user && user.status !== 'Inactive';
+
+export const USER_INACTIVE_ERROR = 'Tu cuenta está desactivada. Contacta a la administración del condominio.';
+
+// Roles that live in (and are scoped to) a unit
+export const UNIT_ROLES: Role[] = ['B', 'R'];
+
+export const defaultAvatar = (email: string) => `https://picsum.photos/seed/${encodeURIComponent(email)}/200`;
+
+export type NewUserInput = Pick<User, 'name' | 'email' | 'role' | 'unit'>;
+
+// Shared by the Usuarios screen and the API server; returns the first problem found
+export function validateNewUser(user: NewUserInput, password: unknown, users: User[]): string | null {
+  // 1. Required Fields
+  if (!user.name?.trim() || !user.email?.includes('@')) return 'Nombre y correo son obligatorios.';
+  if (!ROLES.includes(user.role)) return 'El rol no es válido.';
+  if (UNIT_ROLES.includes(user.role) && !user.unit?.trim()) return 'Los residentes y arrendatarios necesitan una unidad.';
+  // 2. Password
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) return `La contraseña inicial debe tener al menos ${MIN_PASSWORD_LENGTH} caracteres.`;
+  // 3. Uniqueness
+  if (users.some(u => u.email.toLowerCase() === user.email.trim().toLowerCase())) return 'Ya existe un usuario con ese correo.';
+  return null;
+}
+
+// Only residents and renters keep the unit; staff accounts are tenant-wide
+export const buildNewUser = (input: NewUserInput, tenantId: string): User => {
+  const email = input.email.trim().toLowerCase();
+  return {
+    id: crypto.randomUUID(),
+    name: input.name.trim(),
+    email,
+    role: input.role,
+    tenantId,
+    avatar: defaultAvatar(email),
+    unit: UNIT_ROLES.includes(input.role) ? input.unit?.trim() : undefined,
+    status: 'Active',
+  };
+};
+
+const deactivate = (user: User, now: Date): User => ({ ...user, status: 'Inactive', deactivatedAt: now.toISOString(), delegation: undefined });
+
+// The unit changes hands: its owners move out, the new owner takes over and renters lose what the old owner delegated.
+// Returns only the users that change, for the caller to save.
+export function planUnitTransfer(users: User[], unit: string, newOwner: User, now: Date): User[] {
+  const previousOwners = users
+    .filter(u => u.id !== newOwner.id && u.role === 'B' && u.unit === unit && isUserActive(u))
+    .map(u => deactivate(u, now));
+  const renters = users
+    .filter(u => u.id !== newOwner.id && u.role === 'R' && u.unit === unit && u.delegation)
+    .map(u => ({ ...u, delegation: undefined }));
+  const owner: User = { ...newOwner, role: 'B', unit, status: 'Active', deactivatedAt: undefined, delegation: undefined };
+  return [...previousOwners, ...renters, owner];
+}
+
+// Unit sold or vacated: every account of the unit is deactivated and its residents archived (purged after retention)
+export function planUnitOffboarding(users: User[], residents: Resident[], unit: string, now: Date) {
+  return {
+    users: users.filter(u => u.unit === unit && isUserActive(u)).map(u => deactivate(u, now)),
+    residents: residents
+      .filter(r => r.unit === unit && r.status === 'Active')
+      .map((r): Resident => ({ ...r, status: 'Inactive', archivedAt: now.toISOString() })),
+  };
+}
@@ -0,0 +1,39 @@
+// Chilean RUT helpers (e.g. "12.345.678-5")
+
+// Strips dots, dashes and spaces: "12.345.678-k" -> "12345678K"
+export function cleanRut(rut: string): string {
+  return rut.replace(/[^0-9kK]/g, '').toUpperCase();
+}
+
+// Computes the check digit (módulo 11) for the numeric body of a RUT
+export function computeRutCheckDigit(body: string): string {
+  let sum = 0;
+  let multiplier = 2;
+  for (let i = body.length - 1; i >= 0; i--) {
+    sum += parseInt(body[i], 10) * multiplier;
+    multiplier = multiplier === 7 ? 2 : multiplier + 1;
+  }
+  const dv = 11 - (sum % 11);
+  if (dv === 11) return '0';
+  if (dv === 10) return 'K';
+  return String(dv);
+}
+
+export function isValidRut(rut: string): boolean {
+  const clean = cleanRut(rut);
+  if (!/^\d{7,8}[0-9K]$/.test(clean)) return false;
+  return computeRutCheckDigit(clean.slice(0, -1)) === clean.slice(-1);
+}
+
+// Formats a RUT as "12.345.678-5". Returns the input unchanged if it is too short to format.
+export function formatRut(rut: string): string {
+  const clean = cleanRut(rut);
+  if (clean.length < 2) return rut;
+  const body = clean.slice(0, -1).replace(/\B(?=(\d{3})+(?!\d))/g, '.');
+  return `${body}-${clean.slice(-1)}`;
+}
+
+// Normalizes license plates for comparison: "gh-45 22" -> "GH4522"
+export function normalizePlate(plate: string): string {
+  return plate.replace(/[^0-9A-Za-z]/g, '').toUpperCase();
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { QRPayload } from './types';
+import { buildScanVisit } from './visits';
+import { findCodeEntries } from './invitations';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+const guard = { id: 'u2', name: 'Ana Portería', tenantId: 't1' };
+
+const payload: QRPayload = {
+  id: 'a1b2c3d4-0000-4000-8000-000000000000',
+  tenantId: 't1',
+  residentId: 'r1',
+  residentName: 'Beto Residente',
+  residentUnit: '101',
+  visitorName: 'Juan Pérez',
+  visitorRut: '12.345.678-5',
+  licensePlate: 'AB1234',
+  companions: 2,
+  createdBy: { id: 'u3', name: 'Beto Residente', role: 'B' },
+  expiresAt: '2026-10-20T12:00:00.000Z',
+  generatedAt: 0,
+};
+
+describe('buildScanVisit', () => {
+  it('records an accepted scan as the visitor entry', () => {
+    const visit = buildScanVisit({ status: 'Approved', payload }, guard, NOW, 'g1');
+    expect(visit).toMatchObject({
+      tenantId: 't1',
+      visitorName: 'Juan Pérez',
+      residentId: 'r1',
+      date: NOW.toISOString(),
+      status: 'Approved',
+      code: 'A1B2C3D4',
+      qrId: payload.id,
+      visitorRut: '12.345.678-5',
+      licensePlate: 'AB1234',
+      companions: 2,
+      guard: { id: 'u2', name: 'Ana Portería' },
+      checkInAt: NOW.toISOString(),
+      expiresAt: payload.expiresAt,
+      source: 'QR',
+      gateId: 'g1',
+    });
+    expect(visit.rejectionCode).toBeUndefined();
+  });
+
+  it('records a rejected scan with its reason and without an entry', () => {
+    const visit = buildScanVisit({ status: 'Rejected', payload, rejectionReason: 'Código ya utilizado.', rejectionCode: 'used' }, guard, NOW);
+    expect(visit).toMatchObject({ status: 'Rejected', rejectionReason: 'Código ya utilizado.', rejectionCode: 'used', qrId: payload.id });
+    expect(visit.checkInAt).toBeUndefined();
+  });
+
+  it('does not link the host of a code issued by another tenant', () => {
+    const visit = buildScanVisit({ status: 'Rejected', payload: { ...payload, tenantId: 't2' }, rejectionCode: 'tenant' }, guard, NOW);
+    expect(visit.tenantId).toBe('t1');
+    expect(visit.residentId).toBe('');
+  });
+
+  it('records unreadable codes as an unknown visitor', () => {
+    const visit = buildScanVisit({ status: 'Rejected', payload: null, rejectionCode: 'format' }, guard, NOW);
+    expect(visit).toMatchObject({ visitorName: 'Desconocido', residentId: '', code: '-', qrId: undefined });
+  });
+
+  it('tags rejected exit attempts as exits', () => {
+    const visit = buildScanVisit({ status: 'Rejected', payload, rejectionCode: 'not_inside', direction: 'exit' }, guard, NOW);
+    expect(visit).toMatchObject({ status: 'Rejected', rejectionCode: 'not_inside', direction: 'exit' });
+    expect(visit.checkInAt).toBeUndefined();
+    expect(buildScanVisit({ status: 'Rejected', payload: null, rejectionCode: 'format' }, guard, NOW).direction).toBeUndefined();
+  });
+
+  it('gives every scan its own record', () => {
+    const first = buildScanVisit({ status: 'Approved', payload }, guard, NOW);
+    const second = buildScanVisit({ status: 'Approved', payload }, guard, NOW);
+    expect(first.id).not.toBe(second.id);
+  });
+});
+
+describe('visit log', () => {
+  it('counts accepted scans as uses of the code and ignores rejected ones', () => {
+    const log = [
+      buildScanVisit({ status: 'Approved', payload }, guard, new Date('2026-10-19T10:00:00Z')),
+      buildScanVisit({ status: 'Rejected', payload, rejectionCode: 'used' }, guard, new Date('2026-10-19T11:00:00Z')),
+      buildScanVisit({ status: 'Approved', payload }, guard, new Date('2026-10-19T09:00:00Z')),
+      buildScanVisit({ status: 'Approved', payload: { ...payload, id: 'other' } }, guard, NOW),
+    ];
+    const entries = findCodeEntries(payload.id, log);
+    expect(entries.map(v => v.checkInAt)).toEqual(['2026-10-19T09:00:00.000Z', '2026-10-19T10:00:00.000Z']);
+  });
+});
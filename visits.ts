@@ -0,0 +1,44 @@
+import { QRPayload, RejectionCode, User, Visit } from './types';
+
+export interface ScanOutcome {
+  status: 'Approved' | 'Rejected';
+  payload: QRPayload | null; // null when the code couldn't even be decoded
+  rejectionReason?: string;
+  rejectionCode?: RejectionCode;
+  direction?: 'exit';
+}
+
+// Visit log entry for a QR scan at the gate. Every scan (accepted or rejected) is recorded so the
+// Dashboard reflects real gate traffic; accepted ones are the visitor's entry. Rejected exit attempts keep
+// their direction so they don't read as someone being turned away at the door.
+export function buildScanVisit(
+  { status, payload, rejectionReason, rejectionCode, direction }: ScanOutcome,
+  guard: Pick<User, 'id' | 'name' | 'tenantId'>,
+  now: Date,
+  gateId?: string
+): Visit {
+  const at = now.toISOString();
+  return {
+    id: crypto.randomUUID(),
+    tenantId: guard.tenantId,
+    visitorName: payload?.visitorName || 'Desconocido',
+    // Only link the resident when the code was issued by this tenant
+    residentId: payload && payload.tenantId === guard.tenantId ? (payload.residentId || '') : '',
+    date: at,
+    status,
+    code: payload?.id ? payload.id.slice(0, 8).toUpperCase() : '-',
+    qrId: payload?.id,
+    visitorRut: payload?.visitorRut,
+    licensePlate: payload?.licensePlate,
+    companions: payload?.companions,
+    guard: { id: guard.id, name: guard.name },
+    rejectionReason,
+    rejectionCode,
+    // Accepted scans are the entry event
+    checkInAt: status === 'Approved' ? at : undefined,
+    expiresAt: payload?.expiresAt,
+    source: 'QR',
+    gateId,
+    direction,
+  };
+}
@@ -8,11 +8,20 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // Same-origin access to the API server (npm run server) so its session cookie works
+        proxy: {
+          '/api': { target: `http://localhost:${env.API_PORT || 4000}`, ws: true },
+        },
       },
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        // Persistence backend: 'localStorage' (default), 'indexedDB' or 'http' (uses API_BASE_URL)
+        'process.env.DATA_BACKEND': JSON.stringify(env.DATA_BACKEND),
+        'process.env.API_BASE_URL': JSON.stringify(env.API_BASE_URL),
+        // Dev-only profile picker on the login screen; always off in production builds
+        'process.env.ENABLE_PROFILE_SIMULATION': JSON.stringify(mode !== 'production' ? env.ENABLE_PROFILE_SIMULATION : 'false')
       },
       resolve: {
         alias: {